@@ -62,7 +62,13 @@ export default function TabTwoScreen() {
           <ThemedText style={styles.bulletPoint}>• Monitor vehicle counts by type</ThemedText>
           <ThemedText style={styles.bulletPoint}>• View recent detection history</ThemedText>
           <ThemedText style={styles.bulletPoint}>• Export data for analysis</ThemedText>
-          <ThemedText style={styles.bulletPoint}>• Reset counters when needed</ThemedText>
+          <ThemedText style={styles.bulletPoint}>• Start a new session when needed</ThemedText>
+
+          <ThemedText style={[styles.text, styles.marginTop]}>
+            <ThemedText type="defaultSemiBold">Sessions Tab:</ThemedText>
+          </ThemedText>
+          <ThemedText style={styles.bulletPoint}>• Record site, operator and notes for each count</ThemedText>
+          <ThemedText style={styles.bulletPoint}>• Browse, reopen and export past sessions</ThemedText>
         </Collapsible>
 
         <Collapsible title="⚙️ Technical Features">
@@ -0,0 +1,361 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import ExportFormatPicker from '@/components/ExportFormatPicker';
+import PhotoImportPanel from '@/components/PhotoImportPanel';
+import SessionForm from '@/components/SessionForm';
+import VideoAnalysisPanel from '@/components/VideoAnalysisPanel';
+import { NmsMode } from '@/services/DetectionFilter';
+import ExportService, { ExportFormat } from '@/services/ExportService';
+import { SessionDetails, SessionSummary } from '@/services/Sessions';
+import VehicleDetectionService from '@/services/VehicleDetectionService';
+
+export default function SessionsScreen() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [exportSessionId, setExportSessionId] = useState<string | null>(null);
+  const [isVideoPanelVisible, setIsVideoPanelVisible] = useState(false);
+  const [isPhotoPanelVisible, setIsPhotoPanelVisible] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await VehicleDetectionService.listSessions());
+      setActiveSessionId(VehicleDetectionService.getActiveSession()?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [loadSessions])
+  );
+
+  const startSession = async (details: SessionDetails) => {
+    setIsFormVisible(false);
+    try {
+      await VehicleDetectionService.startSession(details);
+    } catch (error) {
+      console.error('Session error:', error);
+      Alert.alert('Error', 'Unable to start session');
+    }
+    loadSessions();
+  };
+
+  const endSession = () => {
+    Alert.alert('End Session', 'Stop counting into the active session?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'End Session',
+        onPress: async () => {
+          await VehicleDetectionService.endSession();
+          loadSessions();
+        },
+      },
+    ]);
+  };
+
+  const reopenSession = async (session: SessionSummary) => {
+    try {
+      await VehicleDetectionService.reopenSession(session.id);
+      Alert.alert('Session Reopened', `New detections will be added to "${session.name}"`);
+    } catch (error) {
+      console.error('Session error:', error);
+      Alert.alert('Error', 'Unable to reopen session');
+    }
+    loadSessions();
+  };
+
+  const exportSession = async (format: ExportFormat) => {
+    const sessionId = exportSessionId;
+    setExportSessionId(null);
+    if (!sessionId) return;
+
+    try {
+      const result = await ExportService.exportSession(sessionId, format);
+      if (!result.shared) {
+        Alert.alert('Export Complete', `Data saved to: ${result.fileName}`);
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export data');
+    }
+  };
+
+  const formatRange = (session: SessionSummary): string => {
+    const start = session.startedAt.toLocaleString();
+    if (!session.endedAt) return `${start} – ongoing`;
+    return `${start} – ${session.endedAt.toLocaleTimeString()}`;
+  };
+
+  const latestSession = sessions[0];
+  const formDefaults = useMemo(
+    () => latestSession ? { site: latestSession.site, operator: latestSession.operator } : undefined,
+    [latestSession]
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Counting Sessions</Text>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity style={styles.newButton} onPress={() => setIsFormVisible(true)}>
+            <Text style={styles.buttonText}>+ New Session</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.videoButton} onPress={() => setIsVideoPanelVisible(true)}>
+            <Text style={styles.buttonText}>🎞 Video</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.photoButton} onPress={() => setIsPhotoPanelVisible(true)}>
+            <Text style={styles.buttonText}>🖼 Photos</Text>
+          </TouchableOpacity>
+          {activeSessionId && (
+            <TouchableOpacity style={styles.endButton} onPress={endSession}>
+              <Text style={styles.buttonText}>End Active</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <ScrollView style={styles.list}>
+        {sessions.length === 0 ? (
+          <Text style={styles.emptyText}>No sessions recorded yet</Text>
+        ) : (
+          sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            const isSelected = session.id === selectedSessionId;
+
+            return (
+              <TouchableOpacity
+                key={session.id}
+                style={[styles.sessionCard, isActive && styles.activeCard]}
+                onPress={() => setSelectedSessionId(isSelected ? null : session.id)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.sessionHeader}>
+                  <Text style={styles.sessionName}>{session.name}</Text>
+                  {isActive && <Text style={styles.activeBadge}>ACTIVE</Text>}
+                </View>
+                <Text style={styles.sessionMeta}>
+                  {[session.site, session.operator].filter(Boolean).join(' · ') || 'No site recorded'}
+                </Text>
+                <Text style={styles.sessionMeta}>{formatRange(session)}</Text>
+                <Text style={styles.sessionTotal}>{session.vehicleTotal} vehicles</Text>
+
+                {isSelected && (
+                  <View style={styles.details}>
+                    {session.notes ? <Text style={styles.detailText}>📝 {session.notes}</Text> : null}
+                    <Text style={styles.detailText}>
+                      Detector: {session.detectorMode === 'model' ? 'AI model' : 'Simulation'}
+                    </Text>
+                    <Text style={styles.detailText}>
+                      Confidence threshold: {Math.round(session.thresholds.confidenceThreshold * 100)}%
+                      {Object.entries(session.thresholds.classThresholds ?? {})
+                        .map(([type, threshold]) => ` · ${type} ${Math.round((threshold ?? 0) * 100)}%`)
+                        .join('')}
+                    </Text>
+                    {session.thresholds.nmsMode && (
+                      <Text style={styles.detailText}>
+                        NMS: {session.thresholds.nmsMode === NmsMode.OFF
+                          ? 'off'
+                          : `${session.thresholds.nmsMode === NmsMode.CLASS_AWARE ? 'per class' : 'all classes'}, IoU ${session.thresholds.nmsIouThreshold}`}
+                        {` · max ${session.thresholds.maxDetections} per frame`}
+                      </Text>
+                    )}
+                    <Text style={styles.detailText}>
+                      {session.countLines.length} count lines · {session.regions.length} regions
+                    </Text>
+
+                    <View style={styles.detailButtons}>
+                      {!isActive && (
+                        <TouchableOpacity style={styles.reopenButton} onPress={() => reopenSession(session)}>
+                          <Text style={styles.buttonText}>Reopen</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.exportButton} onPress={() => setExportSessionId(session.id)}>
+                        <Text style={styles.buttonText}>Export</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <SessionForm
+        visible={isFormVisible}
+        initialDetails={formDefaults}
+        onSubmit={startSession}
+        onCancel={() => setIsFormVisible(false)}
+      />
+
+      <VideoAnalysisPanel
+        visible={isVideoPanelVisible}
+        defaultSite={formDefaults?.site}
+        defaultOperator={formDefaults?.operator}
+        onClose={() => {
+          setIsVideoPanelVisible(false);
+          loadSessions();
+        }}
+      />
+
+      <PhotoImportPanel
+        visible={isPhotoPanelVisible}
+        onClose={() => {
+          setIsPhotoPanelVisible(false);
+          loadSessions();
+        }}
+      />
+
+      <ExportFormatPicker
+        visible={exportSessionId !== null}
+        onSelect={exportSession}
+        onCancel={() => setExportSessionId(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 50,
+    backgroundColor: '#2196F3',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  newButton: {
+    backgroundColor: '#4CAF50',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  videoButton: {
+    backgroundColor: '#9C27B0',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  photoButton: {
+    backgroundColor: '#00897B',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  endButton: {
+    backgroundColor: '#FF5722',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  list: {
+    flex: 1,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    padding: 20,
+    fontStyle: 'italic',
+  },
+  sessionCard: {
+    backgroundColor: '#fff',
+    margin: 10,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  activeCard: {
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sessionName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+  },
+  activeBadge: {
+    backgroundColor: '#4CAF50',
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sessionTotal: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    marginTop: 6,
+  },
+  details: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  detailButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  reopenButton: {
+    backgroundColor: '#FF9800',
+    paddingVertical: 10,
+    borderRadius: 8,
+    flex: 1,
+  },
+  exportButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 10,
+    borderRadius: 8,
+    flex: 1,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,886 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import PurgeLogPanel from '@/components/PurgeLogPanel';
+import WatchlistPanel from '@/components/WatchlistPanel';
+import { NmsMode } from '@/services/DetectionFilter';
+import { ClassMap } from '@/services/Detector';
+import { StreamConfig, StreamTransport } from '@/services/EventStream';
+import { PlatePrivacyMode } from '@/services/PlatePrivacy';
+import { PurgeTrigger, RETENTION_DAYS_RANGE, RetentionPolicy, describeRemoved } from '@/services/Retention';
+import RetentionService from '@/services/RetentionService';
+import { SyncConfig } from '@/services/Sync';
+import SettingsService, {
+  AppSettings,
+  CaptureMode,
+  DEFAULT_SETTINGS,
+  DETECTION_INTERVAL_RANGE,
+  MAPPABLE_CLASSES,
+  MODEL_INPUT_SIZE_RANGE,
+  STREAM_TARGET_FPS_RANGE,
+  validateSettings,
+} from '@/services/SettingsService';
+import { SpeedUnit } from '@/services/SpeedEstimation';
+import {
+  BODY_CLASS_LABELS,
+  BodyClass,
+  CustomTaxonomyConfig,
+  TAXONOMY_OPTIONS,
+  TaxonomyId,
+  getTaxonomy,
+} from '@/services/VehicleClasses';
+import VehicleDetectionService, { VehicleType } from '@/services/VehicleDetectionService';
+
+// Text fields hold what was typed so half-entered values are not rejected mid-edit
+interface SettingsForm {
+  captureMode: CaptureMode;
+  streamTargetFps: string;
+  detectionIntervalMs: string;
+  photoQuality: string;
+  modelInputSize: string;
+  confidencePercent: string;
+  classPercents: { [type: string]: string }; // blank uses the default threshold
+  nmsMode: NmsMode;
+  nmsIouThreshold: string;
+  maxDetections: string;
+  classMap: ClassMap;
+  taxonomy: TaxonomyId;
+  customTaxonomy: CustomTaxonomyConfig;
+  speedUnit: SpeedUnit;
+  platePrivacy: PlatePrivacyMode;
+  retentionDays: Record<keyof RetentionPolicy, string>; // blank keeps the data
+  sync: SyncConfig;
+  stream: StreamConfig;
+}
+
+const MAPPED_TYPES: VehicleType[] = Object.values(VehicleType).filter(type => type !== VehicleType.UNKNOWN);
+
+const CAPTURE_MODES = [
+  { mode: CaptureMode.STREAM, label: 'Stream' },
+  { mode: CaptureMode.PHOTO, label: 'Photos' },
+];
+
+const SPEED_UNITS = [
+  { unit: SpeedUnit.KMH, label: 'km/h' },
+  { unit: SpeedUnit.MPH, label: 'mph' },
+];
+
+const PLATE_PRIVACY_MODES = [
+  { mode: PlatePrivacyMode.RAW, label: 'Keep' },
+  { mode: PlatePrivacyMode.HASHED, label: 'Hash' },
+  { mode: PlatePrivacyMode.NONE, label: 'Drop' },
+];
+
+const RETENTION_FIELDS: { key: keyof RetentionPolicy; label: string }[] = [
+  { key: 'detectionDays', label: 'Detections' },
+  { key: 'plateDays', label: 'Plates' },
+  { key: 'snapshotDays', label: 'Snapshots' },
+];
+
+const STREAM_TRANSPORTS = [
+  { transport: StreamTransport.WEBSOCKET, label: 'WebSocket' },
+  { transport: StreamTransport.MQTT, label: 'MQTT' },
+];
+
+const NMS_MODES = [
+  { mode: NmsMode.CLASS_AWARE, label: 'Per class' },
+  { mode: NmsMode.CLASS_AGNOSTIC, label: 'All classes' },
+  { mode: NmsMode.OFF, label: 'Off' },
+];
+
+function toForm(settings: AppSettings): SettingsForm {
+  const { detectionFilter } = settings;
+  const classPercents: { [type: string]: string } = {};
+  Object.entries(detectionFilter.classThresholds).forEach(([type, threshold]) => {
+    classPercents[type] = String(Math.round((threshold ?? 0) * 100));
+  });
+
+  return {
+    captureMode: settings.captureMode,
+    streamTargetFps: String(settings.streamTargetFps),
+    detectionIntervalMs: String(settings.detectionIntervalMs),
+    photoQuality: String(settings.photoQuality),
+    modelInputSize: String(settings.modelInputSize),
+    confidencePercent: String(Math.round(detectionFilter.confidenceThreshold * 100)),
+    classPercents,
+    nmsMode: detectionFilter.nmsMode,
+    nmsIouThreshold: String(detectionFilter.nmsIouThreshold),
+    maxDetections: String(detectionFilter.maxDetections),
+    classMap: { ...settings.classMap },
+    taxonomy: settings.taxonomy,
+    customTaxonomy: { ...settings.customTaxonomy, groups: { ...settings.customTaxonomy.groups } },
+    speedUnit: settings.speedUnit,
+    platePrivacy: settings.platePrivacy,
+    retentionDays: {
+      detectionDays: settings.retention.detectionDays?.toString() ?? '',
+      plateDays: settings.retention.plateDays?.toString() ?? '',
+      snapshotDays: settings.retention.snapshotDays?.toString() ?? '',
+    },
+    sync: { ...settings.sync },
+    stream: { ...settings.stream },
+  };
+}
+
+// Blank fields become NaN so validation reports them instead of treating them as 0
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+function parseDays(text: string): number | null {
+  return text.trim() === '' ? null : Number(text);
+}
+
+function fromForm(form: SettingsForm): AppSettings {
+  const classThresholds: Partial<Record<VehicleType, number>> = {};
+  Object.entries(form.classPercents).forEach(([type, percent]) => {
+    if (percent.trim() !== '') {
+      classThresholds[type as VehicleType] = parseNumber(percent) / 100;
+    }
+  });
+
+  return {
+    captureMode: form.captureMode,
+    streamTargetFps: parseNumber(form.streamTargetFps),
+    detectionIntervalMs: parseNumber(form.detectionIntervalMs),
+    photoQuality: parseNumber(form.photoQuality),
+    modelInputSize: parseNumber(form.modelInputSize),
+    detectionFilter: {
+      confidenceThreshold: parseNumber(form.confidencePercent) / 100,
+      classThresholds,
+      nmsMode: form.nmsMode,
+      nmsIouThreshold: parseNumber(form.nmsIouThreshold),
+      maxDetections: parseNumber(form.maxDetections),
+    },
+    classMap: form.classMap,
+    taxonomy: form.taxonomy,
+    customTaxonomy: form.customTaxonomy,
+    speedUnit: form.speedUnit,
+    platePrivacy: form.platePrivacy,
+    retention: {
+      detectionDays: parseDays(form.retentionDays.detectionDays),
+      plateDays: parseDays(form.retentionDays.plateDays),
+      snapshotDays: parseDays(form.retentionDays.snapshotDays),
+    },
+    sync: form.sync,
+    stream: form.stream,
+  };
+}
+
+export default function SettingsScreen() {
+  const [form, setForm] = useState<SettingsForm>(toForm(DEFAULT_SETTINGS));
+  const [profileName, setProfileName] = useState('');
+  const [isWatchlistVisible, setIsWatchlistVisible] = useState(false);
+  const [isPurgeLogVisible, setIsPurgeLogVisible] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      await SettingsService.load();
+      setForm(toForm(SettingsService.getSettings()));
+      setProfileName(current => current || VehicleDetectionService.getActiveSession()?.site || '');
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSettings();
+    }, [loadSettings])
+  );
+
+  const updateField = <K extends keyof SettingsForm>(key: K, value: SettingsForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const updateClassPercent = (type: VehicleType, percent: string) => {
+    setForm(current => ({ ...current, classPercents: { ...current.classPercents, [type]: percent } }));
+  };
+
+  const updateRetentionDays = (key: keyof RetentionPolicy, days: string) => {
+    setForm(current => ({ ...current, retentionDays: { ...current.retentionDays, [key]: days } }));
+  };
+
+  const updateSync = <K extends keyof SyncConfig>(key: K, value: SyncConfig[K]) => {
+    setForm(current => ({ ...current, sync: { ...current.sync, [key]: value } }));
+  };
+
+  const updateStream = <K extends keyof StreamConfig>(key: K, value: StreamConfig[K]) => {
+    setForm(current => ({ ...current, stream: { ...current.stream, [key]: value } }));
+  };
+
+  const updateCustomGroup = (body: BodyClass, label: string) => {
+    setForm(current => ({
+      ...current,
+      customTaxonomy: { ...current.customTaxonomy, groups: { ...current.customTaxonomy.groups, [body]: label } },
+    }));
+  };
+
+  // Tapping a class steps through the vehicle types and back to ignored
+  const cycleClassMapping = (className: string) => {
+    setForm(current => {
+      const classMap = { ...current.classMap };
+      const index = MAPPED_TYPES.indexOf(classMap[className]);
+      if (index === MAPPED_TYPES.length - 1) {
+        delete classMap[className];
+      } else {
+        classMap[className] = MAPPED_TYPES[index + 1];
+      }
+      return { ...current, classMap };
+    });
+  };
+
+  const saveSettings = async () => {
+    const settings = fromForm(form);
+    const errors = validateSettings(settings);
+    if (errors.length > 0) {
+      Alert.alert('Invalid Settings', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setForm(toForm(await SettingsService.update(settings)));
+      Alert.alert('Settings Saved', 'Detection uses the new settings from the next frame');
+    } catch (error) {
+      console.error('Settings error:', error);
+      Alert.alert('Error', 'Unable to save settings');
+    }
+  };
+
+  const resetSettings = () => {
+    Alert.alert('Reset Settings', 'Restore every detection setting to its default?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reset',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setForm(toForm(await SettingsService.reset()));
+          } catch (error) {
+            console.error('Settings error:', error);
+            Alert.alert('Error', 'Unable to reset settings');
+          }
+        },
+      },
+    ]);
+  };
+
+  const exportProfile = async () => {
+    try {
+      const result = await SettingsService.exportProfile(profileName.trim() || 'Site preset');
+      if (!result.shared) {
+        Alert.alert('Export Complete', `Profile saved to: ${result.fileName}`);
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export settings profile');
+    }
+  };
+
+  const importProfile = async () => {
+    try {
+      const profile = await SettingsService.importProfile();
+      if (!profile) return;
+      setForm(toForm(profile.settings));
+      setProfileName(profile.name);
+      Alert.alert('Profile Imported', `Now using "${profile.name}"`);
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unable to import settings profile');
+    }
+  };
+
+  const purgeNow = async () => {
+    try {
+      const report = await RetentionService.purge(PurgeTrigger.MANUAL);
+      const earlier = report.earlierExports.length > 0
+        ? `\n\n${report.earlierExports.length} earlier exports may still hold removed data`
+        : '';
+      Alert.alert('Purge Complete', `Removed ${describeRemoved(report.removed)}${earlier}`);
+    } catch (error) {
+      console.error('Purge error:', error);
+      Alert.alert('Purge Failed', 'Unable to purge old data');
+    }
+  };
+
+  const classNames = [...new Set([...MAPPABLE_CLASSES, ...Object.keys(form.classMap)])];
+  const taxonomyPreview = getTaxonomy(form.taxonomy, form.customTaxonomy);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Settings</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Capture</Text>
+          <Text style={styles.label}>Live detection source</Text>
+          <View style={styles.segments}>
+            {CAPTURE_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.segment, form.captureMode === mode && styles.activeSegment]}
+                onPress={() => updateField('captureMode', mode)}
+              >
+                <Text style={[styles.segmentText, form.captureMode === mode && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>
+            Stream frame rate (fps, {STREAM_TARGET_FPS_RANGE.min}–{STREAM_TARGET_FPS_RANGE.max})
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={form.streamTargetFps}
+            onChangeText={text => updateField('streamTargetFps', text)}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.label}>
+            Photo interval (ms, {DETECTION_INTERVAL_RANGE.min}–{DETECTION_INTERVAL_RANGE.max})
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={form.detectionIntervalMs}
+            onChangeText={text => updateField('detectionIntervalMs', text)}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.label}>Photo quality (0–1)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.photoQuality}
+            onChangeText={text => updateField('photoQuality', text)}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.label}>
+            Model input size (px, multiple of {MODEL_INPUT_SIZE_RANGE.step}, SSD only)
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={form.modelInputSize}
+            onChangeText={text => updateField('modelInputSize', text)}
+            keyboardType="number-pad"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Thresholds</Text>
+          <Text style={styles.label}>Confidence threshold (%)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.confidencePercent}
+            onChangeText={text => updateField('confidencePercent', text)}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.label}>Per-class thresholds (%, blank uses the default)</Text>
+          {MAPPED_TYPES.map(type => (
+            <View key={type} style={styles.row}>
+              <Text style={styles.rowLabel}>{type.charAt(0).toUpperCase() + type.slice(1)}</Text>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={form.classPercents[type] ?? ''}
+                onChangeText={text => updateClassPercent(type, text)}
+                placeholder={form.confidencePercent}
+                keyboardType="number-pad"
+              />
+            </View>
+          ))}
+          <Text style={styles.label}>Overlap suppression</Text>
+          <View style={styles.segments}>
+            {NMS_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.segment, form.nmsMode === mode && styles.activeSegment]}
+                onPress={() => updateField('nmsMode', mode)}
+              >
+                <Text style={[styles.segmentText, form.nmsMode === mode && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>NMS IoU threshold (0–1)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.nmsIouThreshold}
+            onChangeText={text => updateField('nmsIouThreshold', text)}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.label}>Max detections per frame</Text>
+          <TextInput
+            style={styles.input}
+            value={form.maxDetections}
+            onChangeText={text => updateField('maxDetections', text)}
+            keyboardType="number-pad"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Model Classes</Text>
+          <Text style={styles.hint}>Tap a class to change the vehicle type it counts as</Text>
+          {classNames.map(className => (
+            <TouchableOpacity key={className} style={styles.row} onPress={() => cycleClassMapping(className)}>
+              <Text style={styles.rowLabel}>{className}</Text>
+              <Text style={[styles.mapping, !form.classMap[className] && styles.ignored]}>
+                {form.classMap[className] ?? 'ignored'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Vehicle Classes</Text>
+          <Text style={styles.label}>Count and export vehicles as</Text>
+          <View style={styles.segments}>
+            {TAXONOMY_OPTIONS.map(({ id, label }) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.segment, form.taxonomy === id && styles.activeSegment]}
+                onPress={() => updateField('taxonomy', id)}
+              >
+                <Text style={[styles.segmentText, form.taxonomy === id && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {!VehicleDetectionService.isVehicleClassifierReady() && (
+            <Text style={styles.hint}>
+              No body type classifier is loaded, so cars, vans and trucks are counted as the detector reports them
+            </Text>
+          )}
+          {form.taxonomy === TaxonomyId.CUSTOM ? (
+            <>
+              <Text style={styles.label}>Scheme name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.customTaxonomy.name}
+                onChangeText={name => updateField('customTaxonomy', { ...form.customTaxonomy, name })}
+              />
+              <Text style={styles.hint}>Body types given the same class name are counted together</Text>
+              {Object.values(BodyClass).map(body => (
+                <View key={body} style={styles.row}>
+                  <Text style={styles.rowLabel}>{BODY_CLASS_LABELS[body]}</Text>
+                  <TextInput
+                    style={[styles.input, styles.rowInput, styles.groupInput]}
+                    value={form.customTaxonomy.groups[body] ?? ''}
+                    onChangeText={text => updateCustomGroup(body, text)}
+                  />
+                </View>
+              ))}
+            </>
+          ) : (
+            <Text style={styles.hint}>{taxonomyPreview.classes.map(entry => entry.label).join(' · ')}</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Speed</Text>
+          <Text style={styles.label}>Show speeds in</Text>
+          <View style={styles.segments}>
+            {SPEED_UNITS.map(({ unit, label }) => (
+              <TouchableOpacity
+                key={unit}
+                style={[styles.segment, form.speedUnit === unit && styles.activeSegment]}
+                onPress={() => updateField('speedUnit', unit)}
+              >
+                <Text style={[styles.segmentText, form.speedUnit === unit && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>
+            Calibrate with the Speed button on the camera view. Speeds are always exported in km/h
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Privacy</Text>
+          {!VehicleDetectionService.isPlateReadingAvailable() && (
+            <Text style={styles.hint}>
+              Plate reading is unavailable: no plate OCR model is loaded, so no plates are recorded or matched against the watchlist
+            </Text>
+          )}
+          <Text style={styles.label}>License plates</Text>
+          <View style={styles.segments}>
+            {PLATE_PRIVACY_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.segment, form.platePrivacy === mode && styles.activeSegment]}
+                onPress={() => updateField('platePrivacy', mode)}
+              >
+                <Text style={[styles.segmentText, form.platePrivacy === mode && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>
+            {form.platePrivacy === PlatePrivacyMode.RAW
+              ? 'Plate text is stored and exported as read'
+              : form.platePrivacy === PlatePrivacyMode.HASHED
+                ? 'Plates are replaced by a keyed hash: the same plate gives the same value on this device, so repeat visits still match'
+                : 'Plate text is never stored or exported'}
+            {form.platePrivacy !== PlatePrivacyMode.RAW &&
+              '. Plates are blurred in saved photos and watchlist snapshots, and plates stored earlier are rewritten on save; switching back to raw cannot restore them'}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Upload</Text>
+          <View style={styles.segments}>
+            {[true, false].map(enabled => (
+              <TouchableOpacity
+                key={String(enabled)}
+                style={[styles.segment, form.sync.enabled === enabled && styles.activeSegment]}
+                onPress={() => updateSync('enabled', enabled)}
+              >
+                <Text style={[styles.segmentText, form.sync.enabled === enabled && styles.activeSegmentText]}>
+                  {enabled ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>Endpoint URL</Text>
+          <TextInput
+            style={styles.input}
+            value={form.sync.endpoint}
+            onChangeText={text => updateSync('endpoint', text)}
+            placeholder="https://traffic.example.org/api/batches"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Text style={styles.label}>Auth header</Text>
+          <TextInput
+            style={styles.input}
+            value={form.sync.authHeader}
+            onChangeText={text => updateSync('authHeader', text)}
+            placeholder="Authorization"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.label}>Auth value</Text>
+          <TextInput
+            style={styles.input}
+            value={form.sync.authValue}
+            onChangeText={text => updateSync('authValue', text)}
+            placeholder="Bearer …"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          <Text style={styles.hint}>
+            Detections and 15-minute counts of every session are queued on the device and POSTed while the app is open,
+            retrying with backoff when offline. The auth value is not included in shared profiles
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Live Stream</Text>
+          <View style={styles.segments}>
+            {[true, false].map(enabled => (
+              <TouchableOpacity
+                key={String(enabled)}
+                style={[styles.segment, form.stream.enabled === enabled && styles.activeSegment]}
+                onPress={() => updateStream('enabled', enabled)}
+              >
+                <Text style={[styles.segmentText, form.stream.enabled === enabled && styles.activeSegmentText]}>
+                  {enabled ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>Transport</Text>
+          <View style={styles.segments}>
+            {STREAM_TRANSPORTS.map(({ transport, label }) => (
+              <TouchableOpacity
+                key={transport}
+                style={[styles.segment, form.stream.transport === transport && styles.activeSegment]}
+                onPress={() => updateStream('transport', transport)}
+              >
+                <Text style={[styles.segmentText, form.stream.transport === transport && styles.activeSegmentText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>
+            {form.stream.transport === StreamTransport.MQTT ? 'Broker WebSocket URL' : 'WebSocket URL'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={form.stream.url}
+            onChangeText={text => updateStream('url', text)}
+            placeholder={form.stream.transport === StreamTransport.MQTT ? 'wss://broker.example.org:8884/mqtt' : 'wss://control.example.org/events'}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          {form.stream.transport === StreamTransport.MQTT && (
+            <>
+              <Text style={styles.label}>Topic prefix</Text>
+              <TextInput
+                style={styles.input}
+                value={form.stream.topicPrefix}
+                onChangeText={text => updateStream('topicPrefix', text)}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={styles.label}>User name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.stream.username}
+                onChangeText={text => updateStream('username', text)}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={styles.label}>Password</Text>
+              <TextInput
+                style={styles.input}
+                value={form.stream.password}
+                onChangeText={text => updateStream('password', text)}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            </>
+          )}
+          <Text style={styles.hint}>
+            Each counted vehicle, line crossing and closed 15-minute interval is published as a JSON message with this
+            phone&apos;s device ID and the session ID. MQTT brokers are reached through their WebSocket listener
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Data Retention</Text>
+          <Text style={styles.label}>Keep for (days, blank keeps until deleted)</Text>
+          {RETENTION_FIELDS.map(({ key, label }) => (
+            <View key={key} style={styles.row}>
+              <Text style={styles.rowLabel}>{label}</Text>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={form.retentionDays[key]}
+                onChangeText={text => updateRetentionDays(key, text)}
+                placeholder="Keep"
+                keyboardType="number-pad"
+              />
+            </View>
+          ))}
+          <Text style={styles.hint}>
+            Older data is purged on startup, every hour and when these are saved ({RETENTION_DAYS_RANGE.min}-{RETENTION_DAYS_RANGE.max} days).
+            Plates and snapshots never outlive their detections; purging a plate also removes its watchlist hits
+          </Text>
+        </View>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.button, styles.resetButton]} onPress={resetSettings}>
+            <Text style={styles.buttonText}>Reset to Defaults</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={saveSettings}>
+            <Text style={styles.buttonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Site Profiles</Text>
+          <Text style={styles.hint}>Share saved settings with other crews, or load a preset for this site</Text>
+          <Text style={styles.label}>Profile name</Text>
+          <TextInput
+            style={styles.input}
+            value={profileName}
+            onChangeText={setProfileName}
+            placeholder="e.g. A40 eastbound at Park Rd"
+          />
+          <View style={styles.profileButtons}>
+            <TouchableOpacity style={[styles.button, styles.importButton]} onPress={importProfile}>
+              <Text style={styles.buttonText}>Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.exportButton]} onPress={exportProfile}>
+              <Text style={styles.buttonText}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Plate Watchlist</Text>
+          <Text style={styles.hint}>
+            Import a hotlist of plates; matching reads raise an alert on the camera view and are kept in the hit log
+          </Text>
+          <View style={styles.profileButtons}>
+            <TouchableOpacity style={[styles.button, styles.importButton]} onPress={() => setIsWatchlistVisible(true)}>
+              <Text style={styles.buttonText}>Watchlist & Hit Log</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Purge Log</Text>
+          <Text style={styles.hint}>
+            See what retention purges removed and which exports were made before them
+          </Text>
+          <View style={styles.profileButtons}>
+            <TouchableOpacity style={[styles.button, styles.resetButton]} onPress={purgeNow}>
+              <Text style={styles.buttonText}>Purge Now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.exportButton]} onPress={() => setIsPurgeLogVisible(true)}>
+              <Text style={styles.buttonText}>Purges & Exports</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      <WatchlistPanel visible={isWatchlistVisible} onClose={() => setIsWatchlistVisible(false)} />
+      <PurgeLogPanel visible={isPurgeLogVisible} onClose={() => setIsPurgeLogVisible(false)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 50,
+    backgroundColor: '#2196F3',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#fff',
+    margin: 10,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  rowInput: {
+    width: 80,
+    marginBottom: 0,
+    textAlign: 'right',
+  },
+  groupInput: {
+    width: 140,
+    textAlign: 'left',
+  },
+  mapping: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  ignored: {
+    color: '#999',
+    fontWeight: 'normal',
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  activeSegment: {
+    backgroundColor: '#2196F3',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#2196F3',
+    textAlign: 'center',
+  },
+  activeSegmentText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    margin: 10,
+    marginBottom: 0,
+  },
+  profileButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  resetButton: {
+    backgroundColor: '#9E9E9E',
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  importButton: {
+    backgroundColor: '#FF9800',
+  },
+  exportButton: {
+    backgroundColor: '#2196F3',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,8 @@
+module.exports = function (api) {
+  api.cache(true);
+  return {
+    presets: ['babel-preset-expo'],
+    // Compiles 'worklet' functions so frame processors can run on the camera thread
+    plugins: [['react-native-worklets-core/plugin']],
+  };
+};
@@ -0,0 +1,364 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Pressable, StyleSheet, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polygon, Text as SvgText } from 'react-native-svg';
+import { Point, ResizeMode, Size, frameToView, viewToFrame } from '@/services/geometry';
+import {
+  CalibrationMethod,
+  SpeedCalibration,
+  SpeedUnit,
+  fromKmh,
+  toKmh,
+  validateCalibration,
+} from '@/services/SpeedEstimation';
+
+interface CalibrationOverlayProps {
+  calibration: SpeedCalibration | null;
+  speedLimitKmh: number | null;
+  speedUnit: SpeedUnit;
+  frameSize: Size;
+  resizeMode: ResizeMode;
+  editing: boolean;
+  onSave: (calibration: SpeedCalibration | null, speedLimitKmh: number | null) => void;
+  onDone: () => void;
+}
+
+const CALIBRATION_COLOR = '#00E5FF';
+
+function pointsOf(calibration: SpeedCalibration | null): Point[] {
+  if (!calibration) return [];
+  return calibration.method === CalibrationMethod.TWO_LINES
+    ? calibration.lines.flatMap(line => [line.start, line.end])
+    : [...calibration.corners];
+}
+
+function formatNumber(value: number | undefined): string {
+  return value === undefined ? '' : String(Math.round(value * 10) / 10);
+}
+
+// Blank fields become NaN so validation reports them instead of treating them as 0
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+// The draft starts from the saved calibration; remount the overlay to discard it
+export default function CalibrationOverlay({
+  calibration,
+  speedLimitKmh,
+  speedUnit,
+  frameSize,
+  resizeMode,
+  editing,
+  onSave,
+  onDone,
+}: CalibrationOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [method, setMethod] = useState(calibration?.method ?? CalibrationMethod.TWO_LINES);
+  const [points, setPoints] = useState<Point[]>(pointsOf(calibration));
+  const [distanceText, setDistanceText] = useState(
+    formatNumber(calibration?.method === CalibrationMethod.TWO_LINES ? calibration.distanceMeters : undefined)
+  );
+  const [widthText, setWidthText] = useState(
+    formatNumber(calibration?.method === CalibrationMethod.RECTANGLE ? calibration.widthMeters : undefined)
+  );
+  const [lengthText, setLengthText] = useState(
+    formatNumber(calibration?.method === CalibrationMethod.RECTANGLE ? calibration.lengthMeters : undefined)
+  );
+  const [limitText, setLimitText] = useState(
+    speedLimitKmh !== null ? String(Math.round(fromKmh(speedLimitKmh, speedUnit))) : ''
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (size.width === 0 || size.height === 0 || points.length >= 4) return;
+    const point = viewToFrame(
+      { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+      frameSize,
+      size,
+      resizeMode
+    );
+    setPoints([...points, point]);
+  };
+
+  const selectMethod = (selected: CalibrationMethod) => {
+    setMethod(selected);
+    setPoints([]);
+    setErrors([]);
+  };
+
+  const buildDraft = (): SpeedCalibration => (
+    method === CalibrationMethod.TWO_LINES
+      ? {
+          method,
+          lines: [{ start: points[0], end: points[1] }, { start: points[2], end: points[3] }],
+          distanceMeters: parseNumber(distanceText),
+        }
+      : {
+          method,
+          corners: [points[0], points[1], points[2], points[3]],
+          widthMeters: parseNumber(widthText),
+          lengthMeters: parseNumber(lengthText),
+        }
+  );
+
+  const save = () => {
+    const draft = buildDraft();
+    const problems = validateCalibration(draft);
+    const limit = limitText.trim() === '' ? null : toKmh(parseNumber(limitText), speedUnit);
+    if (limit !== null && !(limit > 0)) {
+      problems.push('Speed limit must be greater than 0');
+    }
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    onSave(draft, limit);
+    onDone();
+  };
+
+  const clear = () => {
+    onSave(null, null);
+    onDone();
+  };
+
+  const shown = editing ? points : pointsOf(calibration);
+  const shownMethod = editing ? method : calibration?.method;
+  const pixels = shown.map(point => frameToView(point, frameSize, size, resizeMode));
+
+  const getHint = (): string => {
+    if (points.length >= 4) return 'Enter the real-world size, then save';
+    if (method === CalibrationMethod.TWO_LINES) {
+      return points.length < 2
+        ? `Tap the ${points.length === 0 ? 'start' : 'end'} of the first reference line`
+        : `Tap the ${points.length === 2 ? 'start' : 'end'} of the second reference line`;
+    }
+    return `Tap corner ${points.length + 1} of 4, going around the rectangle`;
+  };
+
+  const renderLabel = (): string | null => {
+    if (editing || !calibration) return null;
+    return calibration.method === CalibrationMethod.TWO_LINES
+      ? `${formatNumber(calibration.distanceMeters)} m`
+      : `${formatNumber(calibration.widthMeters)} × ${formatNumber(calibration.lengthMeters)} m`;
+  };
+
+  const label = renderLabel();
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents={editing ? 'auto' : 'none'} onLayout={handleLayout}>
+      <Svg width={size.width} height={size.height}>
+        {shownMethod === CalibrationMethod.RECTANGLE && pixels.length === 4 && (
+          <Polygon
+            points={pixels.map(point => `${point.x},${point.y}`).join(' ')}
+            fill={CALIBRATION_COLOR}
+            fillOpacity={0.15}
+            stroke={CALIBRATION_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6,4"
+          />
+        )}
+        {shownMethod === CalibrationMethod.TWO_LINES && [0, 2].map(i => (
+          pixels[i + 1] && (
+            <Line
+              key={i}
+              x1={pixels[i].x}
+              y1={pixels[i].y}
+              x2={pixels[i + 1].x}
+              y2={pixels[i + 1].y}
+              stroke={CALIBRATION_COLOR}
+              strokeWidth={2}
+              strokeDasharray="6,4"
+            />
+          )
+        ))}
+        {editing && pixels.map((point, i) => (
+          <Circle key={i} cx={point.x} cy={point.y} r={6} fill={CALIBRATION_COLOR} />
+        ))}
+        {label && pixels[0] && (
+          <SvgText x={pixels[0].x} y={pixels[0].y - 6} fill={CALIBRATION_COLOR} fontSize={12} fontWeight="bold">
+            {label}
+          </SvgText>
+        )}
+      </Svg>
+
+      {editing && (
+        <>
+          <Pressable style={StyleSheet.absoluteFill} onPress={handlePress} />
+          <View style={styles.toolbar}>
+            <View style={styles.segments}>
+              <TouchableOpacity
+                style={[styles.segment, method === CalibrationMethod.TWO_LINES && styles.activeSegment]}
+                onPress={() => selectMethod(CalibrationMethod.TWO_LINES)}
+              >
+                <Text style={styles.segmentText}>Two lines</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.segment, method === CalibrationMethod.RECTANGLE && styles.activeSegment]}
+                onPress={() => selectMethod(CalibrationMethod.RECTANGLE)}
+              >
+                <Text style={styles.segmentText}>Rectangle</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.hintText}>{getHint()}</Text>
+
+            {points.length >= 4 && (
+              <View style={styles.fields}>
+                {method === CalibrationMethod.TWO_LINES ? (
+                  <View style={styles.field}>
+                    <Text style={styles.fieldLabel}>Distance (m)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={distanceText}
+                      onChangeText={setDistanceText}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.field}>
+                      <Text style={styles.fieldLabel}>Width (m)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={widthText}
+                        onChangeText={setWidthText}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <Text style={styles.fieldLabel}>Length (m)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={lengthText}
+                        onChangeText={setLengthText}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                  </>
+                )}
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>Limit ({speedUnit === SpeedUnit.MPH ? 'mph' : 'km/h'})</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={limitText}
+                    onChangeText={setLimitText}
+                    keyboardType="number-pad"
+                    placeholder="None"
+                    placeholderTextColor="#aaa"
+                  />
+                </View>
+              </View>
+            )}
+
+            {errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+
+            <View style={styles.toolbarButtons}>
+              <TouchableOpacity style={styles.toolbarButton} onPress={() => setPoints(points.slice(0, -1))}>
+                <Text style={styles.toolbarButtonText}>Undo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={clear}>
+                <Text style={styles.toolbarButtonText}>Remove</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={onDone}>
+                <Text style={styles.toolbarButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              {points.length >= 4 && (
+                <TouchableOpacity style={[styles.toolbarButton, styles.doneButton]} onPress={save}>
+                  <Text style={styles.toolbarButtonText}>Save</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    position: 'absolute',
+    left: 10,
+    right: 10,
+    bottom: 40,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    padding: 10,
+    borderRadius: 8,
+  },
+  segments: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  segment: {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  activeSegment: {
+    backgroundColor: '#2196F3',
+  },
+  segmentText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  hintText: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  fields: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    color: '#ccc',
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#333',
+  },
+  errorText: {
+    color: '#FF8A80',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  toolbarButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  toolbarButton: {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  doneButton: {
+    backgroundColor: '#4CAF50',
+  },
+  toolbarButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
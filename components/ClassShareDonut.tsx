@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Svg, { Circle, G, Path, Text as SvgText } from 'react-native-svg';
+import { TaxonomyCount, VehicleTaxonomy } from '@/services/VehicleClasses';
+
+interface ClassShareDonutProps {
+  counts: TaxonomyCount;
+  taxonomy: VehicleTaxonomy;
+  classColors: { [classId: string]: string };
+}
+
+const SIZE = 180;
+const OUTER_RADIUS = SIZE / 2 - 4;
+const INNER_RADIUS = OUTER_RADIUS * 0.6;
+
+const point = (radius: number, angle: number): string => {
+  return `${SIZE / 2 + radius * Math.sin(angle)} ${SIZE / 2 - radius * Math.cos(angle)}`;
+};
+
+// Ring segment clockwise from 12 o'clock; a full ring stops just short so the arc still draws
+const segmentPath = (from: number, to: number): string => {
+  const end = Math.min(to, from + Math.PI * 2 - 0.0001);
+  const largeArc = end - from > Math.PI ? 1 : 0;
+  return [
+    `M ${point(OUTER_RADIUS, from)}`,
+    `A ${OUTER_RADIUS} ${OUTER_RADIUS} 0 ${largeArc} 1 ${point(OUTER_RADIUS, end)}`,
+    `L ${point(INNER_RADIUS, end)}`,
+    `A ${INNER_RADIUS} ${INNER_RADIUS} 0 ${largeArc} 0 ${point(INNER_RADIUS, from)}`,
+    'Z',
+  ].join(' ');
+};
+
+// Share of each class in the session; tap a segment or legend entry to read it
+export default function ClassShareDonut({ counts, taxonomy, classColors }: ClassShareDonutProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const entries = taxonomy.classes.filter(entry => counts.byClass[entry.id] > 0);
+  const selected = entries.find(entry => entry.id === selectedId);
+  const toggle = (classId: string) => setSelectedId(current => (current === classId ? null : classId));
+  const share = (classId: string) => Math.round((counts.byClass[classId] / counts.total) * 100);
+
+  let angle = 0;
+  const segments = entries.map(entry => {
+    const from = angle;
+    angle += (counts.byClass[entry.id] / counts.total) * Math.PI * 2;
+    return { entry, path: segmentPath(from, angle) };
+  });
+
+  return (
+    <View style={styles.container}>
+      <Svg width={SIZE} height={SIZE}>
+        {segments.length === 0 && (
+          <Circle cx={SIZE / 2} cy={SIZE / 2} r={(OUTER_RADIUS + INNER_RADIUS) / 2} stroke="#eee"
+            strokeWidth={OUTER_RADIUS - INNER_RADIUS} fill="none" />
+        )}
+        {segments.map(({ entry, path }) => (
+          <G key={entry.id} opacity={selected && selected.id !== entry.id ? 0.4 : 1}>
+            <Path d={path} fill={classColors[entry.id]} stroke="#fff" strokeWidth={1} onPress={() => toggle(entry.id)} />
+          </G>
+        ))}
+        <SvgText x={SIZE / 2} y={SIZE / 2 - 4} fontSize={18} fontWeight="bold" fill="#333" textAnchor="middle">
+          {selected ? `${share(selected.id)}%` : counts.total}
+        </SvgText>
+        <SvgText x={SIZE / 2} y={SIZE / 2 + 14} fontSize={11} fill="#666" textAnchor="middle">
+          {selected ? `${selected.label} · ${counts.byClass[selected.id]}` : 'vehicles'}
+        </SvgText>
+      </Svg>
+      <View style={styles.legend}>
+        {entries.map(entry => (
+          <TouchableOpacity key={entry.id} style={styles.legendItem} onPress={() => toggle(entry.id)}>
+            <View style={[styles.swatch, { backgroundColor: classColors[entry.id] }]} />
+            <Text style={[styles.legendText, selected?.id === entry.id && styles.legendTextSelected]}>
+              {entry.label} {share(entry.id)}%
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 6,
+    marginVertical: 3,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  legendTextSelected: {
+    color: '#333',
+    fontWeight: 'bold',
+  },
+});
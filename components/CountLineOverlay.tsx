@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Pressable, StyleSheet, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Text as SvgText } from 'react-native-svg';
+import { CountLine } from '@/services/CountLines';
+import { Point, ResizeMode, Size, frameToView, viewToFrame } from '@/services/geometry';
+
+interface CountLineOverlayProps {
+  lines: CountLine[];
+  frameSize: Size;
+  resizeMode: ResizeMode;
+  editing: boolean;
+  onChange: (lines: CountLine[]) => void;
+  onDone: () => void;
+}
+
+const LINE_COLOR = '#FFEB3B';
+const SIDE_LABEL_OFFSET = 16;
+
+export default function CountLineOverlay({ lines, frameSize, resizeMode, editing, onChange, onDone }: CountLineOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [pendingStart, setPendingStart] = useState<Point | null>(null);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (size.width === 0 || size.height === 0) return;
+    const point = viewToFrame(
+      { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+      frameSize,
+      size,
+      resizeMode
+    );
+
+    if (!pendingStart) {
+      setPendingStart(point);
+      return;
+    }
+
+    onChange([
+      ...lines,
+      {
+        id: `line_${Date.now()}`,
+        name: `Line ${lines.length + 1}`,
+        start: pendingStart,
+        end: point,
+      },
+    ]);
+    setPendingStart(null);
+  };
+
+  const undo = () => {
+    if (pendingStart) {
+      setPendingStart(null);
+    } else {
+      onChange(lines.slice(0, -1));
+    }
+  };
+
+  const clear = () => {
+    setPendingStart(null);
+    onChange([]);
+  };
+
+  const finish = () => {
+    setPendingStart(null);
+    onDone();
+  };
+
+  const toPixels = (point: Point) => frameToView(point, frameSize, size, resizeMode);
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents={editing ? 'auto' : 'none'} onLayout={handleLayout}>
+      <Svg width={size.width} height={size.height}>
+        {lines.map(line => {
+          const start = toPixels(line.start);
+          const end = toPixels(line.end);
+          const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+          const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+          // Unit normal pointing to side A (left of start→end on screen)
+          const normal = { x: (end.y - start.y) / length, y: -(end.x - start.x) / length };
+
+          return (
+            <React.Fragment key={line.id}>
+              <Line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={LINE_COLOR}
+                strokeWidth={3}
+              />
+              <SvgText x={start.x} y={start.y - 6} fill={LINE_COLOR} fontSize={12} fontWeight="bold">
+                {line.name}
+              </SvgText>
+              <SvgText
+                x={mid.x + normal.x * SIDE_LABEL_OFFSET}
+                y={mid.y + normal.y * SIDE_LABEL_OFFSET}
+                fill="#fff"
+                fontSize={14}
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                A
+              </SvgText>
+              <SvgText
+                x={mid.x - normal.x * SIDE_LABEL_OFFSET}
+                y={mid.y - normal.y * SIDE_LABEL_OFFSET}
+                fill="#fff"
+                fontSize={14}
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                B
+              </SvgText>
+            </React.Fragment>
+          );
+        })}
+        {pendingStart && (
+          <Circle
+            cx={toPixels(pendingStart).x}
+            cy={toPixels(pendingStart).y}
+            r={6}
+            fill={LINE_COLOR}
+          />
+        )}
+      </Svg>
+
+      {editing && (
+        <>
+          <Pressable style={StyleSheet.absoluteFill} onPress={handlePress} />
+          <View style={styles.toolbar}>
+            <Text style={styles.hintText}>
+              {pendingStart ? 'Tap the end point' : 'Tap the start point of a count line'}
+            </Text>
+            <View style={styles.toolbarButtons}>
+              <TouchableOpacity style={styles.toolbarButton} onPress={undo}>
+                <Text style={styles.toolbarButtonText}>Undo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={clear}>
+                <Text style={styles.toolbarButtonText}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.toolbarButton, styles.doneButton]} onPress={finish}>
+                <Text style={styles.toolbarButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    position: 'absolute',
+    left: 10,
+    right: 10,
+    bottom: 40,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    padding: 10,
+    borderRadius: 8,
+  },
+  hintText: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  toolbarButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  toolbarButton: {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  doneButton: {
+    backgroundColor: '#4CAF50',
+  },
+  toolbarButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
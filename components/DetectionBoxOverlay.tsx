@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { G, Rect, Text as SvgText } from 'react-native-svg';
+import { ResizeMode, Size, frameToView } from '@/services/geometry';
+import { DetectedVehicle, MODEL_INPUT_SIZE, VehicleType } from '@/services/VehicleDetectionService';
+
+interface DetectionBoxOverlayProps {
+  vehicles: DetectedVehicle[];
+  frameSize: Size;
+  resizeMode: ResizeMode;
+}
+
+const LABEL_HEIGHT = 16;
+const LABEL_CHAR_WIDTH = 7;
+
+export default function DetectionBoxOverlay({ vehicles, frameSize, resizeMode }: DetectionBoxOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const getVehicleTypeColor = (type: VehicleType): string => {
+    switch (type) {
+      case VehicleType.CAR: return '#4CAF50';
+      case VehicleType.BUS: return '#FF9800';
+      case VehicleType.TRUCK: return '#F44336';
+      case VehicleType.MOTORCYCLE: return '#9C27B0';
+      case VehicleType.BICYCLE: return '#2196F3';
+      case VehicleType.VAN: return '#607D8B';
+      default: return '#757575';
+    }
+  };
+
+  // Track IDs look like track_<timestamp>_<n>; the running number is enough on screen
+  const shortTrackId = (id: string): string => `#${id.split('_').pop()}`;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none" onLayout={handleLayout}>
+      <Svg width={size.width} height={size.height}>
+        {size.width > 0 && vehicles.map(vehicle => {
+          // bbox is in model input space, which spans the whole frame
+          const topLeft = frameToView(
+            { x: vehicle.bbox.x / MODEL_INPUT_SIZE, y: vehicle.bbox.y / MODEL_INPUT_SIZE },
+            frameSize,
+            size,
+            resizeMode
+          );
+          const bottomRight = frameToView(
+            {
+              x: (vehicle.bbox.x + vehicle.bbox.width) / MODEL_INPUT_SIZE,
+              y: (vehicle.bbox.y + vehicle.bbox.height) / MODEL_INPUT_SIZE,
+            },
+            frameSize,
+            size,
+            resizeMode
+          );
+          const color = getVehicleTypeColor(vehicle.type);
+          const label = `${vehicle.type.toUpperCase()} ${Math.round(vehicle.confidence * 100)}% ${shortTrackId(vehicle.id)}`;
+          // Keep the label on screen when the box touches the top edge
+          const labelY = topLeft.y >= LABEL_HEIGHT ? topLeft.y - LABEL_HEIGHT : topLeft.y;
+
+          return (
+            <G key={vehicle.id}>
+              <Rect
+                x={topLeft.x}
+                y={topLeft.y}
+                width={bottomRight.x - topLeft.x}
+                height={bottomRight.y - topLeft.y}
+                stroke={color}
+                strokeWidth={2}
+                fill="none"
+              />
+              <Rect
+                x={topLeft.x}
+                y={labelY}
+                width={label.length * LABEL_CHAR_WIDTH}
+                height={LABEL_HEIGHT}
+                fill={color}
+              />
+              <SvgText x={topLeft.x + 3} y={labelY + 12} fill="#fff" fontSize={11} fontWeight="bold">
+                {label}
+              </SvgText>
+            </G>
+          );
+        })}
+      </Svg>
+    </View>
+  );
+}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { DetectorId } from '@/services/Detector';
+import { DetectorOption } from '@/services/VehicleDetectionService';
+
+interface DetectorPickerProps {
+  visible: boolean;
+  detectors: DetectorOption[];
+  activeDetectorId: DetectorId;
+  onSelect: (id: DetectorId) => void;
+  onCancel: () => void;
+}
+
+export default function DetectorPicker({ visible, detectors, activeDetectorId, onSelect, onCancel }: DetectorPickerProps) {
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Detector</Text>
+          {detectors.map(detector => (
+            <TouchableOpacity key={detector.id} style={styles.option} onPress={() => onSelect(detector.id)}>
+              <Text style={[styles.optionLabel, detector.id === activeDetectorId && styles.activeLabel]}>
+                {detector.id === activeDetectorId ? '✓ ' : ''}{detector.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  option: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  activeLabel: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#FF5722',
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
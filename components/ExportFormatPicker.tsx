@@ -0,0 +1,75 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { EXPORT_FORMATS, ExportFormat } from '@/services/ExportService';
+
+interface ExportFormatPickerProps {
+  visible: boolean;
+  onSelect: (format: ExportFormat) => void;
+  onCancel: () => void;
+}
+
+export default function ExportFormatPicker({ visible, onSelect, onCancel }: ExportFormatPickerProps) {
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Export Format</Text>
+          {EXPORT_FORMATS.map(info => (
+            <TouchableOpacity key={info.format} style={styles.option} onPress={() => onSelect(info.format)}>
+              <Text style={styles.optionLabel}>{info.label}</Text>
+              <Text style={styles.optionDescription}>{info.description}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  option: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  cancelButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#FF5722',
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,146 @@
+import React, { forwardRef, useImperativeHandle, useRef } from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import {
+  Camera,
+  Orientation,
+  runAtTargetFps,
+  useCameraDevice,
+  useFrameProcessor,
+} from 'react-native-vision-camera';
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core';
+import { useResizePlugin } from 'vision-camera-resize-plugin';
+import { ResizeMode } from '@/services/geometry';
+import { VideoFrame } from '@/services/VehicleDetectionService';
+
+// Longest side of the frames handed to the detector; detectors resize further to their own input
+const STREAM_FRAME_SIDE = 640;
+
+export interface CapturedPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface FrameStreamCameraHandle {
+  takePhoto: () => Promise<CapturedPhoto>;
+}
+
+interface FrameStreamCameraProps {
+  style?: StyleProp<ViewStyle>;
+  facing: 'front' | 'back';
+  resizeMode: ResizeMode;
+  isStreaming: boolean;
+  targetFps: number;
+  onFrame: (frame: VideoFrame) => Promise<void>;
+}
+
+// Clockwise rotation that turns a frame in the given orientation upright
+function uprightRotation(orientation: Orientation): '0deg' | '90deg' | '180deg' | '270deg' {
+  'worklet';
+  switch (orientation) {
+    case 'landscape-left': return '90deg';
+    case 'portrait-upside-down': return '180deg';
+    case 'landscape-right': return '270deg';
+    default: return '0deg';
+  }
+}
+
+const FrameStreamCamera = forwardRef<FrameStreamCameraHandle, FrameStreamCameraProps>(function FrameStreamCamera(
+  { style, facing, resizeMode, isStreaming, targetFps, onFrame },
+  ref
+) {
+  const device = useCameraDevice(facing);
+  const cameraRef = useRef<Camera>(null);
+  const { resize } = useResizePlugin();
+  // Shared with the frame processor thread
+  const isBusy = useSharedValue(false);
+  const droppedFrames = useSharedValue(0);
+
+  useImperativeHandle(ref, () => ({
+    takePhoto: async () => {
+      if (!cameraRef.current) {
+        throw new Error('Camera is not ready');
+      }
+      const photo = await cameraRef.current.takePhoto();
+      return { uri: `file://${photo.path}`, width: photo.width, height: photo.height };
+    },
+  }), []);
+
+  const deliverFrame = useRunOnJS(async (frame: VideoFrame) => {
+    try {
+      await onFrame(frame);
+    } finally {
+      isBusy.value = false;
+    }
+  }, [onFrame]);
+
+  const frameProcessor = useFrameProcessor(frame => {
+    'worklet';
+    if (!isStreaming) return;
+
+    runAtTargetFps(targetFps, () => {
+      'worklet';
+      // Only one frame is in flight; anything arriving meanwhile is dropped, not queued
+      if (isBusy.value) {
+        droppedFrames.value += 1;
+        return;
+      }
+      isBusy.value = true;
+
+      const rotation = uprightRotation(frame.orientation);
+      const scale = Math.min(1, STREAM_FRAME_SIDE / Math.max(frame.width, frame.height));
+      const width = Math.round(frame.width * scale);
+      const height = Math.round(frame.height * scale);
+      const pixels = resize(frame, {
+        scale: { width, height },
+        rotation,
+        mirror: frame.isMirrored,
+        pixelFormat: 'rgb',
+        dataType: 'uint8',
+      });
+      const isSideways = rotation === '90deg' || rotation === '270deg';
+
+      deliverFrame({
+        data: pixels.buffer as ArrayBuffer,
+        width: isSideways ? height : width,
+        height: isSideways ? width : height,
+        droppedFrames: droppedFrames.value,
+      });
+      droppedFrames.value = 0;
+    });
+  }, [isStreaming, targetFps, resize, deliverFrame, isBusy, droppedFrames]);
+
+  if (!device) {
+    return (
+      <View style={[style, styles.unavailable]}>
+        <Text style={styles.unavailableText}>No camera available for streaming</Text>
+      </View>
+    );
+  }
+
+  return (
+    <Camera
+      ref={cameraRef}
+      style={style}
+      device={device}
+      isActive
+      photo
+      resizeMode={resizeMode}
+      frameProcessor={frameProcessor}
+    />
+  );
+});
+
+export default FrameStreamCamera;
+
+const styles = StyleSheet.create({
+  unavailable: {
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unavailableText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,297 @@
+import React, { useState, useRef } from 'react';
+import { Modal, View, Text, Image, TouchableOpacity, StyleSheet, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  PhotoImportItem,
+  PhotoImportQueue,
+  PhotoImportSummary,
+  createImportItems,
+} from '@/services/PhotoImport';
+import VehicleDetectionService from '@/services/VehicleDetectionService';
+
+interface PhotoImportPanelProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function PhotoImportPanel({ visible, onClose }: PhotoImportPanelProps) {
+  const [items, setItems] = useState<PhotoImportItem[]>([]);
+  const [summary, setSummary] = useState<PhotoImportSummary | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const queueRef = useRef<PhotoImportQueue | null>(null);
+
+  const runQueue = async (work: (queue: PhotoImportQueue) => Promise<PhotoImportSummary>) => {
+    const queue = queueRef.current;
+    if (!queue) return;
+
+    setIsRunning(true);
+    setSummary(null);
+    try {
+      setSummary(await work(queue));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const pickPhotos = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: 0,
+        exif: true,
+      });
+      if (result.canceled || result.assets.length === 0) return;
+
+      const imported = await createImportItems(result.assets);
+      const active = VehicleDetectionService.getActiveSession();
+      queueRef.current = new PhotoImportQueue(
+        imported,
+        {
+          name: `Photos ${imported[0].capturedAt.toLocaleDateString()}`,
+          site: active?.site ?? '',
+          operator: active?.operator ?? '',
+          notes: `Imported from ${imported.length} photo${imported.length === 1 ? '' : 's'}`,
+        },
+        setItems
+      );
+      setItems(imported);
+      runQueue(queue => queue.run());
+    } catch (error) {
+      console.error('Photo picker error:', error);
+      Alert.alert('Error', 'Unable to open the media library');
+    }
+  };
+
+  const retryPhoto = (item: PhotoImportItem) => {
+    if (isRunning || item.status !== 'failed') return;
+    runQueue(queue => queue.retry([item.id]));
+  };
+
+  const close = () => {
+    if (isRunning) return;
+    queueRef.current = null;
+    setItems([]);
+    setSummary(null);
+    onClose();
+  };
+
+  const doneCount = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const hasUntimedPhotos = items.some(item => item.timeSource === 'import');
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={close}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Import Photos</Text>
+
+          {items.length === 0 ? (
+            <Text style={styles.hint}>
+              Pick field photos to count. Each photo is timestamped from its EXIF capture time; the photos are counted into a new session of their own.
+            </Text>
+          ) : (
+            <>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${(doneCount / items.length) * 100}%` }]} />
+              </View>
+              <Text style={styles.progressText}>
+                {doneCount} of {items.length} photos analyzed{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+              </Text>
+
+              <ScrollView style={styles.grid} contentContainerStyle={styles.gridContent}>
+                {items.map(item => (
+                  <TouchableOpacity
+                    key={item.id}
+                    style={styles.thumbnail}
+                    onPress={() => retryPhoto(item)}
+                    activeOpacity={item.status === 'failed' ? 0.6 : 1}
+                  >
+                    <Image source={{ uri: item.uri }} style={styles.thumbnailImage} />
+                    <View style={[styles.badge, item.status === 'failed' && styles.failedBadge]}>
+                      {item.status === 'processing' && <ActivityIndicator size="small" color="#fff" />}
+                      {item.status === 'pending' && <Text style={styles.badgeText}>…</Text>}
+                      {item.status === 'done' && <Text style={styles.badgeText}>🚗 {item.vehiclesDetected}</Text>}
+                      {item.status === 'failed' && <Text style={styles.badgeText}>⟳ Retry</Text>}
+                    </View>
+                    <Text style={styles.thumbnailTime} numberOfLines={1}>
+                      {item.timeSource === 'import' ? '⚠️ ' : ''}{item.capturedAt.toLocaleTimeString()}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {hasUntimedPhotos && (
+                <Text style={styles.hint}>⚠️ Some photos had no capture time and use the import time instead</Text>
+              )}
+
+              {summary && (
+                <View style={styles.summary}>
+                  <Text style={styles.summaryTitle}>Summary</Text>
+                  <Text style={styles.summaryText}>{summary.done} photos analyzed · {summary.failed} failed</Text>
+                  <Text style={styles.summaryText}>
+                    {summary.vehiclesDetected} vehicles detected · {summary.vehiclesCounted} new vehicles counted
+                  </Text>
+                  {summary.failed > 0 && <Text style={styles.hint}>Tap a failed photo to retry it</Text>}
+                </View>
+              )}
+            </>
+          )}
+
+          <View style={styles.buttonRow}>
+            {isRunning ? (
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={() => queueRef.current?.cancel()}>
+                <Text style={styles.buttonText}>Stop</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={close}>
+                  <Text style={styles.buttonText}>Close</Text>
+                </TouchableOpacity>
+                {summary && (summary.failed > 0 || summary.pending > 0) ? (
+                  <TouchableOpacity
+                    style={[styles.button, styles.startButton]}
+                    onPress={() => runQueue(queue => queue.retry())}
+                  >
+                    <Text style={styles.buttonText}>{summary.failed > 0 ? 'Retry Failed' : 'Resume'}</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity style={[styles.button, styles.startButton]} onPress={pickPhotos}>
+                    <Text style={styles.buttonText}>{items.length > 0 ? 'Import More' : 'Choose Photos'}</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 10,
+  },
+  grid: {
+    maxHeight: 320,
+  },
+  gridContent: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  thumbnail: {
+    width: 76,
+  },
+  thumbnailImage: {
+    width: 76,
+    height: 76,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    minWidth: 28,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+  },
+  failedBadge: {
+    backgroundColor: '#F44336',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  thumbnailTime: {
+    fontSize: 10,
+    color: '#666',
+    marginTop: 2,
+  },
+  summary: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+    marginBottom: 30,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  closeButton: {
+    backgroundColor: '#9E9E9E',
+  },
+  cancelButton: {
+    backgroundColor: '#FF5722',
+  },
+  startButton: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { ExportRecord, PurgeReport, describeRemoved } from '@/services/Retention';
+import RetentionService from '@/services/RetentionService';
+
+interface PurgeLogPanelProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatCutoff = (date?: Date): string => date ? date.toLocaleDateString() : 'kept';
+
+export default function PurgeLogPanel({ visible, onClose }: PurgeLogPanelProps) {
+  const [purges, setPurges] = useState<PurgeReport[]>([]);
+  const [exports, setExports] = useState<ExportRecord[]>([]);
+  const [lastPurge, setLastPurge] = useState<PurgeReport | null>(RetentionService.getLastPurge());
+  const [tab, setTab] = useState<'purges' | 'exports'>('purges');
+
+  const refresh = useCallback(async () => {
+    setPurges(await RetentionService.getPurgeLog());
+    setExports(await RetentionService.getExportManifest());
+    setLastPurge(RetentionService.getLastPurge());
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      refresh();
+    }
+  }, [visible, refresh]);
+
+  useEffect(() => {
+    return RetentionService.subscribe(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Purge Log</Text>
+          {lastPurge && (
+            <Text style={styles.hint}>
+              Last checked {lastPurge.purgedAt.toLocaleString()}: removed {describeRemoved(lastPurge.removed)}
+            </Text>
+          )}
+
+          <View style={styles.tabs}>
+            <TouchableOpacity style={[styles.tab, tab === 'purges' && styles.activeTab]} onPress={() => setTab('purges')}>
+              <Text style={[styles.tabText, tab === 'purges' && styles.activeTabText]}>Purges ({purges.length})</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.tab, tab === 'exports' && styles.activeTab]} onPress={() => setTab('exports')}>
+              <Text style={[styles.tabText, tab === 'exports' && styles.activeTabText]}>Exports ({exports.length})</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {tab === 'purges' && (
+              purges.length === 0 ? (
+                <Text style={styles.hint}>Nothing has been purged yet</Text>
+              ) : (
+                purges.map(report => (
+                  <View key={report.purgedAt.getTime()} style={styles.entry}>
+                    <Text style={styles.entryTitle}>
+                      {report.purgedAt.toLocaleString()} · {report.trigger}
+                    </Text>
+                    <Text style={styles.entryText}>Removed {describeRemoved(report.removed)}</Text>
+                    <Text style={styles.entryDetail}>
+                      Cutoffs: detections {formatCutoff(report.cutoffs.detections)}, plates {formatCutoff(report.cutoffs.plates)},
+                      snapshots {formatCutoff(report.cutoffs.snapshots)}
+                    </Text>
+                    {report.earlierExports.length > 0 && (
+                      <Text style={styles.warningText}>
+                        Earlier exports may still hold removed data: {report.earlierExports.join(', ')}
+                      </Text>
+                    )}
+                  </View>
+                ))
+              )
+            )}
+
+            {tab === 'exports' && (
+              exports.length === 0 ? (
+                <Text style={styles.hint}>No exports yet</Text>
+              ) : (
+                exports.map(record => (
+                  <View key={`${record.exportedAt.getTime()}_${record.fileName}`} style={styles.entry}>
+                    <Text style={styles.entryTitle}>{record.fileName}</Text>
+                    <Text style={styles.entryText}>
+                      {record.exportedAt.toLocaleString()} · {record.detections} detections · plates {record.platePrivacy}
+                    </Text>
+                    <Text style={styles.entryDetail}>
+                      Data from {record.dataFrom.toLocaleString()} to {record.dataTo.toLocaleString()}
+                    </Text>
+                  </View>
+                ))
+              )
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.buttonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#2196F3',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  activeTabText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  list: {
+    maxHeight: 400,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  entry: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  entryText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  entryDetail: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#F57C00',
+    marginTop: 4,
+  },
+  closeButton: {
+    backgroundColor: '#9E9E9E',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 12,
+    marginBottom: 30,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
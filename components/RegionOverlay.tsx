@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Pressable, StyleSheet, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Polygon, Polyline } from 'react-native-svg';
+import { Point, ResizeMode, Size, frameToView, viewToFrame } from '@/services/geometry';
+import { Region, RegionMode } from '@/services/Regions';
+
+interface RegionOverlayProps {
+  regions: Region[];
+  frameSize: Size;
+  resizeMode: ResizeMode;
+  editing: boolean;
+  onChange: (regions: Region[]) => void;
+  onDone: () => void;
+}
+
+const REGION_COLORS: { [mode in RegionMode]: string } = {
+  [RegionMode.INCLUDE]: '#4CAF50',
+  [RegionMode.EXCLUDE]: '#F44336',
+};
+
+export default function RegionOverlay({ regions, frameSize, resizeMode, editing, onChange, onDone }: RegionOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [draftMode, setDraftMode] = useState<RegionMode>(RegionMode.INCLUDE);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (size.width === 0 || size.height === 0) return;
+    const point = viewToFrame(
+      { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+      frameSize,
+      size,
+      resizeMode
+    );
+    setDraftPoints(points => [...points, point]);
+  };
+
+  const closePolygon = () => {
+    if (draftPoints.length < 3) return;
+    const sameModeCount = regions.filter(region => region.mode === draftMode).length;
+    onChange([
+      ...regions,
+      {
+        id: `region_${Date.now()}`,
+        name: `${draftMode === RegionMode.INCLUDE ? 'Include' : 'Exclude'} ${sameModeCount + 1}`,
+        mode: draftMode,
+        points: draftPoints,
+      },
+    ]);
+    setDraftPoints([]);
+  };
+
+  const undo = () => {
+    if (draftPoints.length > 0) {
+      setDraftPoints(points => points.slice(0, -1));
+    } else {
+      onChange(regions.slice(0, -1));
+    }
+  };
+
+  const clear = () => {
+    setDraftPoints([]);
+    onChange([]);
+  };
+
+  const finish = () => {
+    setDraftPoints([]);
+    onDone();
+  };
+
+  const toPixels = (point: Point) => frameToView(point, frameSize, size, resizeMode);
+
+  const toPixelString = (points: Point[]) =>
+    points.map(toPixels).map(point => `${point.x},${point.y}`).join(' ');
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents={editing ? 'auto' : 'none'} onLayout={handleLayout}>
+      <Svg width={size.width} height={size.height}>
+        {regions.map(region => (
+          <Polygon
+            key={region.id}
+            points={toPixelString(region.points)}
+            fill={REGION_COLORS[region.mode]}
+            fillOpacity={0.2}
+            stroke={REGION_COLORS[region.mode]}
+            strokeWidth={2}
+          />
+        ))}
+        {draftPoints.length > 1 && (
+          <Polyline
+            points={toPixelString(draftPoints)}
+            fill="none"
+            stroke={REGION_COLORS[draftMode]}
+            strokeWidth={2}
+            strokeDasharray="6,4"
+          />
+        )}
+        {draftPoints.map((point, index) => (
+          <Circle
+            key={index}
+            cx={toPixels(point).x}
+            cy={toPixels(point).y}
+            r={5}
+            fill={REGION_COLORS[draftMode]}
+          />
+        ))}
+      </Svg>
+
+      {editing && (
+        <>
+          <Pressable style={StyleSheet.absoluteFill} onPress={handlePress} />
+          <View style={styles.toolbar}>
+            <Text style={styles.hintText}>
+              Tap to add corners, then close the polygon ({draftPoints.length} points)
+            </Text>
+            <View style={styles.toolbarButtons}>
+              <TouchableOpacity
+                style={[styles.toolbarButton, { backgroundColor: REGION_COLORS[draftMode] }]}
+                onPress={() => setDraftMode(mode => mode === RegionMode.INCLUDE ? RegionMode.EXCLUDE : RegionMode.INCLUDE)}
+              >
+                <Text style={styles.toolbarButtonText}>
+                  {draftMode === RegionMode.INCLUDE ? 'Include' : 'Exclude'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.toolbarButton, draftPoints.length < 3 && styles.disabledButton]}
+                onPress={closePolygon}
+                disabled={draftPoints.length < 3}
+              >
+                <Text style={styles.toolbarButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={undo}>
+                <Text style={styles.toolbarButtonText}>Undo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={clear}>
+                <Text style={styles.toolbarButtonText}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.toolbarButton, styles.doneButton]} onPress={finish}>
+                <Text style={styles.toolbarButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    position: 'absolute',
+    left: 10,
+    right: 10,
+    bottom: 40,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    padding: 10,
+    borderRadius: 8,
+  },
+  hintText: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  toolbarButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  toolbarButton: {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  doneButton: {
+    backgroundColor: '#2196F3',
+  },
+  toolbarButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { SessionDetails, defaultSessionName } from '@/services/Sessions';
+
+interface SessionFormProps {
+  visible: boolean;
+  initialDetails?: Partial<SessionDetails>;
+  onSubmit: (details: SessionDetails) => void;
+  onCancel: () => void;
+}
+
+export default function SessionForm({ visible, initialDetails, onSubmit, onCancel }: SessionFormProps) {
+  const [name, setName] = useState('');
+  const [site, setSite] = useState('');
+  const [operator, setOperator] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setName(initialDetails?.name ?? defaultSessionName());
+      setSite(initialDetails?.site ?? '');
+      setOperator(initialDetails?.operator ?? '');
+      setNotes(initialDetails?.notes ?? '');
+    }
+  }, [visible, initialDetails]);
+
+  const submit = () => {
+    onSubmit({
+      name: name.trim() || defaultSessionName(),
+      site: site.trim(),
+      operator: operator.trim(),
+      notes: notes.trim(),
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <ScrollView style={styles.sheet} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>New Counting Session</Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput style={styles.input} value={name} onChangeText={setName} />
+
+          <Text style={styles.label}>Site</Text>
+          <TextInput style={styles.input} value={site} onChangeText={setSite} placeholder="e.g. A40 eastbound at Park Rd" />
+
+          <Text style={styles.label}>Operator</Text>
+          <TextInput style={styles.input} value={operator} onChangeText={setOperator} />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+          />
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.startButton]} onPress={submit}>
+              <Text style={styles.buttonText}>Start Session</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 12,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+    marginBottom: 30,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#9E9E9E',
+  },
+  startButton: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -1,8 +1,34 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
 import * as MediaLibrary from 'expo-media-library';
-import VehicleDetectionService, { DetectedVehicle, VehicleType } from '@/services/VehicleDetectionService';
+import CalibrationOverlay from '@/components/CalibrationOverlay';
+import CountLineOverlay from '@/components/CountLineOverlay';
+import DetectionBoxOverlay from '@/components/DetectionBoxOverlay';
+import DetectorPicker from '@/components/DetectorPicker';
+import FrameStreamCamera, { CapturedPhoto, FrameStreamCameraHandle } from '@/components/FrameStreamCamera';
+import RegionOverlay from '@/components/RegionOverlay';
+import WatchlistAlert from '@/components/WatchlistAlert';
+import { CountLine } from '@/services/CountLines';
+import { DetectorId } from '@/services/Detector';
+import { ResizeMode, Size } from '@/services/geometry';
+import { isLowConfidencePlate } from '@/services/LicensePlateRecognizer';
+import { ModelInfo } from '@/services/ModelCache';
+import PlatePrivacy, { PlatePrivacyMode, displayPlate } from '@/services/PlatePrivacy';
+import { WatchlistHit, WatchlistPriority } from '@/services/PlateWatchlist';
+import { Region } from '@/services/Regions';
+import { PurgeTrigger, describeRemoved, totalRemoved } from '@/services/Retention';
+import RetentionService from '@/services/RetentionService';
+import SettingsService, { CaptureMode } from '@/services/SettingsService';
+import { SpeedCalibration, formatSpeed } from '@/services/SpeedEstimation';
+import VehicleDetectionService, { DetectedVehicle, StreamStats, VehicleType, VideoFrame } from '@/services/VehicleDetectionService';
+import WatchlistService from '@/services/WatchlistService';
+
+// CameraView fills its bounds and crops the overflow
+const PREVIEW_RESIZE_MODE: ResizeMode = 'cover';
+// Portrait 4:3 until the first photo reports the real frame size
+const DEFAULT_FRAME_SIZE: Size = { width: 3, height: 4 };
 
 interface VehicleDetectionCameraProps {
   onDetection?: (vehicles: DetectedVehicle[]) => void;
@@ -15,16 +41,38 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
   const [mediaLibraryPermission] = MediaLibrary.usePermissions();
   const [isDetecting, setIsDetecting] = useState(false);
   const [lastDetection, setLastDetection] = useState<DetectedVehicle[]>([]);
+  const [frameSize, setFrameSize] = useState<Size>(DEFAULT_FRAME_SIZE);
   const [modelStatus, setModelStatus] = useState<'loading' | 'loaded' | 'fallback'>('loading');
+  const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
+  const [isDetectorPickerVisible, setIsDetectorPickerVisible] = useState(false);
+  const [countLines, setCountLines] = useState<CountLine[]>(VehicleDetectionService.getCountLines());
+  const [isEditingLines, setIsEditingLines] = useState(false);
+  const [regions, setRegions] = useState<Region[]>(VehicleDetectionService.getRegions());
+  const [isEditingRegions, setIsEditingRegions] = useState(false);
+  const [speedCalibration, setSpeedCalibration] = useState(VehicleDetectionService.getSpeedCalibration());
+  const [speedLimitKmh, setSpeedLimitKmh] = useState(VehicleDetectionService.getSpeedLimitKmh());
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [watchlistHit, setWatchlistHit] = useState<WatchlistHit | null>(null);
+  const [settings, setSettings] = useState(SettingsService.getSettings());
+  const [streamStats, setStreamStats] = useState<StreamStats | null>(null);
   const cameraRef = useRef<CameraView>(null);
+  const streamCameraRef = useRef<FrameStreamCameraHandle>(null);
+  const { captureMode, streamTargetFps, detectionIntervalMs } = settings;
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   const initializeService = async () => {
     try {
       setModelStatus('loading');
       await VehicleDetectionService.initialize();
-      setModelStatus('loaded');
-      console.log('Vehicle detection service initialized with real AI model');
+      // Lines and regions come back with the restored session
+      setCountLines(VehicleDetectionService.getCountLines());
+      setRegions(VehicleDetectionService.getRegions());
+      setSpeedCalibration(VehicleDetectionService.getSpeedCalibration());
+      setSpeedLimitKmh(VehicleDetectionService.getSpeedLimitKmh());
+      setModelInfo(VehicleDetectionService.getModelInfo());
+      // The service falls back to simulation instead of throwing when the model cannot be loaded
+      setModelStatus(VehicleDetectionService.isRealModelLoaded() ? 'loaded' : 'fallback');
+      console.log(`Vehicle detection service initialized in ${VehicleDetectionService.getDetectorMode()} mode`);
     } catch (error) {
       console.error('Failed to initialize detection service:', error);
       setModelStatus('fallback');
@@ -32,17 +80,36 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
     }
   };
 
+  const selectDetector = async (id: DetectorId) => {
+    setIsDetectorPickerVisible(false);
+    setModelStatus('loading');
+    const activeId = await VehicleDetectionService.setDetector(id);
+    setModelInfo(VehicleDetectionService.getModelInfo());
+    setModelStatus(VehicleDetectionService.isRealModelLoaded() ? 'loaded' : 'fallback');
+    if (activeId !== id) {
+      Alert.alert('Detector Unavailable', 'The selected model could not be loaded. Detection continues with the previous detector.');
+    }
+  };
+
   const startDetection = useCallback(() => {
     if (isDetecting) return;
     
     setIsDetecting(true);
+    if (captureMode === CaptureMode.STREAM) {
+      // Frames now arrive through handleStreamFrame
+      VehicleDetectionService.resetStreamStats();
+      setStreamStats(null);
+      return;
+    }
+
     detectionIntervalRef.current = setInterval(async () => {
       try {
         if (cameraRef.current) {
           const photo = await cameraRef.current.takePictureAsync({
             base64: false,
-            quality: 0.7,
+            quality: SettingsService.getSettings().photoQuality,
           });
+          setFrameSize({ width: photo.width, height: photo.height });
           
           const detections = await VehicleDetectionService.detectVehicles(photo.uri);
           setLastDetection(detections);
@@ -51,8 +118,8 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
       } catch (error) {
         console.error('Detection error:', error);
       }
-    }, 2000); // Detect every 2 seconds
-  }, [isDetecting, onDetection]);
+    }, detectionIntervalMs);
+  }, [isDetecting, onDetection, captureMode, detectionIntervalMs]);
 
   const stopDetection = useCallback(() => {
     setIsDetecting(false);
@@ -71,6 +138,60 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
     };
   }, []);
 
+  const handleStreamFrame = useCallback(async (frame: VideoFrame) => {
+    const detections = await VehicleDetectionService.processVideoFrame(frame);
+    setFrameSize({ width: frame.width, height: frame.height });
+    setLastDetection(detections);
+    setStreamStats(VehicleDetectionService.getStreamStats());
+    onDetection?.(detections);
+  }, [onDetection]);
+
+  useEffect(() => {
+    return SettingsService.subscribe(setSettings);
+  }, []);
+
+  useEffect(() => {
+    // Streamed frames are never written to a file, so the camera takes a photo as the snapshot
+    const captureSnapshot = async (hit: WatchlistHit) => {
+      try {
+        const photo = await streamCameraRef.current?.takePhoto();
+        if (!photo) return;
+        const snapshotUri = await WatchlistService.attachSnapshot(hit.id, photo.uri);
+        setWatchlistHit(current => (current?.id === hit.id ? { ...current, snapshotUri } : current));
+      } catch (error) {
+        console.error('Failed to take watchlist snapshot:', error);
+      }
+    };
+
+    return WatchlistService.subscribe(hit => {
+      Haptics.notificationAsync(
+        hit.entry.priority === WatchlistPriority.HIGH
+          ? Haptics.NotificationFeedbackType.Error
+          : Haptics.NotificationFeedbackType.Warning
+      );
+      setWatchlistHit(hit);
+      if (!hit.snapshotUri) {
+        captureSnapshot(hit);
+      }
+    });
+  }, []);
+
+  // Automatic purges say what they removed; purges run from the settings screen report there
+  useEffect(() => {
+    return RetentionService.subscribe(report => {
+      if (report.trigger === PurgeTrigger.MANUAL || totalRemoved(report.removed) === 0) return;
+      const earlier = report.earlierExports.length > 0
+        ? `\n\n${report.earlierExports.length} earlier exports may still hold this data; see the purge log in Settings`
+        : '';
+      Alert.alert('Old Data Removed', `Retention settings removed ${describeRemoved(report.removed)}${earlier}`);
+    });
+  }, []);
+
+  // Stopping lets the recording effect below restart detection with the new capture settings
+  useEffect(() => {
+    stopDetection();
+  }, [captureMode, detectionIntervalMs, stopDetection]);
+
   useEffect(() => {
     if (isRecording && !isDetecting) {
       startDetection();
@@ -79,30 +200,74 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
     }
   }, [isRecording, isDetecting, startDetection, stopDetection]);
 
+  const takeFullPhoto = async (): Promise<CapturedPhoto | null> => {
+    if (captureMode === CaptureMode.STREAM) {
+      return streamCameraRef.current?.takePhoto() ?? null;
+    }
+    return cameraRef.current?.takePictureAsync({ base64: false, quality: 1.0 }) ?? null;
+  };
+
   const capturePhoto = async () => {
     try {
-      if (!cameraRef.current) return;
-
-      const photo = await cameraRef.current.takePictureAsync({
-        base64: false,
-        quality: 1.0,
-      });
+      const photo = await takeFullPhoto();
+      if (!photo) return;
 
-      if (mediaLibraryPermission?.status === 'granted') {
-        await MediaLibrary.saveToLibraryAsync(photo.uri);
-      }
+      setFrameSize({ width: photo.width, height: photo.height });
 
       const detections = await VehicleDetectionService.detectVehicles(photo.uri);
       setLastDetection(detections);
       onDetection?.(detections);
 
-      Alert.alert('Success', `Photo captured! Detected ${detections.length} vehicles`);
+      // Plates are blurred before the photo leaves the app unless they are kept raw, including vehicles
+      // that were not counted; the photo is not saved when they cannot be located
+      let isSaved = false;
+      if (mediaLibraryPermission?.status === 'granted') {
+        const located = settings.platePrivacy === PlatePrivacyMode.RAW
+          ? []
+          : await VehicleDetectionService.findPlateRegions(photo.uri);
+        if (located) {
+          const savedUri = settings.platePrivacy === PlatePrivacyMode.RAW
+            ? photo.uri
+            : await PlatePrivacy.redactPhoto(photo.uri, [...VehicleDetectionService.getPlateRegions(detections), ...located]);
+          await MediaLibrary.saveToLibraryAsync(savedUri);
+          isSaved = true;
+        }
+      }
+
+      Alert.alert(
+        'Success',
+        `Photo captured! Detected ${detections.length} vehicles` +
+          (isSaved || mediaLibraryPermission?.status !== 'granted'
+            ? ''
+            : '\nNot saved to the gallery: plates could not be located for blurring')
+      );
     } catch (error) {
       console.error('Capture error:', error);
       Alert.alert('Error', 'Failed to capture photo');
     }
   };
 
+  const updateCountLines = (lines: CountLine[]) => {
+    setCountLines(lines);
+    VehicleDetectionService.setCountLines(lines);
+  };
+
+  const updateRegions = (updated: Region[]) => {
+    setRegions(updated);
+    VehicleDetectionService.setRegions(updated);
+  };
+
+  const updateSpeedCalibration = (calibration: SpeedCalibration | null, limitKmh: number | null) => {
+    try {
+      VehicleDetectionService.setSpeedCalibration(calibration, limitKmh);
+      setSpeedCalibration(calibration);
+      setSpeedLimitKmh(limitKmh);
+    } catch (error) {
+      console.error('Speed calibration error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save speed calibration');
+    }
+  };
+
   const toggleCameraFacing = () => {
     setFacing(current => (current === 'back' ? 'front' : 'back'));
   };
@@ -136,22 +301,51 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
 
   return (
     <View style={styles.container}>
-      <CameraView
-        ref={cameraRef}
-        style={styles.camera}
-        facing={facing}
-      >
+      <View style={styles.camera}>
+        {captureMode === CaptureMode.STREAM ? (
+          <FrameStreamCamera
+            ref={streamCameraRef}
+            style={StyleSheet.absoluteFill}
+            facing={facing}
+            resizeMode={PREVIEW_RESIZE_MODE}
+            isStreaming={isDetecting}
+            targetFps={streamTargetFps}
+            onFrame={handleStreamFrame}
+          />
+        ) : (
+          <CameraView ref={cameraRef} style={StyleSheet.absoluteFill} facing={facing} />
+        )}
+
+        {/* Bounding Boxes */}
+        <DetectionBoxOverlay
+          vehicles={lastDetection}
+          frameSize={frameSize}
+          resizeMode={PREVIEW_RESIZE_MODE}
+        />
+
         <View style={styles.overlay}>
           {/* Detection Status */}
           <View style={styles.statusContainer}>
             <Text style={styles.statusText}>
               {isDetecting ? '🔴 Detecting...' : '⚫ Idle'}
             </Text>
-            <Text style={styles.demoText}>
+            <Text style={styles.demoText} onPress={() => setIsDetectorPickerVisible(true)}>
               {modelStatus === 'loading' && '⏳ Loading AI Model...'}
-              {modelStatus === 'loaded' && '🤖 AI Model - Real Detection'}
+              {modelStatus === 'loaded' && modelInfo &&
+                `🤖 ${modelInfo.name} v${modelInfo.version}${modelInfo.source === 'download' ? ' - Downloaded' : ' - Offline'}`}
               {modelStatus === 'fallback' && '📍 Demo Mode - Simulated Detections'}
             </Text>
+            {modelStatus === 'loaded' && !VehicleDetectionService.isPlateReadingAvailable() && (
+              <Text style={styles.countText}>🔤 Plate reading unavailable</Text>
+            )}
+            {modelStatus === 'loaded' && !VehicleDetectionService.isVehicleClassifierReady() && (
+              <Text style={styles.countText}>🚚 Body types unavailable</Text>
+            )}
+            {isDetecting && streamStats && (
+              <Text style={styles.countText}>
+                ⚡ {streamStats.fps.toFixed(1)} fps · {streamStats.droppedFrames} dropped · {streamStats.lastFrameMs} ms/frame
+              </Text>
+            )}
             {lastDetection.length > 0 && (
               <Text style={styles.countText}>
                 Last detection: {lastDetection.length} vehicles
@@ -173,11 +367,27 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
                   <Text style={styles.detectionText}>
                     {vehicle.type.toUpperCase()} ({Math.round(vehicle.confidence * 100)}%)
                   </Text>
-                  {vehicle.licensePlate && (
-                    <Text style={styles.plateText}>
-                      📄 {vehicle.licensePlate}
+                  {vehicle.speedKmh !== undefined && (
+                    <Text
+                      style={[
+                        styles.speedText,
+                        speedLimitKmh !== null && vehicle.speedKmh > speedLimitKmh && styles.overLimitText,
+                      ]}
+                    >
+                      {formatSpeed(vehicle.speedKmh, settings.speedUnit)}
                     </Text>
                   )}
+                  {vehicle.licensePlate && (
+                    isLowConfidencePlate(vehicle.licensePlateCharConfidences) ? (
+                      <Text style={[styles.plateText, styles.lowConfidencePlateText]}>
+                        ⚠️ {displayPlate(vehicle.licensePlate)}?
+                      </Text>
+                    ) : (
+                      <Text style={styles.plateText}>
+                        📄 {displayPlate(vehicle.licensePlate)}
+                      </Text>
+                    )
+                  )}
                 </View>
               ))}
             </View>
@@ -189,6 +399,18 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
               <Text style={styles.buttonText}>Flip</Text>
             </TouchableOpacity>
             
+            <TouchableOpacity style={styles.button} onPress={() => setIsEditingLines(true)}>
+              <Text style={styles.buttonText}>Lines</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.button} onPress={() => setIsEditingRegions(true)}>
+              <Text style={styles.buttonText}>Zones</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.button} onPress={() => setIsCalibrating(true)}>
+              <Text style={styles.buttonText}>Speed</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity style={styles.captureButton} onPress={capturePhoto}>
               <Text style={styles.buttonText}>📷</Text>
             </TouchableOpacity>
@@ -203,7 +425,50 @@ export default function VehicleDetectionCamera({ onDetection, isRecording = fals
             </TouchableOpacity>
           </View>
         </View>
-      </CameraView>
+
+        {/* Regions of Interest */}
+        <RegionOverlay
+          regions={regions}
+          frameSize={frameSize}
+          resizeMode={PREVIEW_RESIZE_MODE}
+          editing={isEditingRegions}
+          onChange={updateRegions}
+          onDone={() => setIsEditingRegions(false)}
+        />
+
+        {/* Count Lines */}
+        <CountLineOverlay
+          lines={countLines}
+          frameSize={frameSize}
+          resizeMode={PREVIEW_RESIZE_MODE}
+          editing={isEditingLines}
+          onChange={updateCountLines}
+          onDone={() => setIsEditingLines(false)}
+        />
+
+        {/* Speed Calibration; remounted on open so each edit starts from the saved calibration */}
+        <CalibrationOverlay
+          key={isCalibrating ? 'calibrating' : 'saved'}
+          calibration={speedCalibration}
+          speedLimitKmh={speedLimitKmh}
+          speedUnit={settings.speedUnit}
+          frameSize={frameSize}
+          resizeMode={PREVIEW_RESIZE_MODE}
+          editing={isCalibrating}
+          onSave={updateSpeedCalibration}
+          onDone={() => setIsCalibrating(false)}
+        />
+      </View>
+
+      {watchlistHit && <WatchlistAlert hit={watchlistHit} onDismiss={() => setWatchlistHit(null)} />}
+
+      <DetectorPicker
+        visible={isDetectorPickerVisible}
+        detectors={VehicleDetectionService.getAvailableDetectors()}
+        activeDetectorId={VehicleDetectionService.getDetectorId()}
+        onSelect={selectDetector}
+        onCancel={() => setIsDetectorPickerVisible(false)}
+      />
     </View>
   );
 }
@@ -276,6 +541,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  speedText: {
+    color: '#00E5FF',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  overLimitText: {
+    color: '#FF5252',
+  },
+  lowConfidencePlateText: {
+    color: '#FF9800',
+    fontStyle: 'italic',
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -285,7 +563,7 @@ const styles = StyleSheet.create({
   },
   button: {
     backgroundColor: 'rgba(255,255,255,0.3)',
-    paddingHorizontal: 20,
+    paddingHorizontal: 14,
     paddingVertical: 10,
     borderRadius: 25,
   },
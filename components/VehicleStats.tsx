@@ -1,37 +1,168 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
-import VehicleDetectionService, { VehicleCount, VehicleType, DetectedVehicle } from '@/services/VehicleDetectionService';
+import { useFocusEffect } from 'expo-router';
+import ClassShareDonut from '@/components/ClassShareDonut';
+import { ChartPalette } from '@/constants/Colors';
+import { CrossingDirection, LineCount, formatDirection } from '@/services/CountLines';
+import ExportFormatPicker from '@/components/ExportFormatPicker';
+import VolumeChart from '@/components/VolumeChart';
+import WeeklyHeatmap from '@/components/WeeklyHeatmap';
+import { StreamState, StreamStatus } from '@/services/EventStream';
+import EventStreamService from '@/services/EventStreamService';
+import ExportService, { ExportFormat } from '@/services/ExportService';
+import { isLowConfidencePlate } from '@/services/LicensePlateRecognizer';
+import { displayPlate } from '@/services/PlatePrivacy';
+import { CountingSession, defaultSessionName } from '@/services/Sessions';
+import SettingsService from '@/services/SettingsService';
+import { SpeedSummary, SpeedUnit, formatSpeed } from '@/services/SpeedEstimation';
+import { SyncState, SyncStatus } from '@/services/Sync';
+import SyncService from '@/services/SyncService';
+import TrafficAggregator, {
+  PeakHour,
+  STANDARD_BIN_MINUTES,
+  VolumeBin,
+  WeeklyProfileCell,
+} from '@/services/TrafficAggregator';
+import {
+  BODY_VEHICLE_TYPES,
+  BodyClass,
+  TaxonomyCount,
+  TaxonomyId,
+  VehicleClass,
+  VehicleTaxonomy,
+  classIdOf,
+} from '@/services/VehicleClasses';
+import VehicleDetectionService, { VehicleType, DetectedVehicle } from '@/services/VehicleDetectionService';
+
+// Bins drawn in the volume chart: 4 hours of 5-minute bins up to 2 days of hourly ones
+const CHART_BINS = 48;
 
 interface VehicleStatsProps {
   detectedVehicles: DetectedVehicle[];
 }
 
 export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
-  const [vehicleCount, setVehicleCount] = useState<VehicleCount>(VehicleDetectionService.getVehicleCount());
+  const [classCount, setClassCount] = useState<TaxonomyCount>(VehicleDetectionService.getClassCount());
+  const [taxonomy, setTaxonomy] = useState<VehicleTaxonomy>(VehicleDetectionService.getTaxonomy());
   const [recentDetections, setRecentDetections] = useState<DetectedVehicle[]>([]);
+  const [lineCounts, setLineCounts] = useState<LineCount[]>(VehicleDetectionService.getLineCounts());
+  const [activeSession, setActiveSession] = useState<CountingSession | null>(VehicleDetectionService.getActiveSession());
+  const [isFormatPickerVisible, setIsFormatPickerVisible] = useState(false);
+  const [binMinutes, setBinMinutes] = useState(15);
+  const [volumeBins, setVolumeBins] = useState<VolumeBin[]>([]);
+  const [chartBins, setChartBins] = useState<VolumeBin[]>([]);
+  const [weeklyProfile, setWeeklyProfile] = useState<WeeklyProfileCell[][]>([]);
+  const [lastHourVolume, setLastHourVolume] = useState(0);
+  const [peakHour, setPeakHour] = useState<PeakHour | null>(null);
+  const [speedSummary, setSpeedSummary] = useState<SpeedSummary | null>(null);
+  const [speedUnit, setSpeedUnit] = useState<SpeedUnit>(SettingsService.getSettings().speedUnit);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SyncService.getStatus());
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>(EventStreamService.getStatus());
 
   useEffect(() => {
     updateStats();
   }, [detectedVehicles]);
 
+
   const updateStats = () => {
-    setVehicleCount(VehicleDetectionService.getVehicleCount());
+    setClassCount(VehicleDetectionService.getClassCount());
+    setTaxonomy(VehicleDetectionService.getTaxonomy());
     setRecentDetections(VehicleDetectionService.getDetectedVehicles().slice(-10));
+    setLineCounts(VehicleDetectionService.getLineCounts());
+    setActiveSession(VehicleDetectionService.getActiveSession());
   };
 
-  const resetStats = () => {
+  const loadTrafficVolume = useCallback(async () => {
+    const session = VehicleDetectionService.getActiveSession();
+    if (!session) {
+      setVolumeBins([]);
+      setChartBins([]);
+      setLastHourVolume(0);
+      setPeakHour(null);
+      setSpeedSummary(null);
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const range = { sessionId: session.id, from: session.startedAt, to: now, taxonomy: VehicleDetectionService.getTaxonomy() };
+      const [bins, lastHour, peak, speeds] = await Promise.all([
+        TrafficAggregator.getVolumeSeries({ ...range, binMinutes }),
+        TrafficAggregator.getVolumeSeries({ ...range, from: new Date(now.getTime() - 60 * 60 * 1000), binMinutes: 60 }),
+        TrafficAggregator.getPeakHour(range),
+        TrafficAggregator.getSpeedSummary(session.id, VehicleDetectionService.getSpeedLimitKmh()),
+      ]);
+      setVolumeBins(bins.slice(-8).reverse());
+      setChartBins(bins.slice(-CHART_BINS));
+      setLastHourVolume(lastHour.reduce((sum, bin) => sum + bin.counts.total, 0));
+      setPeakHour(peak);
+      setSpeedSummary(speeds);
+    } catch (error) {
+      console.error('Failed to load traffic volume:', error);
+    }
+  }, [binMinutes]);
+
+  useEffect(() => {
+    loadTrafficVolume();
+  }, [detectedVehicles, loadTrafficVolume]);
+
+  // Switching the class scheme regroups existing counts straight away
+  useEffect(() => {
+    return SettingsService.subscribe(settings => {
+      setSpeedUnit(settings.speedUnit);
+      setClassCount(VehicleDetectionService.getClassCount());
+      setTaxonomy(VehicleDetectionService.getTaxonomy());
+      loadTrafficVolume();
+    });
+  }, [loadTrafficVolume]);
+
+  // Covers every session, so it is only reloaded when the statistics are shown or the session changes
+  const loadWeeklyProfile = useCallback(async () => {
+    try {
+      setWeeklyProfile(await TrafficAggregator.getWeeklyProfile());
+    } catch (error) {
+      console.error('Failed to load weekly profile:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadWeeklyProfile();
+    }, [loadWeeklyProfile])
+  );
+
+  useEffect(() => {
+    loadWeeklyProfile();
+  }, [activeSession?.id, loadWeeklyProfile]);
+
+  useEffect(() => {
+    return SyncService.subscribe(setSyncStatus);
+  }, []);
+
+  useEffect(() => {
+    return EventStreamService.subscribe(setStreamStatus);
+  }, []);
+
+  const startNewSession = () => {
     Alert.alert(
-      'Reset Statistics',
-      'Are you sure you want to reset all vehicle counts and detection history?',
+      'New Session',
+      'End the current session and start counting in a new one? The current session is kept and can be reopened from the Sessions tab.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Reset',
-          style: 'destructive',
-          onPress: () => {
-            VehicleDetectionService.resetCounts();
+          text: 'New Session',
+          onPress: async () => {
+            try {
+              await VehicleDetectionService.startSession({
+                name: defaultSessionName(),
+                site: activeSession?.site ?? '',
+                operator: activeSession?.operator ?? '',
+                notes: '',
+              });
+            } catch (error) {
+              console.error('Session error:', error);
+              Alert.alert('Error', 'Unable to start a new session');
+            }
             updateStats();
           },
         },
@@ -39,21 +170,12 @@ export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
     );
   };
 
-  const exportData = async () => {
+  const exportData = async (format: ExportFormat) => {
+    setIsFormatPickerVisible(false);
     try {
-      const data = VehicleDetectionService.exportDetectionData();
-      const fileName = `vehicle_detection_${new Date().toISOString().split('T')[0]}.json`;
-      const fileUri = FileSystem.documentDirectory + fileName;
-      
-      await FileSystem.writeAsStringAsync(fileUri, data);
-      
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri, {
-          mimeType: 'application/json',
-          dialogTitle: 'Export Vehicle Detection Data',
-        });
-      } else {
-        Alert.alert('Export Complete', `Data saved to: ${fileName}`);
+      const result = await ExportService.exportSession(undefined, format);
+      if (!result.shared) {
+        Alert.alert('Export Complete', `Data saved to: ${result.fileName}`);
       }
     } catch (error) {
       console.error('Export error:', error);
@@ -85,39 +207,246 @@ export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
     }
   };
 
+  // A class is shown with the icon of the first body class it groups
+  const getClassType = (vehicleClass: VehicleClass): VehicleType => {
+    const body = Object.values(BodyClass).find(candidate => taxonomy.classOf[candidate] === vehicleClass.id);
+    return body ? BODY_VEHICLE_TYPES[body] : VehicleType.UNKNOWN;
+  };
+
+  const getClassLabel = (classId: string): string => {
+    return taxonomy.classes.find(entry => entry.id === classId)?.label ?? classId;
+  };
+
+  // Icons are enough for vehicle types; other schemes have several classes per icon
+  const formatClassBreakdown = (counts: TaxonomyCount): string => {
+    return taxonomy.classes
+      .filter(entry => counts.byClass[entry.id] > 0)
+      .map(entry => taxonomy.id === TaxonomyId.VEHICLE_TYPES
+        ? `${getVehicleIcon(getClassType(entry))} ${counts.byClass[entry.id]}`
+        : `${entry.label} ${counts.byClass[entry.id]}`)
+      .join('  ');
+  };
+
+  const unknownClassId = taxonomy.classOf[BodyClass.UNKNOWN];
+
+  // Vehicle types keep their badge colors; other schemes take the chart palette in class order
+  const classColors: { [classId: string]: string } = {};
+  taxonomy.classes.forEach((entry, index) => {
+    classColors[entry.id] = taxonomy.id === TaxonomyId.VEHICLE_TYPES
+      ? getVehicleColor(getClassType(entry))
+      : ChartPalette[index % ChartPalette.length];
+  });
+
   const formatTime = (date: Date): string => {
     return date.toLocaleTimeString();
   };
 
+  const formatClock = (date: Date): string => {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const describeSync = (status: SyncStatus): string => {
+    const queued = `${status.queuedBatches} batches (${status.queuedItems} items) queued` +
+      (status.rejectedBatches > 0 ? ` · ${status.rejectedBatches} rejected` : '');
+    switch (status.state) {
+      case SyncState.SYNCING: return `⏳ Uploading · ${queued}`;
+      case SyncState.WAITING:
+        return `⚠️ ${queued} · retry ${status.nextAttemptAt ? formatClock(status.nextAttemptAt) : 'soon'}` +
+          (status.lastError ? ` · ${status.lastError}` : '');
+      default:
+        return status.lastSyncedAt ? `☁️ Uploaded ${formatClock(status.lastSyncedAt)} · ${queued}` : `☁️ ${queued}`;
+    }
+  };
+
+  const describeStream = (status: StreamStatus): string => {
+    const counts = `${status.sent} sent` +
+      (status.queued > 0 ? ` · ${status.queued} held` : '') +
+      (status.dropped > 0 ? ` · ${status.dropped} dropped` : '');
+    switch (status.state) {
+      case StreamState.CONNECTED: return `📡 Live · ${counts}`;
+      case StreamState.CONNECTING: return `📡 Connecting · ${counts}`;
+      default: return `⚠️ Stream reconnecting · ${counts}${status.lastError ? ` · ${status.lastError}` : ''}`;
+    }
+  };
+
+  const syncNow = async () => {
+    try {
+      await SyncService.syncNow();
+    } catch (error) {
+      console.error('Sync error:', error);
+      Alert.alert('Upload Failed', 'Unable to upload queued data');
+    }
+  };
+
   return (
     <ScrollView style={styles.container}>
       {/* Summary Stats */}
       <View style={styles.summaryContainer}>
         <Text style={styles.title}>Vehicle Detection Summary</Text>
+        {activeSession && (
+          <Text style={styles.sessionText}>
+            {activeSession.name}{activeSession.site ? ` · ${activeSession.site}` : ''}
+          </Text>
+        )}
         <View style={styles.totalCountContainer}>
           <Text style={styles.totalCountLabel}>Total Vehicles Detected</Text>
-          <Text style={styles.totalCount}>{vehicleCount.total}</Text>
+          <Text style={styles.totalCount}>{classCount.total}</Text>
         </View>
+        {syncStatus.state !== SyncState.DISABLED && (
+          <TouchableOpacity
+            style={[styles.syncStatus, syncStatus.state === SyncState.WAITING && styles.syncStatusWaiting]}
+            onPress={syncNow}
+          >
+            <Text style={styles.syncStatusText} numberOfLines={2}>{describeSync(syncStatus)}</Text>
+          </TouchableOpacity>
+        )}
+        {streamStatus.state !== StreamState.DISABLED && (
+          <View
+            style={[styles.syncStatus, streamStatus.state === StreamState.DISCONNECTED && styles.syncStatusWaiting]}
+          >
+            <Text style={styles.syncStatusText} numberOfLines={2}>{describeStream(streamStatus)}</Text>
+          </View>
+        )}
       </View>
 
       {/* Vehicle Type Breakdown */}
       <View style={styles.statsContainer}>
-        <Text style={styles.sectionTitle}>Vehicle Types</Text>
-        {Object.values(VehicleType)
-          .filter(type => type !== VehicleType.UNKNOWN)
-          .map(type => (
-            <View key={type} style={styles.statRow}>
+        <Text style={styles.sectionTitle}>{taxonomy.name}</Text>
+        {taxonomy.classes
+          .filter(entry => entry.id !== unknownClassId || classCount.byClass[entry.id] > 0)
+          .map(entry => (
+            <View key={entry.id} style={styles.statRow}>
               <View style={styles.statLeft}>
-                <Text style={styles.vehicleIcon}>{getVehicleIcon(type)}</Text>
-                <Text style={styles.vehicleType}>{type.toUpperCase()}</Text>
+                <Text style={styles.vehicleIcon}>{getVehicleIcon(getClassType(entry))}</Text>
+                <Text style={styles.vehicleType}>{entry.label.toUpperCase()}</Text>
               </View>
-              <View style={[styles.countBadge, { backgroundColor: getVehicleColor(type) }]}>
-                <Text style={styles.countText}>{vehicleCount[type]}</Text>
+              <View style={[styles.countBadge, { backgroundColor: getVehicleColor(getClassType(entry)) }]}>
+                <Text style={styles.countText}>{classCount.byClass[entry.id]}</Text>
               </View>
             </View>
           ))}
+        {classCount.total > 0 && (
+          <View style={styles.chartContainer}>
+            <ClassShareDonut counts={classCount} taxonomy={taxonomy} classColors={classColors} />
+          </View>
+        )}
+      </View>
+
+      {/* Count Line Breakdown */}
+      {lineCounts.length > 0 && (
+        <View style={styles.statsContainer}>
+          <Text style={styles.sectionTitle}>Count Lines</Text>
+          {lineCounts.map(lineCount => (
+            <View key={lineCount.lineId} style={styles.lineBlock}>
+              <Text style={styles.lineName}>{lineCount.name}</Text>
+              {[CrossingDirection.A_TO_B, CrossingDirection.B_TO_A].map(direction => (
+                <View key={direction} style={styles.statRow}>
+                  <View style={styles.statLeft}>
+                    <Text style={styles.vehicleType}>{formatDirection(direction)}</Text>
+                    <Text style={styles.lineBreakdown}>
+                      {Object.values(VehicleType)
+                        .filter(type => lineCount[direction][type] > 0)
+                        .map(type => `${getVehicleIcon(type)} ${lineCount[direction][type]}`)
+                        .join('  ')}
+                    </Text>
+                  </View>
+                  <View style={[styles.countBadge, styles.lineBadge]}>
+                    <Text style={styles.countText}>{lineCount[direction].total}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Traffic Volume */}
+      <View style={styles.statsContainer}>
+        <Text style={styles.sectionTitle}>Traffic Volume</Text>
+        <View style={styles.binSelector}>
+          {STANDARD_BIN_MINUTES.map(minutes => (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.binOption, binMinutes === minutes && styles.binOptionSelected]}
+              onPress={() => setBinMinutes(minutes)}
+            >
+              <Text style={[styles.binOptionText, binMinutes === minutes && styles.binOptionTextSelected]}>
+                {minutes} min
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {chartBins.length > 0 && (
+          <View style={styles.chartContainer}>
+            <VolumeChart bins={chartBins} taxonomy={taxonomy} classColors={classColors} />
+          </View>
+        )}
+        {volumeBins.length === 0 ? (
+          <Text style={styles.emptyText}>No traffic recorded yet</Text>
+        ) : (
+          volumeBins.map(bin => (
+            <View key={bin.start.getTime()} style={styles.statRow}>
+              <View style={styles.statLeft}>
+                <Text style={styles.vehicleType}>
+                  {formatClock(bin.start)}–{formatClock(bin.end)}
+                </Text>
+                <Text style={styles.lineBreakdown}>{formatClassBreakdown(bin.classCounts)}</Text>
+              </View>
+              <View style={[styles.countBadge, styles.lineBadge]}>
+                <Text style={styles.countText}>{bin.classCounts.total}</Text>
+              </View>
+            </View>
+          ))
+        )}
       </View>
 
+      {/* Weekly Pattern */}
+      <View style={styles.statsContainer}>
+        <Text style={styles.sectionTitle}>Weekly Pattern</Text>
+        {weeklyProfile.length === 0 ? (
+          <Text style={styles.emptyText}>No sessions recorded yet</Text>
+        ) : (
+          <WeeklyHeatmap profile={weeklyProfile} />
+        )}
+      </View>
+
+      {/* Speed */}
+      {(speedSummary || activeSession?.speedCalibration) && (
+        <View style={styles.statsContainer}>
+          <Text style={styles.sectionTitle}>Speed</Text>
+          {!speedSummary ? (
+            <Text style={styles.emptyText}>No speeds measured yet</Text>
+          ) : (
+            <>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.analyticsLabel}>Measured:</Text>
+                <Text style={styles.analyticsValue}>{speedSummary.measured} vehicles</Text>
+              </View>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.analyticsLabel}>Mean:</Text>
+                <Text style={styles.analyticsValue}>{formatSpeed(speedSummary.meanKmh, speedUnit)}</Text>
+              </View>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.analyticsLabel}>85th Percentile:</Text>
+                <Text style={styles.analyticsValue}>{formatSpeed(speedSummary.p85Kmh, speedUnit)}</Text>
+              </View>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.analyticsLabel}>Fastest:</Text>
+                <Text style={styles.analyticsValue}>{formatSpeed(speedSummary.maxKmh, speedUnit)}</Text>
+              </View>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.analyticsLabel}>Over Limit:</Text>
+                <Text style={styles.analyticsValue}>
+                  {activeSession && activeSession.speedLimitKmh !== null
+                    ? `${Math.round(speedSummary.overLimitShare * 100)}% (${speedSummary.overLimit} over ${formatSpeed(activeSession.speedLimitKmh, speedUnit)})`
+                    : 'No limit set'}
+                </Text>
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
       {/* Recent Detections */}
       <View style={styles.recentContainer}>
         <Text style={styles.sectionTitle}>Recent Detections</Text>
@@ -129,15 +458,24 @@ export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
               <Text style={styles.detectionIcon}>{getVehicleIcon(detection.type)}</Text>
               <View style={styles.detectionInfo}>
                 <Text style={styles.detectionType}>
-                  {detection.type.toUpperCase()}
+                  {getClassLabel(classIdOf(taxonomy, detection.bodyClass)).toUpperCase()}
                 </Text>
                 <Text style={styles.detectionDetails}>
                   Confidence: {Math.round(detection.confidence * 100)}%
+                  {detection.speedKmh !== undefined && ` · ${formatSpeed(detection.speedKmh, speedUnit)}`}
                 </Text>
                 {detection.licensePlate && (
-                  <Text style={styles.licensePlate}>
-                    📄 {detection.licensePlate}
-                  </Text>
+                  isLowConfidencePlate(detection.licensePlateCharConfidences) ? (
+                    <Text style={[styles.licensePlate, styles.lowConfidencePlate]}>
+                      ⚠️ {displayPlate(detection.licensePlate)}? (low confidence
+                      {detection.licensePlateConfidence !== undefined &&
+                        ` ${Math.round(detection.licensePlateConfidence * 100)}%`})
+                    </Text>
+                  ) : (
+                    <Text style={styles.licensePlate}>
+                      📄 {displayPlate(detection.licensePlate)}
+                    </Text>
+                  )
                 )}
               </View>
               <Text style={styles.detectionTime}>
@@ -150,12 +488,12 @@ export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
 
       {/* Action Buttons */}
       <View style={styles.actionContainer}>
-        <TouchableOpacity style={styles.exportButton} onPress={exportData}>
+        <TouchableOpacity style={styles.exportButton} onPress={() => setIsFormatPickerVisible(true)}>
           <Text style={styles.buttonText}>📊 Export Data</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.resetButton} onPress={resetStats}>
-          <Text style={styles.buttonText}>🔄 Reset Stats</Text>
+        <TouchableOpacity style={styles.sessionButton} onPress={startNewSession}>
+          <Text style={styles.buttonText}>🆕 New Session</Text>
         </TouchableOpacity>
       </View>
 
@@ -163,29 +501,47 @@ export default function VehicleStats({ detectedVehicles }: VehicleStatsProps) {
       <View style={styles.analyticsContainer}>
         <Text style={styles.sectionTitle}>Analytics</Text>
         
-        {vehicleCount.total > 0 && (
+        {classCount.total > 0 && (
           <>
             <View style={styles.analyticsRow}>
               <Text style={styles.analyticsLabel}>Most Common Vehicle:</Text>
               <Text style={styles.analyticsValue}>
-                {Object.entries(vehicleCount)
-                  .filter(([key]) => key !== 'total' && key !== VehicleType.UNKNOWN)
-                  .sort(([,a], [,b]) => b - a)[0]?.[0]?.toUpperCase() || 'N/A'}
+                {Object.entries(classCount.byClass)
+                  .filter(([key]) => key !== unknownClassId)
+                  .sort(([,a], [,b]) => b - a)
+                  .map(([key]) => getClassLabel(key))[0]?.toUpperCase() || 'N/A'}
               </Text>
             </View>
             
             <View style={styles.analyticsRow}>
-              <Text style={styles.analyticsLabel}>Detection Rate:</Text>
+              <Text style={styles.analyticsLabel}>Last 60 Minutes:</Text>
+              <Text style={styles.analyticsValue}>{lastHourVolume} vehicles</Text>
+            </View>
+
+            <View style={styles.analyticsRow}>
+              <Text style={styles.analyticsLabel}>Peak Hour:</Text>
+              <Text style={styles.analyticsValue}>
+                {peakHour
+                  ? `${formatClock(peakHour.start)}–${formatClock(peakHour.end)} (${peakHour.volume} veh)`
+                  : 'Needs 1 hour of data'}
+              </Text>
+            </View>
+
+            <View style={styles.analyticsRow}>
+              <Text style={styles.analyticsLabel}>Peak Hour Factor:</Text>
               <Text style={styles.analyticsValue}>
-                {recentDetections.length > 0 
-                  ? `${(recentDetections.length / Math.max(1, Math.ceil((Date.now() - recentDetections[0].timestamp.getTime()) / 60000))).toFixed(1)} per minute`
-                  : 'N/A'
-                }
+                {peakHour ? peakHour.peakHourFactor.toFixed(2) : 'N/A'}
               </Text>
             </View>
           </>
         )}
       </View>
+
+      <ExportFormatPicker
+        visible={isFormatPickerVisible}
+        onSelect={exportData}
+        onCancel={() => setIsFormatPickerVisible(false)}
+      />
     </ScrollView>
   );
 }
@@ -213,9 +569,34 @@ const styles = StyleSheet.create({
     marginBottom: 15,
     textAlign: 'center',
   },
+  sessionText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: -10,
+    marginBottom: 15,
+  },
   totalCountContainer: {
     alignItems: 'center',
   },
+  chartContainer: {
+    marginVertical: 12,
+  },
+  syncStatus: {
+    marginTop: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#E3F2FD',
+  },
+  syncStatusWaiting: {
+    backgroundColor: '#FFF3E0',
+  },
+  syncStatusText: {
+    fontSize: 12,
+    color: '#555',
+    textAlign: 'center',
+  },
   totalCountLabel: {
     fontSize: 16,
     color: '#666',
@@ -278,6 +659,50 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  lineBlock: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  lineName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    paddingHorizontal: 15,
+    paddingTop: 12,
+  },
+  lineBreakdown: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 12,
+  },
+  lineBadge: {
+    backgroundColor: '#2196F3',
+  },
+  binSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+  },
+  binOption: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  binOptionSelected: {
+    backgroundColor: '#2196F3',
+  },
+  binOptionText: {
+    fontSize: 14,
+    color: '#2196F3',
+    textAlign: 'center',
+  },
+  binOptionTextSelected: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
   recentContainer: {
     backgroundColor: '#fff',
     margin: 10,
@@ -325,6 +750,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 2,
   },
+  lowConfidencePlate: {
+    color: '#FF9800',
+    fontStyle: 'italic',
+  },
   detectionTime: {
     fontSize: 12,
     color: '#999',
@@ -342,8 +771,8 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     flex: 1,
   },
-  resetButton: {
-    backgroundColor: '#FF5722',
+  sessionButton: {
+    backgroundColor: '#2196F3',
     paddingHorizontal: 20,
     paddingVertical: 12,
     borderRadius: 8,
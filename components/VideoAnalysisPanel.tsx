@@ -0,0 +1,353 @@
+import React, { useState, useRef } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import * as MediaLibrary from 'expo-media-library';
+import {
+  DEFAULT_VIDEO_SAMPLE_FPS,
+  VIDEO_SAMPLE_FPS_RANGE,
+  VideoAnalysisJob,
+  VideoAnalysisProgress,
+  VideoSource,
+  formatLocalDateTime,
+  parseLocalDateTime,
+} from '@/services/VideoAnalysis';
+
+interface VideoAnalysisPanelProps {
+  visible: boolean;
+  defaultSite?: string;
+  defaultOperator?: string;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export default function VideoAnalysisPanel({ visible, defaultSite, defaultOperator, onClose }: VideoAnalysisPanelProps) {
+  const [source, setSource] = useState<VideoSource | null>(null);
+  const [name, setName] = useState('');
+  const [site, setSite] = useState('');
+  const [recordedAt, setRecordedAt] = useState('');
+  const [sampleFps, setSampleFps] = useState(String(DEFAULT_VIDEO_SAMPLE_FPS));
+  const [progress, setProgress] = useState<VideoAnalysisProgress | null>(null);
+  const jobRef = useRef<VideoAnalysisJob | null>(null);
+
+  const isRunning = progress?.state === 'running' || progress?.state === 'paused';
+
+  const selectSource = (video: VideoSource) => {
+    setSource(video);
+    setName(`Video ${video.name}`);
+    setSite(defaultSite ?? '');
+    setRecordedAt(formatLocalDateTime(video.recordedAt ?? new Date()));
+    setProgress(null);
+  };
+
+  const pickFromLibrary = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['videos'] });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      let recorded: Date | undefined;
+      // The picker does not report when the video was shot; the library does
+      if (asset.assetId) {
+        try {
+          const info = await MediaLibrary.getAssetInfoAsync(asset.assetId);
+          recorded = new Date(info.creationTime);
+        } catch (error) {
+          console.log('Recording time unavailable:', error);
+        }
+      }
+      selectSource({
+        uri: asset.uri,
+        name: asset.fileName ?? 'from library',
+        durationMs: asset.duration ?? undefined,
+        recordedAt: recorded,
+      });
+    } catch (error) {
+      console.error('Video picker error:', error);
+      Alert.alert('Error', 'Unable to open the media library');
+    }
+  };
+
+  const pickFromFiles = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'video/*', copyToCacheDirectory: true });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      selectSource({ uri: asset.uri, name: asset.name });
+    } catch (error) {
+      console.error('Video picker error:', error);
+      Alert.alert('Error', 'Unable to open the file');
+    }
+  };
+
+  const startAnalysis = async () => {
+    if (!source) return;
+
+    const start = parseLocalDateTime(recordedAt);
+    if (!start) {
+      Alert.alert('Invalid Start Time', 'Enter the recording start as YYYY-MM-DD HH:MM:SS');
+      return;
+    }
+    const fps = Number(sampleFps);
+    if (!Number.isFinite(fps) || fps < VIDEO_SAMPLE_FPS_RANGE.min || fps > VIDEO_SAMPLE_FPS_RANGE.max) {
+      Alert.alert('Invalid Frame Rate', `Sample between ${VIDEO_SAMPLE_FPS_RANGE.min} and ${VIDEO_SAMPLE_FPS_RANGE.max} frames per second`);
+      return;
+    }
+
+    const job = new VideoAnalysisJob(
+      source,
+      {
+        sampleFps: fps,
+        recordedAt: start,
+        session: {
+          name: name.trim() || `Video ${source.name}`,
+          site: site.trim(),
+          operator: defaultOperator ?? '',
+          notes: `Analyzed from ${source.name} at ${fps} fps`,
+        },
+      },
+      setProgress
+    );
+    jobRef.current = job;
+    setProgress(job.getProgress());
+
+    const result = await job.run();
+    jobRef.current = null;
+    if (result.state === 'failed') {
+      Alert.alert('Analysis Failed', result.error ?? 'Unable to analyze this video');
+    }
+  };
+
+  const cancelAnalysis = () => {
+    Alert.alert('Cancel Analysis', 'Stop analyzing? Vehicles counted so far stay in the session.', [
+      { text: 'Keep Going', style: 'cancel' },
+      { text: 'Stop', style: 'destructive', onPress: () => jobRef.current?.cancel() },
+    ]);
+  };
+
+  const close = () => {
+    if (isRunning) return;
+    setSource(null);
+    setProgress(null);
+    onClose();
+  };
+
+  const percent = progress?.durationMs
+    ? Math.min(100, Math.round((progress.positionMs / progress.durationMs) * 100))
+    : null;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={close}>
+      <View style={styles.backdrop}>
+        <ScrollView style={styles.sheet} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>Analyze Recorded Video</Text>
+
+          {!progress && (
+            <>
+              <View style={styles.pickRow}>
+                <TouchableOpacity style={[styles.button, styles.pickButton]} onPress={pickFromLibrary}>
+                  <Text style={styles.buttonText}>Media Library</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.button, styles.pickButton]} onPress={pickFromFiles}>
+                  <Text style={styles.buttonText}>Files</Text>
+                </TouchableOpacity>
+              </View>
+
+              {source && (
+                <>
+                  <Text style={styles.sourceText}>
+                    🎞 {source.name}{source.durationMs ? ` · ${formatDuration(source.durationMs)}` : ''}
+                  </Text>
+
+                  <Text style={styles.label}>Session name</Text>
+                  <TextInput style={styles.input} value={name} onChangeText={setName} />
+
+                  <Text style={styles.label}>Site</Text>
+                  <TextInput style={styles.input} value={site} onChangeText={setSite} />
+
+                  <Text style={styles.label}>Recording started (YYYY-MM-DD HH:MM:SS)</Text>
+                  <TextInput style={styles.input} value={recordedAt} onChangeText={setRecordedAt} />
+
+                  <Text style={styles.label}>Frames analyzed per second of video</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={sampleFps}
+                    onChangeText={setSampleFps}
+                    keyboardType="decimal-pad"
+                  />
+                </>
+              )}
+            </>
+          )}
+
+          {progress && (
+            <View style={styles.progressContainer}>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${percent ?? 0}%` }]} />
+              </View>
+              <Text style={styles.progressText}>
+                {formatDuration(progress.positionMs)}
+                {progress.durationMs ? ` / ${formatDuration(progress.durationMs)}` : ''}
+                {percent !== null ? ` (${percent}%)` : ''}
+              </Text>
+              <Text style={styles.progressText}>
+                {progress.framesProcessed} frames · {progress.vehiclesCounted} vehicles counted
+              </Text>
+              {progress.state === 'paused' && <Text style={styles.stateText}>⏸ Paused</Text>}
+              {progress.state === 'completed' && <Text style={styles.stateText}>✅ Finished — results are in the new session</Text>}
+              {progress.state === 'cancelled' && <Text style={styles.stateText}>⏹ Cancelled — partial results are in the session</Text>}
+              {progress.state === 'failed' && <Text style={styles.errorText}>⚠️ {progress.error}</Text>}
+            </View>
+          )}
+
+          <View style={styles.buttonRow}>
+            {isRunning ? (
+              <>
+                <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={cancelAnalysis}>
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                {progress?.state === 'paused' ? (
+                  <TouchableOpacity style={[styles.button, styles.startButton]} onPress={() => jobRef.current?.resume()}>
+                    <Text style={styles.buttonText}>Resume</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity style={[styles.button, styles.pauseButton]} onPress={() => jobRef.current?.pause()}>
+                    <Text style={styles.buttonText}>Pause</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            ) : (
+              <>
+                <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={close}>
+                  <Text style={styles.buttonText}>Close</Text>
+                </TouchableOpacity>
+                {source && !progress && (
+                  <TouchableOpacity style={[styles.button, styles.startButton]} onPress={startAnalysis}>
+                    <Text style={styles.buttonText}>Analyze</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+  },
+  sourceText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginVertical: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 12,
+  },
+  progressContainer: {
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  stateText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#F44336',
+    marginTop: 6,
+  },
+  pickRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+    marginBottom: 30,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  pickButton: {
+    backgroundColor: '#2196F3',
+  },
+  closeButton: {
+    backgroundColor: '#9E9E9E',
+  },
+  cancelButton: {
+    backgroundColor: '#FF5722',
+  },
+  pauseButton: {
+    backgroundColor: '#FF9800',
+  },
+  startButton: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
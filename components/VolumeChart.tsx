@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { G, Line, Rect, Text as SvgText } from 'react-native-svg';
+import { VolumeBin } from '@/services/TrafficAggregator';
+import { VehicleTaxonomy } from '@/services/VehicleClasses';
+
+interface VolumeChartProps {
+  bins: VolumeBin[];
+  taxonomy: VehicleTaxonomy;
+  classColors: { [classId: string]: string };
+}
+
+const CHART_HEIGHT = 160;
+const AXIS_WIDTH = 32;
+const LABEL_HEIGHT = 18;
+
+const formatClock = (date: Date): string => {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// Stacked bars of each class per bin; tap a bar to read its counts
+export default function VolumeChart({ bins, taxonomy, classColors }: VolumeChartProps) {
+  const [width, setWidth] = useState(0);
+  const [selectedStart, setSelectedStart] = useState<number | null>(null);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const plotHeight = CHART_HEIGHT - LABEL_HEIGHT;
+  const maxTotal = Math.max(1, ...bins.map(bin => bin.classCounts.total));
+  const slot = bins.length > 0 ? plotWidth / bins.length : 0;
+  const barWidth = Math.max(slot * 0.8, 1);
+  const selected = bins.find(bin => bin.start.getTime() === selectedStart);
+
+  const describe = (bin: VolumeBin): string => {
+    const breakdown = taxonomy.classes
+      .filter(entry => bin.classCounts.byClass[entry.id] > 0)
+      .map(entry => `${entry.label} ${bin.classCounts.byClass[entry.id]}`)
+      .join(', ');
+    return `${formatClock(bin.start)}–${formatClock(bin.end)} · ${bin.classCounts.total} vehicles` +
+      (breakdown ? `\n${breakdown}` : '');
+  };
+
+  return (
+    <View onLayout={onLayout}>
+      {width > 0 && (
+        <Svg width={width} height={CHART_HEIGHT}>
+          <SvgText x={AXIS_WIDTH - 4} y={10} fontSize={10} fill="#999" textAnchor="end">{maxTotal}</SvgText>
+          <SvgText x={AXIS_WIDTH - 4} y={plotHeight} fontSize={10} fill="#999" textAnchor="end">0</SvgText>
+          <Line x1={AXIS_WIDTH} y1={plotHeight} x2={width} y2={plotHeight} stroke="#ddd" strokeWidth={1} />
+          {bins.map((bin, index) => {
+            const x = AXIS_WIDTH + index * slot + (slot - barWidth) / 2;
+            const isSelected = bin.start.getTime() === selectedStart;
+            let top = plotHeight;
+            return (
+              <G key={bin.start.getTime()} opacity={selected && !isSelected ? 0.4 : 1}>
+                {taxonomy.classes.map(entry => {
+                  const height = (bin.classCounts.byClass[entry.id] / maxTotal) * (plotHeight - 4);
+                  if (height <= 0) return null;
+                  top -= height;
+                  return <Rect key={entry.id} x={x} y={top} width={barWidth} height={height} fill={classColors[entry.id]} />;
+                })}
+                {/* Full-height target so empty and short bars can be tapped too */}
+                <Rect
+                  x={AXIS_WIDTH + index * slot}
+                  y={0}
+                  width={slot}
+                  height={plotHeight}
+                  fill="transparent"
+                  onPress={() => setSelectedStart(isSelected ? null : bin.start.getTime())}
+                />
+              </G>
+            );
+          })}
+          {bins.length > 0 && (
+            <>
+              <SvgText x={AXIS_WIDTH} y={CHART_HEIGHT - 4} fontSize={10} fill="#999">
+                {formatClock(bins[0].start)}
+              </SvgText>
+              <SvgText x={width} y={CHART_HEIGHT - 4} fontSize={10} fill="#999" textAnchor="end">
+                {formatClock(bins[bins.length - 1].end)}
+              </SvgText>
+            </>
+          )}
+        </Svg>
+      )}
+      <Text style={styles.detail}>{selected ? describe(selected) : 'Tap a bar for its counts'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  detail: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
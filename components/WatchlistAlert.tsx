@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { displayPlate } from '@/services/PlatePrivacy';
+import { WatchlistHit, WatchlistPriority } from '@/services/PlateWatchlist';
+
+interface WatchlistAlertProps {
+  hit: WatchlistHit;
+  onDismiss: () => void;
+}
+
+const getPriorityColor = (priority: WatchlistPriority): string => {
+  switch (priority) {
+    case WatchlistPriority.HIGH: return '#D32F2F';
+    case WatchlistPriority.MEDIUM: return '#F57C00';
+    default: return '#1976D2';
+  }
+};
+
+export default function WatchlistAlert({ hit, onDismiss }: WatchlistAlertProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.banner, { backgroundColor: getPriorityColor(hit.entry.priority) }]}
+      onPress={onDismiss}
+      activeOpacity={0.8}
+    >
+      {hit.snapshotUri ? (
+        <Image source={{ uri: hit.snapshotUri }} style={styles.snapshot} />
+      ) : (
+        <View style={[styles.snapshot, styles.noSnapshot]}>
+          <Text style={styles.noSnapshotText}>📷</Text>
+        </View>
+      )}
+      <View style={styles.details}>
+        <Text style={styles.title}>🚨 Watchlist {hit.entry.priority.toUpperCase()}</Text>
+        <Text style={styles.plate}>{hit.entry.plate}</Text>
+        {hit.entry.label ? <Text style={styles.text}>{hit.entry.label}</Text> : null}
+        <Text style={styles.text}>
+          {hit.exact ? 'Exact read' : hit.plateRead ? `Read as ${displayPlate(hit.plateRead)}` : 'Close read'} · {hit.vehicleType} · {hit.timestamp.toLocaleTimeString()}
+        </Text>
+        <Text style={styles.dismissText}>Tap to dismiss</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 50,
+    left: 10,
+    right: 10,
+    flexDirection: 'row',
+    padding: 10,
+    borderRadius: 8,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+  },
+  snapshot: {
+    width: 80,
+    height: 80,
+    borderRadius: 6,
+    marginRight: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  noSnapshot: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  noSnapshotText: {
+    fontSize: 24,
+  },
+  details: {
+    flex: 1,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  plate: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  dismissText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, View, Text, Image, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { displayPlate } from '@/services/PlatePrivacy';
+import { WatchlistEntry, WatchlistHit, WatchlistPriority } from '@/services/PlateWatchlist';
+import WatchlistService from '@/services/WatchlistService';
+
+interface WatchlistPanelProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Long lists are only previewed; matching always uses the whole list
+const MAX_LISTED_ENTRIES = 50;
+
+const getPriorityColor = (priority: WatchlistPriority): string => {
+  switch (priority) {
+    case WatchlistPriority.HIGH: return '#D32F2F';
+    case WatchlistPriority.MEDIUM: return '#F57C00';
+    default: return '#1976D2';
+  }
+};
+
+export default function WatchlistPanel({ visible, onClose }: WatchlistPanelProps) {
+  const [entries, setEntries] = useState<WatchlistEntry[]>(WatchlistService.getEntries());
+  const [hits, setHits] = useState<WatchlistHit[]>([]);
+  const [tab, setTab] = useState<'list' | 'hits'>('list');
+
+  const refresh = useCallback(async () => {
+    try {
+      await WatchlistService.load();
+      setEntries(WatchlistService.getEntries());
+      setHits(await WatchlistService.getHits());
+    } catch (error) {
+      console.error('Failed to load watchlist:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      refresh();
+    }
+  }, [visible, refresh]);
+
+  useEffect(() => {
+    return WatchlistService.subscribe(hit => setHits(current => [hit, ...current]));
+  }, []);
+
+  const importList = async (replace: boolean) => {
+    try {
+      const result = await WatchlistService.importFile(replace);
+      if (!result) return;
+      setEntries(WatchlistService.getEntries());
+
+      const skipped = result.errors.length > 0
+        ? `\n\n${result.errors.length} rows skipped:\n${result.errors.slice(0, 5).join('\n')}`
+        : '';
+      Alert.alert(
+        'Watchlist Imported',
+        `${result.entries.length} plates read from ${result.fileName}; ${result.total} on the list${skipped}`
+      );
+    } catch (error) {
+      console.error('Watchlist import error:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unable to import watchlist');
+    }
+  };
+
+  const chooseImport = () => {
+    if (entries.length === 0) {
+      importList(true);
+      return;
+    }
+    Alert.alert('Import Watchlist', 'Add the file to the current list, or replace it?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Add', onPress: () => importList(false) },
+      { text: 'Replace', style: 'destructive', onPress: () => importList(true) },
+    ]);
+  };
+
+  const clearList = () => {
+    Alert.alert('Clear Watchlist', 'Remove every plate from the watchlist? The hit log is kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await WatchlistService.clear();
+            setEntries([]);
+          } catch (error) {
+            console.error('Failed to clear watchlist:', error);
+            Alert.alert('Error', 'Unable to clear the watchlist');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Plate Watchlist</Text>
+
+          <View style={styles.tabs}>
+            <TouchableOpacity style={[styles.tab, tab === 'list' && styles.activeTab]} onPress={() => setTab('list')}>
+              <Text style={[styles.tabText, tab === 'list' && styles.activeTabText]}>Plates ({entries.length})</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.tab, tab === 'hits' && styles.activeTab]} onPress={() => setTab('hits')}>
+              <Text style={[styles.tabText, tab === 'hits' && styles.activeTabText]}>Hit Log ({hits.length})</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {tab === 'list' && (
+              entries.length === 0 ? (
+                <Text style={styles.hint}>
+                  Import a CSV (plate, label, priority) or JSON hotlist. Priority is low, medium or high.
+                  Reads are matched allowing for OCR mix-ups such as O/0, I/1 and B/8.
+                </Text>
+              ) : (
+                <>
+                  {entries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+                    <View key={entry.plate} style={styles.row}>
+                      <View style={[styles.priorityDot, { backgroundColor: getPriorityColor(entry.priority) }]} />
+                      <Text style={styles.plate}>{entry.plate}</Text>
+                      <Text style={styles.rowText} numberOfLines={1}>{entry.label}</Text>
+                    </View>
+                  ))}
+                  {entries.length > MAX_LISTED_ENTRIES && (
+                    <Text style={styles.hint}>…and {entries.length - MAX_LISTED_ENTRIES} more</Text>
+                  )}
+                </>
+              )
+            )}
+
+            {tab === 'hits' && (
+              hits.length === 0 ? (
+                <Text style={styles.hint}>No watchlist plates seen yet</Text>
+              ) : (
+                hits.map(hit => (
+                  <View key={hit.id} style={styles.hitRow}>
+                    {hit.snapshotUri ? (
+                      <Image source={{ uri: hit.snapshotUri }} style={styles.snapshot} />
+                    ) : (
+                      <View style={styles.snapshot} />
+                    )}
+                    <View style={styles.hitDetails}>
+                      <View style={styles.row}>
+                        <View style={[styles.priorityDot, { backgroundColor: getPriorityColor(hit.entry.priority) }]} />
+                        <Text style={styles.plate}>{hit.entry.plate}</Text>
+                        {!hit.exact && hit.plateRead ? <Text style={styles.rowText}>read {displayPlate(hit.plateRead)}</Text> : null}
+                      </View>
+                      {hit.entry.label ? <Text style={styles.rowText}>{hit.entry.label}</Text> : null}
+                      <Text style={styles.hitTime}>
+                        {hit.timestamp.toLocaleString()} · {hit.vehicleType}
+                        {hit.location && ` · ${hit.location.latitude.toFixed(5)}, ${hit.location.longitude.toFixed(5)}`}
+                      </Text>
+                    </View>
+                  </View>
+                ))
+              )
+            )}
+          </ScrollView>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onClose}>
+              <Text style={styles.buttonText}>Close</Text>
+            </TouchableOpacity>
+            {entries.length > 0 && (
+              <TouchableOpacity style={[styles.button, styles.clearButton]} onPress={clearList}>
+                <Text style={styles.buttonText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.button, styles.importButton]} onPress={chooseImport}>
+              <Text style={styles.buttonText}>Import</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#2196F3',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  activeTabText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  list: {
+    maxHeight: 400,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  priorityDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  plate: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#333',
+    letterSpacing: 1,
+    marginRight: 10,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  hitRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  snapshot: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    marginRight: 10,
+    backgroundColor: '#f0f0f0',
+  },
+  hitDetails: {
+    flex: 1,
+  },
+  hitTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+    marginBottom: 30,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  closeButton: {
+    backgroundColor: '#9E9E9E',
+  },
+  clearButton: {
+    backgroundColor: '#FF5722',
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
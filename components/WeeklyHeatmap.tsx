@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Text as SvgText } from 'react-native-svg';
+import { WeeklyProfileCell } from '@/services/TrafficAggregator';
+
+interface WeeklyHeatmapProps {
+  profile: WeeklyProfileCell[][];
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const LABEL_WIDTH = 30;
+const HEADER_HEIGHT = 14;
+const CELL_GAP = 1;
+
+const hourlyRate = (cell: WeeklyProfileCell): number | null => {
+  return cell.observedHours > 0 ? cell.count / cell.observedHours : null;
+};
+
+// Darker blue is more vehicles per surveyed hour
+const cellColor = (rate: number | null, maxRate: number): string => {
+  if (rate === null) return '#f0f0f0';
+  const intensity = maxRate > 0 ? rate / maxRate : 0;
+  return `rgba(33, 150, 243, ${0.08 + intensity * 0.92})`;
+};
+
+const pad = (hour: number): string => String(hour).padStart(2, '0');
+
+// Vehicles per surveyed hour by day of week and hour of day; tap a cell to read it
+export default function WeeklyHeatmap({ profile }: WeeklyHeatmapProps) {
+  const [width, setWidth] = useState(0);
+  const [selected, setSelected] = useState<{ day: number; hour: number } | null>(null);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const cellSize = Math.max((width - LABEL_WIDTH) / 24, 0);
+  const maxRate = Math.max(0, ...profile.flat().map(cell => hourlyRate(cell) ?? 0));
+  const selectedCell = selected ? profile[selected.day]?.[selected.hour] : undefined;
+
+  const describe = (cell: WeeklyProfileCell): string => {
+    const slot = `${DAY_LABELS[cell.day]} ${pad(cell.hour)}:00–${pad((cell.hour + 1) % 24)}:00`;
+    const rate = hourlyRate(cell);
+    if (rate === null) {
+      return cell.count > 0 ? `${slot} · ${cell.count} vehicles outside sessions` : `${slot} · not surveyed`;
+    }
+    return `${slot} · ${Math.round(rate)} vehicles/h · ${cell.count} vehicles in ${cell.observedHours.toFixed(1)} h surveyed`;
+  };
+
+  return (
+    <View onLayout={onLayout}>
+      {width > 0 && (
+        <Svg width={width} height={HEADER_HEIGHT + cellSize * 7}>
+          {[0, 6, 12, 18].map(hour => (
+            <SvgText key={hour} x={LABEL_WIDTH + hour * cellSize} y={10} fontSize={10} fill="#999">
+              {pad(hour)}
+            </SvgText>
+          ))}
+          {profile.map((row, day) => (
+            <React.Fragment key={day}>
+              <SvgText x={0} y={HEADER_HEIGHT + day * cellSize + cellSize * 0.7} fontSize={10} fill="#999">
+                {DAY_LABELS[day]}
+              </SvgText>
+              {row.map(cell => {
+                const isSelected = selected?.day === cell.day && selected.hour === cell.hour;
+                return (
+                  <Rect
+                    key={cell.hour}
+                    x={LABEL_WIDTH + cell.hour * cellSize}
+                    y={HEADER_HEIGHT + day * cellSize}
+                    width={Math.max(cellSize - CELL_GAP, 0)}
+                    height={Math.max(cellSize - CELL_GAP, 0)}
+                    fill={cellColor(hourlyRate(cell), maxRate)}
+                    stroke={isSelected ? '#333' : 'none'}
+                    strokeWidth={isSelected ? 1.5 : 0}
+                    onPress={() => setSelected(isSelected ? null : { day: cell.day, hour: cell.hour })}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </Svg>
+      )}
+      <Text style={styles.detail}>
+        {selectedCell ? describe(selectedCell) : 'Tap a cell for its counts; grey hours were never surveyed'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  detail: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
@@ -24,3 +24,21 @@ export const Colors = {
     tabIconSelected: tintColorDark,
   },
 };
+
+// Series colors for charts, in class order; repeats after the last one
+export const ChartPalette = [
+  '#4CAF50',
+  '#FF9800',
+  '#F44336',
+  '#9C27B0',
+  '#2196F3',
+  '#607D8B',
+  '#795548',
+  '#00BCD4',
+  '#CDDC39',
+  '#E91E63',
+  '#3F51B5',
+  '#FFC107',
+  '#009688',
+  '#757575',
+];
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+/**
+ * Downloads a TF.js graph model (model.json and its weight shards) and prints the MD5 of every file
+ * in the form the EXPO_PUBLIC_*_MD5 variables expect: model.json=<md5>,group1-shard1of2.bin=<md5>,...
+ *
+ * Usage: npm run pin-model-hashes -- <model.json URL>
+ */
+
+const crypto = require("crypto");
+
+async function fetchBytes(url) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+const md5 = (bytes) => crypto.createHash("md5").update(bytes).digest("hex");
+
+async function main() {
+  const url = process.argv[2];
+  if (!url) {
+    console.error("Usage: npm run pin-model-hashes -- <model.json URL>");
+    process.exit(1);
+  }
+
+  // Shards are resolved next to model.json, keeping its query string, as the app does
+  const [baseUrl, query = ""] = url.split("?");
+  const urlPrefix = baseUrl.substring(0, baseUrl.lastIndexOf("/") + 1);
+  const urlSuffix = query ? `?${query}` : "";
+
+  const modelJson = await fetchBytes(url);
+  const hashes = [`model.json=${md5(modelJson)}`];
+  for (const group of JSON.parse(modelJson.toString("utf8")).weightsManifest) {
+    for (const path of group.paths) {
+      hashes.push(`${path}=${md5(await fetchBytes(urlPrefix + path + urlSuffix))}`);
+    }
+  }
+  console.log(hashes.join(","));
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+import { Point, segmentsIntersect, sideOfLine } from '@/services/geometry';
+import { VehicleCount, VehicleType } from '@/services/VehicleTypes';
+
+// Endpoints are normalized (0-1) frame coordinates. Side A is on the left when
+// looking from start towards end, side B on the right.
+export interface CountLine {
+  id: string;
+  name: string;
+  start: Point;
+  end: Point;
+}
+
+export enum CrossingDirection {
+  A_TO_B = 'A_TO_B',
+  B_TO_A = 'B_TO_A',
+}
+
+export interface LineCrossing {
+  sessionId?: string;
+  lineId: string;
+  trackId: string;
+  type: VehicleType;
+  direction: CrossingDirection;
+  timestamp: Date;
+}
+
+export interface LineCount {
+  lineId: string;
+  name: string;
+  [CrossingDirection.A_TO_B]: VehicleCount;
+  [CrossingDirection.B_TO_A]: VehicleCount;
+}
+
+export function findCrossing(line: CountLine, from: Point, to: Point): CrossingDirection | null {
+  if (!segmentsIntersect(from, to, line.start, line.end)) {
+    return null;
+  }
+  return sideOfLine(line.start, line.end, from) < 0
+    ? CrossingDirection.A_TO_B
+    : CrossingDirection.B_TO_A;
+}
+
+export function formatDirection(direction: CrossingDirection): string {
+  return direction === CrossingDirection.A_TO_B ? 'A→B' : 'B→A';
+}
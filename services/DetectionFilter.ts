@@ -0,0 +1,82 @@
+import { Detection } from '@/services/Detector';
+import { intersectionOverUnion } from '@/services/geometry';
+import { VehicleType } from '@/services/VehicleTypes';
+
+export enum NmsMode {
+  CLASS_AWARE = 'class_aware', // boxes only suppress boxes of the same class
+  CLASS_AGNOSTIC = 'class_agnostic', // any overlapping box is suppressed, e.g. a truck also read as a bus
+  OFF = 'off',
+}
+
+export interface DetectionFilterConfig {
+  confidenceThreshold: number; // used for classes without their own threshold
+  classThresholds: Partial<Record<VehicleType, number>>;
+  nmsMode: NmsMode;
+  nmsIouThreshold: number;
+  maxDetections: number;
+}
+
+export const DEFAULT_DETECTION_FILTER: DetectionFilterConfig = {
+  confidenceThreshold: 0.3,
+  classThresholds: {},
+  nmsMode: NmsMode.CLASS_AWARE,
+  nmsIouThreshold: 0.5,
+  maxDetections: 50,
+};
+
+export function thresholdFor(config: DetectionFilterConfig, type: VehicleType): number {
+  return config.classThresholds[type] ?? config.confidenceThreshold;
+}
+
+// Lowest threshold in use, so detectors can drop hopeless candidates before decoding further
+export function minimumThreshold(config: DetectionFilterConfig): number {
+  return Math.min(config.confidenceThreshold, ...Object.values(config.classThresholds));
+}
+
+// Returns a list of problems; empty when the config can be applied
+export function validateDetectionFilter(config: DetectionFilterConfig): string[] {
+  const errors: string[] = [];
+  const isProbability = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1;
+
+  if (!isProbability(config.confidenceThreshold)) {
+    errors.push('Confidence threshold must be between 0 and 1');
+  }
+  Object.entries(config.classThresholds).forEach(([type, threshold]) => {
+    if (!Object.values(VehicleType).includes(type as VehicleType)) {
+      errors.push(`Unknown vehicle type "${type}"`);
+    } else if (threshold === undefined || !isProbability(threshold)) {
+      errors.push(`Threshold for ${type} must be between 0 and 1`);
+    }
+  });
+  if (!Object.values(NmsMode).includes(config.nmsMode)) {
+    errors.push(`Unknown NMS mode "${config.nmsMode}"`);
+  }
+  if (!isProbability(config.nmsIouThreshold)) {
+    errors.push('NMS IoU threshold must be between 0 and 1');
+  }
+  if (!Number.isInteger(config.maxDetections) || config.maxDetections < 1) {
+    errors.push('Max detections must be a whole number of at least 1');
+  }
+  return errors;
+}
+
+// Per-class thresholds, then greedy NMS in descending score order, then the cap
+export function filterDetections(detections: Detection[], config: DetectionFilterConfig): Detection[] {
+  const candidates = detections
+    .filter(detection => detection.confidence > thresholdFor(config, detection.type))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const kept: Detection[] = [];
+  for (const candidate of candidates) {
+    if (kept.length >= config.maxDetections) break;
+
+    const suppressed = config.nmsMode !== NmsMode.OFF && kept.some(other =>
+      (config.nmsMode === NmsMode.CLASS_AGNOSTIC || other.type === candidate.type) &&
+      intersectionOverUnion(other.bbox, candidate.bbox) > config.nmsIouThreshold
+    );
+    if (!suppressed) {
+      kept.push(candidate);
+    }
+  }
+  return kept;
+}
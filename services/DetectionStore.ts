@@ -0,0 +1,813 @@
+import * as SQLite from 'expo-sqlite';
+import { CrossingDirection, LineCrossing } from '@/services/CountLines';
+import { PLATE_HASH_PREFIX } from '@/services/PlatePrivacy';
+import { WatchlistHit, WatchlistPriority } from '@/services/PlateWatchlist';
+import { CountingSession, SessionSummary } from '@/services/Sessions';
+import { SyncBatch, SyncBatchKind } from '@/services/Sync';
+import { BodyClass } from '@/services/VehicleClasses';
+import {
+  DetectedVehicle,
+  VehicleCount,
+  VehicleType,
+  createEmptyVehicleCount,
+} from '@/services/VehicleDetectionService';
+
+const DATABASE_NAME = 'vehicle-detections.db';
+
+// Applied in order; PRAGMA user_version records how many have run
+const MIGRATIONS: string[] = [
+  `CREATE TABLE detections (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    bbox_x REAL NOT NULL,
+    bbox_y REAL NOT NULL,
+    bbox_width REAL NOT NULL,
+    bbox_height REAL NOT NULL,
+    license_plate TEXT,
+    plate_confidence REAL,
+    plate_char_confidences TEXT,
+    plate_region TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX detections_timestamp ON detections (timestamp);
+  CREATE INDEX detections_type_timestamp ON detections (type, timestamp);
+  CREATE TABLE line_crossings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    line_id TEXT NOT NULL,
+    track_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX line_crossings_line ON line_crossings (line_id, timestamp);`,
+  `CREATE TABLE sessions (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    site TEXT NOT NULL,
+    operator TEXT NOT NULL,
+    notes TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER,
+    detector_mode TEXT NOT NULL,
+    thresholds TEXT NOT NULL,
+    count_lines TEXT NOT NULL,
+    regions TEXT NOT NULL
+  );
+  ALTER TABLE detections ADD COLUMN session_id TEXT;
+  ALTER TABLE line_crossings ADD COLUMN session_id TEXT;
+  CREATE INDEX detections_session_timestamp ON detections (session_id, timestamp);
+  CREATE INDEX line_crossings_session ON line_crossings (session_id, line_id);`,
+  `ALTER TABLE detections ADD COLUMN latitude REAL;
+  ALTER TABLE detections ADD COLUMN longitude REAL;
+  ALTER TABLE detections ADD COLUMN location_accuracy REAL;`,
+  // Unsplit body classes share their values with VehicleType, so older rows backfill from type
+  `ALTER TABLE detections ADD COLUMN body_class TEXT;
+  ALTER TABLE detections ADD COLUMN body_class_confidence REAL;
+  UPDATE detections SET body_class = type;`,
+  `ALTER TABLE detections ADD COLUMN speed_kmh REAL;
+  ALTER TABLE sessions ADD COLUMN speed_calibration TEXT;
+  ALTER TABLE sessions ADD COLUMN speed_limit_kmh REAL;`,
+  `CREATE TABLE watchlist_hits (
+    id TEXT PRIMARY KEY NOT NULL,
+    session_id TEXT,
+    detection_id TEXT NOT NULL,
+    vehicle_type TEXT NOT NULL,
+    plate_read TEXT NOT NULL,
+    plate_confidence REAL,
+    watch_plate TEXT NOT NULL,
+    label TEXT NOT NULL,
+    priority TEXT NOT NULL,
+    exact INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    latitude REAL,
+    longitude REAL,
+    snapshot_uri TEXT
+  );
+  CREATE INDEX watchlist_hits_timestamp ON watchlist_hits (timestamp);`,
+  // sync_state holds how far each kind of data has been queued for upload
+  `CREATE TABLE sync_queue (
+    id TEXT PRIMARY KEY NOT NULL,
+    kind TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    item_count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL,
+    last_error TEXT
+  );
+  CREATE INDEX sync_queue_created ON sync_queue (created_at);
+  CREATE TABLE sync_state (
+    key TEXT PRIMARY KEY NOT NULL,
+    value INTEGER NOT NULL
+  );`,
+  // speed_seq orders speeds recorded after a detection was stored, so they can be uploaded as they arrive;
+  // rejected marks batches the server refused outright, which are kept but no longer sent
+  `ALTER TABLE detections ADD COLUMN speed_seq INTEGER;
+  CREATE INDEX detections_speed_seq ON detections (speed_seq);
+  ALTER TABLE sync_queue ADD COLUMN rejected INTEGER NOT NULL DEFAULT 0;`,
+];
+
+export interface DetectionQuery {
+  sessionId?: string;
+  from?: Date;
+  to?: Date;
+  types?: VehicleType[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface BinnedCount {
+  binStart: number;
+  type: VehicleType;
+  bodyClass: BodyClass;
+  count: number;
+}
+
+interface DetectionRow {
+  id: string;
+  type: string;
+  confidence: number;
+  bbox_x: number;
+  bbox_y: number;
+  bbox_width: number;
+  bbox_height: number;
+  license_plate: string | null;
+  plate_confidence: number | null;
+  plate_char_confidences: string | null;
+  plate_region: string | null;
+  timestamp: number;
+  session_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  body_class: string;
+  body_class_confidence: number | null;
+  speed_kmh: number | null;
+}
+
+interface LineCrossingRow {
+  session_id: string | null;
+  line_id: string;
+  track_id: string;
+  type: string;
+  direction: string;
+  timestamp: number;
+}
+
+interface WatchlistHitRow {
+  id: string;
+  session_id: string | null;
+  detection_id: string;
+  vehicle_type: string;
+  plate_read: string;
+  plate_confidence: number | null;
+  watch_plate: string;
+  label: string;
+  priority: string;
+  exact: number;
+  timestamp: number;
+  latitude: number | null;
+  longitude: number | null;
+  snapshot_uri: string | null;
+}
+
+interface SyncBatchRow {
+  id: string;
+  kind: string;
+  session_id: string;
+  payload: string;
+  item_count: number;
+  created_at: number;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  name: string;
+  site: string;
+  operator: string;
+  notes: string;
+  started_at: number;
+  ended_at: number | null;
+  detector_mode: string;
+  thresholds: string;
+  count_lines: string;
+  regions: string;
+  speed_calibration: string | null;
+  speed_limit_kmh: number | null;
+}
+
+class DetectionStore {
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+
+    const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const currentVersion = version?.user_version ?? 0;
+    for (let i = currentVersion; i < MIGRATIONS.length; i++) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(MIGRATIONS[i]);
+        await db.execAsync(`PRAGMA user_version = ${i + 1}`);
+      });
+    }
+
+    this.db = db;
+    console.log('Detection store ready');
+  }
+
+  isReady(): boolean {
+    return this.db !== null;
+  }
+
+  async insertDetections(vehicles: DetectedVehicle[]): Promise<void> {
+    if (vehicles.length === 0) return;
+    const db = this.getDatabase();
+
+    await db.withTransactionAsync(async () => {
+      for (const vehicle of vehicles) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO detections (
+            id, type, confidence, bbox_x, bbox_y, bbox_width, bbox_height,
+            license_plate, plate_confidence, plate_char_confidences, plate_region, timestamp, session_id,
+            latitude, longitude, location_accuracy, body_class, body_class_confidence, speed_kmh
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          vehicle.id,
+          vehicle.type,
+          vehicle.confidence,
+          vehicle.bbox.x,
+          vehicle.bbox.y,
+          vehicle.bbox.width,
+          vehicle.bbox.height,
+          vehicle.licensePlate ?? null,
+          vehicle.licensePlateConfidence ?? null,
+          vehicle.licensePlateCharConfidences ? JSON.stringify(vehicle.licensePlateCharConfidences) : null,
+          vehicle.plateRegion ? JSON.stringify(vehicle.plateRegion) : null,
+          vehicle.timestamp.getTime(),
+          vehicle.sessionId ?? null,
+          vehicle.location?.latitude ?? null,
+          vehicle.location?.longitude ?? null,
+          vehicle.location?.accuracy ?? null,
+          vehicle.bodyClass,
+          vehicle.bodyClassConfidence ?? null,
+          vehicle.speedKmh ?? null
+        );
+      }
+    });
+  }
+
+  // Speeds are often only known after the vehicle was counted and stored
+  async updateSpeeds(speeds: { id: string; speedKmh: number }[]): Promise<void> {
+    if (speeds.length === 0) return;
+    const db = this.getDatabase();
+
+    await db.withTransactionAsync(async () => {
+      for (const { id, speedKmh } of speeds) {
+        await db.runAsync(
+          'UPDATE detections SET speed_kmh = ?, speed_seq = (SELECT COALESCE(MAX(speed_seq), 0) + 1 FROM detections) WHERE id = ?',
+          speedKmh,
+          id
+        );
+      }
+    });
+  }
+
+  async insertLineCrossings(crossings: LineCrossing[]): Promise<void> {
+    if (crossings.length === 0) return;
+    const db = this.getDatabase();
+
+    await db.withTransactionAsync(async () => {
+      for (const crossing of crossings) {
+        await db.runAsync(
+          'INSERT INTO line_crossings (session_id, line_id, track_id, type, direction, timestamp) VALUES (?, ?, ?, ?, ?, ?)',
+          crossing.sessionId ?? null,
+          crossing.lineId,
+          crossing.trackId,
+          crossing.type,
+          crossing.direction,
+          crossing.timestamp.getTime()
+        );
+      }
+    });
+  }
+
+  async queryDetections(query: DetectionQuery = {}): Promise<DetectedVehicle[]> {
+    const { clause, params } = this.buildWhereClause(query);
+    let sql = `SELECT * FROM detections ${clause} ORDER BY timestamp ASC`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(query.limit, query.offset ?? 0);
+    }
+
+    const rows = await this.getDatabase().getAllAsync<DetectionRow>(sql, params);
+    return rows.map(row => this.toDetectedVehicle(row));
+  }
+
+  async countDetections(query: DetectionQuery = {}): Promise<number> {
+    const { clause, params } = this.buildWhereClause(query);
+    const row = await this.getDatabase().getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM detections ${clause}`,
+      params
+    );
+    return row?.count ?? 0;
+  }
+
+  // Counts per type and body class in fixed bins aligned to multiples of binMs since the epoch
+  async getBinnedCounts(query: DetectionQuery, binMs: number): Promise<BinnedCount[]> {
+    const { clause, params } = this.buildWhereClause(query);
+    const rows = await this.getDatabase().getAllAsync<{ bin_start: number; type: string; body_class: string; count: number }>(
+      `SELECT (timestamp / ?) * ? AS bin_start, type, body_class, COUNT(*) AS count FROM detections ${clause}
+      GROUP BY bin_start, type, body_class ORDER BY bin_start ASC`,
+      [binMs, binMs, ...params]
+    );
+    return rows.map(row => ({
+      binStart: row.bin_start,
+      type: row.type as VehicleType,
+      bodyClass: row.body_class as BodyClass,
+      count: row.count,
+    }));
+  }
+
+  async getRecentDetections(sessionId: string, limit: number): Promise<DetectedVehicle[]> {
+    const rows = await this.getDatabase().getAllAsync<DetectionRow>(
+      'SELECT * FROM detections WHERE session_id = ? ORDER BY timestamp DESC LIMIT ?',
+      sessionId,
+      limit
+    );
+    return rows.reverse().map(row => this.toDetectedVehicle(row));
+  }
+
+  async getVehicleCount(sessionId: string): Promise<VehicleCount> {
+    const rows = await this.getDatabase().getAllAsync<{ type: string; count: number }>(
+      'SELECT type, COUNT(*) AS count FROM detections WHERE session_id = ? GROUP BY type',
+      sessionId
+    );
+
+    const count = createEmptyVehicleCount();
+    rows.forEach(row => {
+      count[row.type as VehicleType] = row.count;
+      count.total += row.count;
+    });
+    return count;
+  }
+
+  async getBodyClassCounts(sessionId: string): Promise<Partial<Record<BodyClass, number>>> {
+    const rows = await this.getDatabase().getAllAsync<{ body_class: string; count: number }>(
+      'SELECT body_class, COUNT(*) AS count FROM detections WHERE session_id = ? GROUP BY body_class',
+      sessionId
+    );
+
+    const counts: Partial<Record<BodyClass, number>> = {};
+    rows.forEach(row => {
+      counts[row.body_class as BodyClass] = row.count;
+    });
+    return counts;
+  }
+
+  async getSpeeds(sessionId: string): Promise<number[]> {
+    const rows = await this.getDatabase().getAllAsync<{ speed_kmh: number }>(
+      'SELECT speed_kmh FROM detections WHERE session_id = ? AND speed_kmh IS NOT NULL',
+      sessionId
+    );
+    return rows.map(row => row.speed_kmh);
+  }
+
+  async getLineCrossings(sessionId: string): Promise<LineCrossing[]> {
+    const rows = await this.getDatabase().getAllAsync<LineCrossingRow>(
+      `SELECT session_id, line_id, track_id, type, direction, timestamp FROM line_crossings
+      WHERE session_id = ? ORDER BY timestamp ASC`,
+      sessionId
+    );
+    return rows.map(row => ({
+      sessionId: row.session_id ?? undefined,
+      lineId: row.line_id,
+      trackId: row.track_id,
+      type: row.type as VehicleType,
+      direction: row.direction as CrossingDirection,
+      timestamp: new Date(row.timestamp),
+    }));
+  }
+
+  async getLineCrossingTotals(sessionId: string): Promise<{ lineId: string; direction: CrossingDirection; type: VehicleType; count: number }[]> {
+    const rows = await this.getDatabase().getAllAsync<{ line_id: string; direction: string; type: string; count: number }>(
+      `SELECT line_id, direction, type, COUNT(*) AS count FROM line_crossings
+      WHERE session_id = ? GROUP BY line_id, direction, type`,
+      sessionId
+    );
+    return rows.map(row => ({
+      lineId: row.line_id,
+      direction: row.direction as CrossingDirection,
+      type: row.type as VehicleType,
+      count: row.count,
+    }));
+  }
+
+  async insertWatchlistHit(hit: WatchlistHit): Promise<void> {
+    await this.getDatabase().runAsync(
+      `INSERT OR REPLACE INTO watchlist_hits (
+        id, session_id, detection_id, vehicle_type, plate_read, plate_confidence, watch_plate, label,
+        priority, exact, timestamp, latitude, longitude, snapshot_uri
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      hit.id,
+      hit.sessionId ?? null,
+      hit.detectionId,
+      hit.vehicleType,
+      hit.plateRead,
+      hit.plateConfidence ?? null,
+      hit.entry.plate,
+      hit.entry.label,
+      hit.entry.priority,
+      hit.exact ? 1 : 0,
+      hit.timestamp.getTime(),
+      hit.location?.latitude ?? null,
+      hit.location?.longitude ?? null,
+      hit.snapshotUri ?? null
+    );
+  }
+
+  async setWatchlistHitSnapshot(id: string, snapshotUri: string): Promise<void> {
+    await this.getDatabase().runAsync('UPDATE watchlist_hits SET snapshot_uri = ? WHERE id = ?', snapshotUri, id);
+  }
+
+  // Newest first
+  async getWatchlistHits(limit: number): Promise<WatchlistHit[]> {
+    const rows = await this.getDatabase().getAllAsync<WatchlistHitRow>(
+      'SELECT * FROM watchlist_hits ORDER BY timestamp DESC LIMIT ?',
+      limit
+    );
+    return rows.map(row => ({
+      id: row.id,
+      sessionId: row.session_id ?? undefined,
+      detectionId: row.detection_id,
+      vehicleType: row.vehicle_type as VehicleType,
+      plateRead: row.plate_read,
+      plateConfidence: row.plate_confidence ?? undefined,
+      entry: { plate: row.watch_plate, label: row.label, priority: row.priority as WatchlistPriority },
+      exact: row.exact === 1,
+      timestamp: new Date(row.timestamp),
+      location: row.latitude !== null && row.longitude !== null
+        ? { latitude: row.latitude, longitude: row.longitude }
+        : undefined,
+      snapshotUri: row.snapshot_uri ?? undefined,
+    }));
+  }
+
+  // Retention purges: each returns how many rows it removed or changed
+
+  async deleteDetectionsBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync('DELETE FROM detections WHERE timestamp < ?', before.getTime());
+    return result.changes;
+  }
+
+  async deleteLineCrossingsBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync('DELETE FROM line_crossings WHERE timestamp < ?', before.getTime());
+    return result.changes;
+  }
+
+  // Sessions that ended before the cutoff and have no detections left
+  async deleteEmptySessionsBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync(
+      `DELETE FROM sessions WHERE ended_at IS NOT NULL AND ended_at < ?
+      AND NOT EXISTS (SELECT 1 FROM detections WHERE detections.session_id = sessions.id)`,
+      before.getTime()
+    );
+    return result.changes;
+  }
+
+  async clearPlatesBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync(
+      `UPDATE detections SET license_plate = NULL, plate_confidence = NULL, plate_char_confidences = NULL
+      WHERE timestamp < ? AND license_plate IS NOT NULL`,
+      before.getTime()
+    );
+    return result.changes;
+  }
+
+  // Plate privacy: stored reads are brought up to a stricter mode when it is chosen
+
+  async clearAllPlates(): Promise<number> {
+    const result = await this.getDatabase().runAsync(
+      `UPDATE detections SET license_plate = NULL, plate_confidence = NULL, plate_char_confidences = NULL
+      WHERE license_plate IS NOT NULL`
+    );
+    return result.changes;
+  }
+
+  async getUnhashedPlates(): Promise<{ id: string; licensePlate: string }[]> {
+    const rows = await this.getDatabase().getAllAsync<{ id: string; license_plate: string }>(
+      'SELECT id, license_plate FROM detections WHERE license_plate IS NOT NULL AND license_plate NOT LIKE ?',
+      `${PLATE_HASH_PREFIX}%`
+    );
+    return rows.map(row => ({ id: row.id, licensePlate: row.license_plate }));
+  }
+
+  async replacePlates(plates: { id: string; licensePlate: string }[]): Promise<number> {
+    const db = this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      for (const plate of plates) {
+        await db.runAsync('UPDATE detections SET license_plate = ? WHERE id = ?', plate.licensePlate, plate.id);
+      }
+    });
+    return plates.length;
+  }
+
+  async getWatchlistSnapshotsBefore(before: Date): Promise<{ id: string; snapshotUri: string }[]> {
+    const rows = await this.getDatabase().getAllAsync<{ id: string; snapshot_uri: string }>(
+      'SELECT id, snapshot_uri FROM watchlist_hits WHERE timestamp < ? AND snapshot_uri IS NOT NULL',
+      before.getTime()
+    );
+    return rows.map(row => ({ id: row.id, snapshotUri: row.snapshot_uri }));
+  }
+
+  async clearWatchlistSnapshotsBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync(
+      'UPDATE watchlist_hits SET snapshot_uri = NULL WHERE timestamp < ? AND snapshot_uri IS NOT NULL',
+      before.getTime()
+    );
+    return result.changes;
+  }
+
+  async deleteWatchlistHitsBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync('DELETE FROM watchlist_hits WHERE timestamp < ?', before.getTime());
+    return result.changes;
+  }
+
+  // Queued uploads only hold data from before they were queued, rejected ones included
+  async deleteSyncBatchesBefore(before: Date): Promise<number> {
+    const result = await this.getDatabase().runAsync('DELETE FROM sync_queue WHERE created_at < ?', before.getTime());
+    return result.changes;
+  }
+
+  // A batch can be queued well after its detections were made, so plates are cleared by detection time
+  async clearQueuedPlatesBefore(before: Date): Promise<number> {
+    const db = this.getDatabase();
+    let changed = 0;
+    await db.withTransactionAsync(async () => {
+      const rows = await db.getAllAsync<{ id: string; payload: string }>(
+        'SELECT id, payload FROM sync_queue WHERE kind = ?',
+        SyncBatchKind.DETECTIONS
+      );
+      for (const row of rows) {
+        // Dates are ISO strings once serialized
+        const payload: { detections: (Omit<DetectedVehicle, 'timestamp'> & { timestamp: string })[] } = JSON.parse(row.payload);
+        let cleared = false;
+        payload.detections.forEach(detection => {
+          if (detection.licensePlate !== undefined && new Date(detection.timestamp) < before) {
+            detection.licensePlate = undefined;
+            detection.licensePlateConfidence = undefined;
+            detection.licensePlateCharConfidences = undefined;
+            cleared = true;
+          }
+        });
+        if (cleared) {
+          await db.runAsync('UPDATE sync_queue SET payload = ? WHERE id = ?', JSON.stringify(payload), row.id);
+          changed++;
+        }
+      }
+    });
+    return changed;
+  }
+
+  // Detections in insertion order after the given rowid, for queuing uploads
+  async getDetectionsAfterRow(rowId: number, limit: number): Promise<{ rowId: number; detection: DetectedVehicle }[]> {
+    const rows = await this.getDatabase().getAllAsync<DetectionRow & { row_id: number }>(
+      'SELECT rowid AS row_id, * FROM detections WHERE rowid > ? ORDER BY rowid ASC LIMIT ?',
+      rowId,
+      limit
+    );
+    return rows.map(row => ({ rowId: row.row_id, detection: this.toDetectedVehicle(row) }));
+  }
+
+  // Speeds in the order they were recorded, with the rowid of their detection
+  async getSpeedsAfter(
+    seq: number,
+    limit: number
+  ): Promise<{ seq: number; rowId: number; id: string; sessionId: string | null; speedKmh: number }[]> {
+    const rows = await this.getDatabase().getAllAsync<{
+      speed_seq: number;
+      row_id: number;
+      id: string;
+      session_id: string | null;
+      speed_kmh: number;
+    }>(
+      `SELECT speed_seq, rowid AS row_id, id, session_id, speed_kmh FROM detections
+      WHERE speed_seq > ? ORDER BY speed_seq ASC LIMIT ?`,
+      seq,
+      limit
+    );
+    return rows.map(row => ({
+      seq: row.speed_seq,
+      rowId: row.row_id,
+      id: row.id,
+      sessionId: row.session_id,
+      speedKmh: row.speed_kmh,
+    }));
+  }
+
+  async getSyncMark(key: string): Promise<number | null> {
+    const row = await this.getDatabase().getFirstAsync<{ value: number }>('SELECT value FROM sync_state WHERE key = ?', key);
+    return row?.value ?? null;
+  }
+
+  // Queues the batch and moves the mark in one transaction, so nothing is queued twice or skipped
+  async enqueueSyncBatch(batch: SyncBatch | null, mark: { key: string; value: number }): Promise<void> {
+    const db = this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      if (batch) {
+        await db.runAsync(
+          `INSERT OR IGNORE INTO sync_queue (
+            id, kind, session_id, payload, item_count, created_at, attempts, next_attempt_at, last_error
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          batch.id,
+          batch.kind,
+          batch.sessionId,
+          batch.payload,
+          batch.itemCount,
+          batch.createdAt.getTime(),
+          batch.attempts,
+          batch.nextAttemptAt.getTime(),
+          batch.lastError ?? null
+        );
+      }
+      await db.runAsync('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', mark.key, mark.value);
+    });
+  }
+
+  // Oldest first; batches are sent in the order they were queued
+  async getSyncBatches(limit: number): Promise<SyncBatch[]> {
+    const rows = await this.getDatabase().getAllAsync<SyncBatchRow>(
+      'SELECT * FROM sync_queue WHERE rejected = 0 ORDER BY created_at ASC, rowid ASC LIMIT ?',
+      limit
+    );
+    return rows.map(row => ({
+      id: row.id,
+      kind: row.kind as SyncBatchKind,
+      sessionId: row.session_id,
+      payload: row.payload,
+      itemCount: row.item_count,
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastError: row.last_error ?? undefined,
+    }));
+  }
+
+  async getSyncQueueSize(): Promise<{ batches: number; items: number; rejected: number }> {
+    const row = await this.getDatabase().getFirstAsync<{ batches: number | null; items: number | null; rejected: number | null }>(
+      `SELECT SUM(rejected = 0) AS batches, SUM(CASE WHEN rejected = 0 THEN item_count ELSE 0 END) AS items,
+      SUM(rejected) AS rejected FROM sync_queue`
+    );
+    return { batches: row?.batches ?? 0, items: row?.items ?? 0, rejected: row?.rejected ?? 0 };
+  }
+
+  async deleteSyncBatch(id: string): Promise<void> {
+    await this.getDatabase().runAsync('DELETE FROM sync_queue WHERE id = ?', id);
+  }
+
+  async recordSyncFailure(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await this.getDatabase().runAsync(
+      'UPDATE sync_queue SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+      attempts,
+      nextAttemptAt.getTime(),
+      error,
+      id
+    );
+  }
+
+  // Kept for inspection on the device; the rest of the queue carries on without it
+  async rejectSyncBatch(id: string, error: string): Promise<void> {
+    await this.getDatabase().runAsync('UPDATE sync_queue SET rejected = 1, last_error = ? WHERE id = ?', error, id);
+  }
+
+  async saveSession(session: CountingSession): Promise<void> {
+    await this.getDatabase().runAsync(
+      `INSERT OR REPLACE INTO sessions (
+        id, name, site, operator, notes, started_at, ended_at,
+        detector_mode, thresholds, count_lines, regions, speed_calibration, speed_limit_kmh
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      session.id,
+      session.name,
+      session.site,
+      session.operator,
+      session.notes,
+      session.startedAt.getTime(),
+      session.endedAt?.getTime() ?? null,
+      session.detectorMode,
+      JSON.stringify(session.thresholds),
+      JSON.stringify(session.countLines),
+      JSON.stringify(session.regions),
+      session.speedCalibration ? JSON.stringify(session.speedCalibration) : null,
+      session.speedLimitKmh
+    );
+  }
+
+  async getSession(id: string): Promise<CountingSession | null> {
+    const row = await this.getDatabase().getFirstAsync<SessionRow>('SELECT * FROM sessions WHERE id = ?', id);
+    return row ? this.toSession(row) : null;
+  }
+
+  // Most recently started session that was never ended, e.g. after a crash
+  async getOpenSession(): Promise<CountingSession | null> {
+    const row = await this.getDatabase().getFirstAsync<SessionRow>(
+      'SELECT * FROM sessions WHERE ended_at IS NULL ORDER BY started_at DESC LIMIT 1'
+    );
+    return row ? this.toSession(row) : null;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const rows = await this.getDatabase().getAllAsync<SessionRow & { vehicle_total: number }>(
+      `SELECT sessions.*, COUNT(detections.id) AS vehicle_total
+      FROM sessions LEFT JOIN detections ON detections.session_id = sessions.id
+      GROUP BY sessions.id
+      ORDER BY sessions.started_at DESC`
+    );
+    return rows.map(row => ({ ...this.toSession(row), vehicleTotal: row.vehicle_total }));
+  }
+
+  private getDatabase(): SQLite.SQLiteDatabase {
+    if (!this.db) {
+      throw new Error('Detection store not initialized');
+    }
+    return this.db;
+  }
+
+  private buildWhereClause(query: DetectionQuery): { clause: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.from) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query.to) {
+      conditions.push('timestamp < ?');
+      params.push(query.to.getTime());
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private toDetectedVehicle(row: DetectionRow): DetectedVehicle {
+    return {
+      id: row.id,
+      type: row.type as VehicleType,
+      bodyClass: row.body_class as BodyClass,
+      bodyClassConfidence: row.body_class_confidence ?? undefined,
+      speedKmh: row.speed_kmh ?? undefined,
+      confidence: row.confidence,
+      bbox: {
+        x: row.bbox_x,
+        y: row.bbox_y,
+        width: row.bbox_width,
+        height: row.bbox_height,
+      },
+      licensePlate: row.license_plate ?? undefined,
+      licensePlateConfidence: row.plate_confidence ?? undefined,
+      licensePlateCharConfidences: row.plate_char_confidences ? JSON.parse(row.plate_char_confidences) : undefined,
+      plateRegion: row.plate_region ? JSON.parse(row.plate_region) : undefined,
+      timestamp: new Date(row.timestamp),
+      sessionId: row.session_id ?? undefined,
+      location: row.latitude !== null && row.longitude !== null
+        ? { latitude: row.latitude, longitude: row.longitude, accuracy: row.location_accuracy ?? undefined }
+        : undefined,
+    };
+  }
+
+  private toSession(row: SessionRow): CountingSession {
+    return {
+      id: row.id,
+      name: row.name,
+      site: row.site,
+      operator: row.operator,
+      notes: row.notes,
+      startedAt: new Date(row.started_at),
+      endedAt: row.ended_at !== null ? new Date(row.ended_at) : undefined,
+      detectorMode: row.detector_mode as CountingSession['detectorMode'],
+      thresholds: JSON.parse(row.thresholds),
+      countLines: JSON.parse(row.count_lines),
+      regions: JSON.parse(row.regions),
+      speedCalibration: row.speed_calibration ? JSON.parse(row.speed_calibration) : null,
+      speedLimitKmh: row.speed_limit_kmh,
+    };
+  }
+}
+
+export default new DetectionStore();
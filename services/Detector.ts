@@ -0,0 +1,59 @@
+import * as tf from '@tensorflow/tfjs';
+import type { NmsMode } from '@/services/DetectionFilter';
+import { BoundingBox } from '@/services/geometry';
+import { ModelInfo } from '@/services/ModelCache';
+import { VehicleType } from '@/services/VehicleTypes';
+
+export enum DetectorId {
+  SSD_MOBILENET = 'ssd_mobilenet',
+  YOLO = 'yolo',
+  SIMULATION = 'simulation',
+}
+
+export interface Detection {
+  type: VehicleType;
+  className: string; // label from the model's own class list
+  confidence: number;
+  bbox: BoundingBox; // normalized (0-1) frame coordinates
+  // Only set by detectors that read plates themselves; model detectors leave it to the plate recognizer
+  plate?: { text: string; charConfidences: number[] };
+}
+
+// Model label to vehicle type; labels that are not listed are ignored
+export type ClassMap = { [className: string]: VehicleType };
+
+export const DEFAULT_CLASS_MAP: ClassMap = {
+  bicycle: VehicleType.BICYCLE,
+  car: VehicleType.CAR,
+  motorcycle: VehicleType.MOTORCYCLE,
+  bus: VehicleType.BUS,
+  truck: VehicleType.TRUCK,
+};
+
+// Detectors may prune with these early; the service applies the full DetectionFilterConfig afterwards
+export interface DetectOptions {
+  scoreThreshold: number;
+  iouThreshold: number;
+  nmsMode: NmsMode; // detectors that run their own NMS follow this mode, so OFF means no suppression
+  maxDetections: number;
+  classMap: ClassMap;
+  inputSize: number; // square input side for models that accept any size
+}
+
+// A detector turns one frame into vehicle detections. Implementations own their
+// model, preprocessing and output decoding; the service only sees normalized boxes.
+export interface Detector {
+  readonly id: DetectorId;
+  readonly name: string;
+  // False for detectors that never look at pixels, so the frame is not decoded for them
+  readonly requiresImage: boolean;
+  load(): Promise<ModelInfo | null>;
+  isReady(): boolean;
+  detect(image: tf.Tensor3D | null, options: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
+
+// Maps a model label to the vehicle taxonomy; null for everything that is not a vehicle
+export function toVehicleType(className: string, classMap: ClassMap): VehicleType | null {
+  return Object.prototype.hasOwnProperty.call(classMap, className) ? classMap[className] : null;
+}
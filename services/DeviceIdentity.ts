@@ -0,0 +1,29 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+
+const DEVICE_ID_FILE = `${FileSystem.documentDirectory}device-id`;
+
+// A random ID made on first use, so servers can tell phones apart without any hardware identifier
+class DeviceIdentity {
+  private deviceId: Promise<string> | null = null;
+
+  getDeviceId(): Promise<string> {
+    this.deviceId ??= this.readOrCreate().catch(error => {
+      this.deviceId = null;
+      throw error;
+    });
+    return this.deviceId;
+  }
+
+  private async readOrCreate(): Promise<string> {
+    if ((await FileSystem.getInfoAsync(DEVICE_ID_FILE)).exists) {
+      return (await FileSystem.readAsStringAsync(DEVICE_ID_FILE)).trim();
+    }
+
+    const deviceId = Crypto.randomUUID();
+    await FileSystem.writeAsStringAsync(DEVICE_ID_FILE, deviceId);
+    return deviceId;
+  }
+}
+
+export default new DeviceIdentity();
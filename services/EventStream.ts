@@ -0,0 +1,94 @@
+import { DetectionEvent, DetectionEventType } from '@/services/VehicleDetectionService';
+
+export enum StreamTransport {
+  WEBSOCKET = 'websocket', // one JSON text message per event
+  MQTT = 'mqtt', // MQTT 3.1.1 over the broker's WebSocket listener, QoS 0
+}
+
+export interface StreamConfig {
+  enabled: boolean;
+  transport: StreamTransport;
+  url: string; // ws:// or wss://
+  topicPrefix: string; // MQTT only; events go to <prefix>/<deviceId>/<type>
+  username: string; // MQTT only; blank connects anonymously
+  password: string; // never included in shared settings profiles
+}
+
+export enum StreamState {
+  DISABLED = 'disabled',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  DISCONNECTED = 'disconnected', // waiting to reconnect
+}
+
+export interface StreamStatus {
+  state: StreamState;
+  sent: number;
+  queued: number; // events held while disconnected
+  dropped: number; // oldest held events dropped when the queue was full
+  lastError?: string;
+}
+
+// Every message has this shape; bump ENVELOPE_VERSION on incompatible changes
+export interface StreamEnvelope {
+  version: typeof ENVELOPE_VERSION;
+  type: DetectionEventType;
+  id: string; // unique per message, for de-duplication
+  deviceId: string;
+  sessionId: string | null;
+  sentAt: string;
+  data: object;
+}
+
+export const ENVELOPE_VERSION = 1;
+
+export const DEFAULT_STREAM: StreamConfig = {
+  enabled: false,
+  transport: StreamTransport.WEBSOCKET,
+  url: '',
+  topicPrefix: 'vehicle-detector',
+  username: '',
+  password: '',
+};
+
+// Returns a list of problems; empty when the config can be applied
+export function validateStreamConfig(config: StreamConfig): string[] {
+  const errors: string[] = [];
+  if (!Object.values(StreamTransport).includes(config.transport)) {
+    errors.push(`Unknown stream transport "${config.transport}"`);
+  }
+  if (config.enabled && !/^wss?:\/\/[^\s/]+/i.test(config.url.trim())) {
+    errors.push('Stream URL must be a ws:// or wss:// URL');
+  }
+  if (config.transport === StreamTransport.MQTT && !/^[^#+\s]+$/.test(config.topicPrefix.trim())) {
+    errors.push('MQTT topic prefix cannot be blank or contain #, + or spaces');
+  }
+  return errors;
+}
+
+export function buildEnvelope(event: DetectionEvent, id: string, deviceId: string, sentAt: Date): StreamEnvelope {
+  const envelope = { version: ENVELOPE_VERSION, type: event.type, id, deviceId, sentAt: sentAt.toISOString() } as const;
+  switch (event.type) {
+    case DetectionEventType.DETECTION:
+      return { ...envelope, sessionId: event.detection.sessionId ?? null, data: event.detection };
+    case DetectionEventType.LINE_CROSSING:
+      return { ...envelope, sessionId: event.crossing.sessionId ?? null, data: { ...event.crossing, lineName: event.lineName } };
+    case DetectionEventType.INTERVAL:
+      return {
+        ...envelope,
+        sessionId: event.sessionId,
+        data: {
+          start: event.interval.start,
+          end: event.interval.end,
+          taxonomy: event.taxonomy.id,
+          counts: event.interval.counts,
+          classCounts: event.interval.classCounts.byClass,
+          total: event.interval.classCounts.total,
+        },
+      };
+  }
+}
+
+export function topicFor(config: StreamConfig, envelope: StreamEnvelope): string {
+  return `${config.topicPrefix.trim().replace(/\/+$/, '')}/${envelope.deviceId}/${envelope.type}`;
+}
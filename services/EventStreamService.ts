@@ -0,0 +1,210 @@
+import * as Crypto from 'expo-crypto';
+import DeviceIdentity from '@/services/DeviceIdentity';
+import {
+  StreamConfig,
+  StreamEnvelope,
+  StreamState,
+  StreamStatus,
+  StreamTransport,
+  buildEnvelope,
+  topicFor,
+} from '@/services/EventStream';
+import { MqttClient } from '@/services/MqttClient';
+import SettingsService from '@/services/SettingsService';
+import { backoffDelay } from '@/services/Sync';
+import VehicleDetectionService, { DetectionEvent } from '@/services/VehicleDetectionService';
+
+export type StreamStatusListener = (status: StreamStatus) => void;
+
+// Events are held in memory while disconnected; a control room wants what is happening now
+const MAX_QUEUED_EVENTS = 500;
+
+interface Connection {
+  send(envelope: StreamEnvelope): void;
+  close(): void;
+}
+
+class EventStreamService {
+  private config: StreamConfig | null = null;
+  private connection: Connection | null = null;
+  private queue: StreamEnvelope[] = [];
+  private listeners = new Set<StreamStatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  // Bumped on every (re)configuration so callbacks of an old connection are ignored
+  private generation = 0;
+  private status: StreamStatus = { state: StreamState.DISABLED, sent: 0, queued: 0, dropped: 0 };
+
+  start(): void {
+    if (this.config) return;
+
+    this.configure(SettingsService.getSettings().stream);
+    SettingsService.subscribe(settings => {
+      if (JSON.stringify(settings.stream) !== JSON.stringify(this.config)) {
+        this.configure(settings.stream);
+      }
+    });
+    VehicleDetectionService.subscribe(event => {
+      this.publish(event).catch(error => console.error('Failed to publish event:', error));
+    });
+  }
+
+  getStatus(): StreamStatus {
+    return { ...this.status };
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: StreamStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private configure(config: StreamConfig): void {
+    this.config = config;
+    this.generation++;
+    this.disconnect();
+    this.queue = [];
+    this.failures = 0;
+
+    if (config.enabled) {
+      this.connect();
+    } else {
+      this.updateStatus({ state: StreamState.DISABLED, lastError: undefined });
+    }
+  }
+
+  private async publish(event: DetectionEvent): Promise<void> {
+    if (!this.config?.enabled) return;
+
+    const envelope = buildEnvelope(event, Crypto.randomUUID(), await DeviceIdentity.getDeviceId(), new Date());
+    if (this.connection && this.status.state === StreamState.CONNECTED) {
+      this.send(envelope);
+      return;
+    }
+
+    this.queue.push(envelope);
+    let dropped = this.status.dropped;
+    if (this.queue.length > MAX_QUEUED_EVENTS) {
+      dropped += this.queue.length - MAX_QUEUED_EVENTS;
+      this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+    }
+    this.updateStatus({ dropped });
+  }
+
+  private send(envelope: StreamEnvelope): void {
+    try {
+      this.connection?.send(envelope);
+      this.updateStatus({ sent: this.status.sent + 1 });
+    } catch (error) {
+      this.queue.unshift(envelope);
+      this.handleClose(this.generation, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const config = this.config;
+    if (!config) return;
+    const generation = this.generation;
+
+    this.updateStatus({ state: StreamState.CONNECTING });
+    try {
+      const connection = config.transport === StreamTransport.MQTT
+        ? await this.openMqtt(config, generation)
+        : await this.openWebSocket(config, generation);
+      if (generation !== this.generation) {
+        connection.close();
+        return;
+      }
+
+      this.connection = connection;
+      this.failures = 0;
+      this.updateStatus({ state: StreamState.CONNECTED, lastError: undefined });
+      console.log(`Streaming events to ${config.url}`);
+
+      const held = this.queue.splice(0);
+      held.forEach(envelope => this.send(envelope));
+    } catch (error) {
+      this.handleClose(generation, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Reconnects with the same backoff as uploads
+  private handleClose(generation: number, reason: string): void {
+    if (generation !== this.generation) return;
+
+    this.disconnect();
+    this.failures++;
+    const delay = backoffDelay(this.failures);
+    console.log(`Event stream disconnected (${reason}), reconnecting in ${Math.round(delay / 1000)} s`);
+    this.updateStatus({ state: StreamState.DISCONNECTED, lastError: reason });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.connection?.close();
+    this.connection = null;
+  }
+
+  private async openMqtt(config: StreamConfig, generation: number): Promise<Connection> {
+    const client = new MqttClient({
+      url: config.url.trim(),
+      clientId: `vehicle-detector-${(await DeviceIdentity.getDeviceId()).slice(0, 8)}`,
+      username: config.username.trim() || undefined,
+      password: config.password || undefined,
+    });
+    client.onClose = reason => this.handleClose(generation, reason);
+    await client.connect();
+    return {
+      send: envelope => client.publish(topicFor(config, envelope), JSON.stringify(envelope)),
+      close: () => client.close(),
+    };
+  }
+
+  private openWebSocket(config: StreamConfig, generation: number): Promise<Connection> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(config.url.trim());
+      let opened = false;
+      const connection: Connection = {
+        send: envelope => socket.send(JSON.stringify(envelope)),
+        close: () => {
+          socket.onclose = null;
+          socket.onerror = null;
+          socket.close();
+        },
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        resolve(connection);
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error('WebSocket error'));
+      };
+      socket.onclose = event => {
+        const reason = `WebSocket closed${event.reason ? `: ${event.reason}` : ` (${event.code})`}`;
+        if (opened) {
+          this.handleClose(generation, reason);
+        } else {
+          reject(new Error(reason));
+        }
+      };
+    });
+  }
+
+  private updateStatus(changes: Partial<StreamStatus>): void {
+    this.status = { ...this.status, ...changes, queued: this.queue.length };
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export default new EventStreamService();
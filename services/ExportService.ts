@@ -0,0 +1,265 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import DetectionStore from '@/services/DetectionStore';
+import PlatePrivacy from '@/services/PlatePrivacy';
+import RetentionService from '@/services/RetentionService';
+import SettingsService from '@/services/SettingsService';
+import TrafficAggregator from '@/services/TrafficAggregator';
+import { VehicleTaxonomy, classIdOf } from '@/services/VehicleClasses';
+import VehicleDetectionService, { DetectedVehicle } from '@/services/VehicleDetectionService';
+
+export enum ExportFormat {
+  JSON = 'json',
+  DETECTIONS_CSV = 'detections_csv',
+  INTERVAL_CSV = 'interval_csv',
+  GEOJSON = 'geojson',
+}
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  {
+    format: ExportFormat.JSON,
+    label: 'Full JSON',
+    description: 'Session, counts, line crossings and every detection',
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  {
+    format: ExportFormat.DETECTIONS_CSV,
+    label: 'Detections CSV',
+    description: 'One row per counted vehicle',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  {
+    format: ExportFormat.INTERVAL_CSV,
+    label: '15-minute Counts CSV',
+    description: 'Vehicle counts per class of the active scheme in 15-minute intervals',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  {
+    format: ExportFormat.GEOJSON,
+    label: 'GeoJSON',
+    description: 'Geotagged detections as points for GIS',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+  },
+];
+
+// Column order is part of the export contract; append new columns at the end only
+export const DETECTION_CSV_COLUMNS = [
+  'detection_id',
+  'session_id',
+  'timestamp',
+  'vehicle_type',
+  'confidence',
+  'bbox_x',
+  'bbox_y',
+  'bbox_width',
+  'bbox_height',
+  'license_plate',
+  'plate_confidence',
+  'latitude',
+  'longitude',
+  'body_class',
+  'body_class_confidence',
+  'vehicle_class', // class id in the scheme active when exporting
+  'speed_kmh',
+];
+
+// One count column per class of the taxonomy; the default scheme gives the vehicle type columns
+export function intervalCsvColumns(taxonomy: VehicleTaxonomy): string[] {
+  return [
+    'session_id',
+    'interval_start',
+    'interval_end',
+    ...taxonomy.classes.map(entry => entry.id),
+    'total',
+  ];
+}
+
+export const REPORT_INTERVAL_MINUTES = 15;
+const EXPORT_PAGE_SIZE = 1000;
+
+export interface ExportResult {
+  fileName: string;
+  fileUri: string;
+  shared: boolean;
+}
+
+function escapeCsv(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(values: (string | number | undefined | null)[]): string {
+  return values.map(escapeCsv).join(',');
+}
+
+class ExportService {
+  async exportSession(sessionId?: string, format: ExportFormat = ExportFormat.JSON): Promise<ExportResult> {
+    const targetSessionId = sessionId ?? VehicleDetectionService.getActiveSession()?.id;
+    if (!targetSessionId) {
+      throw new Error('No session to export');
+    }
+
+    const info = EXPORT_FORMATS.find(entry => entry.format === format);
+    if (!info) {
+      throw new Error(`Unknown export format ${format}`);
+    }
+    const data = await this.buildExport(targetSessionId, format);
+    // Session and time down to the millisecond, so no export overwrites an earlier one
+    const stamp = new Date().toISOString().slice(0, 23).replace(/[:.]/g, '');
+    const fileName = `vehicle_detection_${targetSessionId}_${stamp}_${format}.${info.extension}`;
+    const fileUri = FileSystem.documentDirectory + fileName;
+
+    await FileSystem.writeAsStringAsync(fileUri, data);
+    await this.recordExport(targetSessionId, format, fileName, fileUri);
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: info.mimeType,
+        dialogTitle: 'Export Vehicle Detection Data',
+      });
+      return { fileName, fileUri, shared: true };
+    }
+    return { fileName, fileUri, shared: false };
+  }
+
+  async buildExport(sessionId: string, format: ExportFormat): Promise<string> {
+    switch (format) {
+      case ExportFormat.DETECTIONS_CSV: return this.buildDetectionsCsv(sessionId);
+      case ExportFormat.INTERVAL_CSV: return this.buildIntervalCsv(sessionId);
+      case ExportFormat.GEOJSON: return this.buildGeoJson(sessionId);
+      default: return VehicleDetectionService.exportDetectionData(sessionId);
+    }
+  }
+
+  // Copies leave the app's control once shared, so retention purges report which exports predate them
+  private async recordExport(sessionId: string, format: ExportFormat, fileName: string, fileUri: string): Promise<void> {
+    try {
+      const exportedAt = new Date();
+      const session = await DetectionStore.getSession(sessionId);
+      await RetentionService.recordExport({
+        fileName,
+        fileUri,
+        format,
+        sessionId,
+        exportedAt,
+        dataFrom: session?.startedAt ?? exportedAt,
+        dataTo: session?.endedAt ?? exportedAt,
+        detections: await DetectionStore.countDetections({ sessionId }),
+        platePrivacy: SettingsService.getSettings().platePrivacy,
+      });
+    } catch (error) {
+      console.error('Failed to record export in manifest:', error);
+    }
+  }
+
+  // Plates are protected per the current privacy mode, whatever mode they were stored under
+  private async forEachDetection(sessionId: string, callback: (detection: DetectedVehicle) => void): Promise<void> {
+    const mode = SettingsService.getSettings().platePrivacy;
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const page = await DetectionStore.queryDetections({ sessionId, limit: EXPORT_PAGE_SIZE, offset });
+      await PlatePrivacy.protectVehicles(page, mode);
+      page.forEach(callback);
+      if (page.length < EXPORT_PAGE_SIZE) return;
+    }
+  }
+
+  private async buildDetectionsCsv(sessionId: string): Promise<string> {
+    const taxonomy = VehicleDetectionService.getTaxonomy();
+    const rows = [DETECTION_CSV_COLUMNS.join(',')];
+    await this.forEachDetection(sessionId, detection => {
+      rows.push(toCsvRow([
+        detection.id,
+        detection.sessionId,
+        detection.timestamp.toISOString(),
+        detection.type,
+        detection.confidence.toFixed(3),
+        detection.bbox.x.toFixed(1),
+        detection.bbox.y.toFixed(1),
+        detection.bbox.width.toFixed(1),
+        detection.bbox.height.toFixed(1),
+        detection.licensePlate,
+        detection.licensePlateConfidence?.toFixed(3),
+        detection.location?.latitude,
+        detection.location?.longitude,
+        detection.bodyClass,
+        detection.bodyClassConfidence?.toFixed(3),
+        classIdOf(taxonomy, detection.bodyClass),
+        detection.speedKmh?.toFixed(1),
+      ]));
+    });
+    return rows.join('\n') + '\n';
+  }
+
+  private async buildIntervalCsv(sessionId: string): Promise<string> {
+    const session = await DetectionStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    // Every interval of the session gets a row, including empty ones
+    const taxonomy = VehicleDetectionService.getTaxonomy();
+    const bins = await TrafficAggregator.getVolumeSeries({
+      sessionId,
+      from: session.startedAt,
+      to: session.endedAt ?? new Date(),
+      binMinutes: REPORT_INTERVAL_MINUTES,
+      taxonomy,
+    });
+
+    const rows = [intervalCsvColumns(taxonomy).join(',')];
+    bins.forEach(bin => {
+      rows.push(toCsvRow([
+        sessionId,
+        bin.start.toISOString(),
+        bin.end.toISOString(),
+        ...taxonomy.classes.map(entry => bin.classCounts.byClass[entry.id]),
+        bin.classCounts.total,
+      ]));
+    });
+    return rows.join('\n') + '\n';
+  }
+
+  private async buildGeoJson(sessionId: string): Promise<string> {
+    const taxonomy = VehicleDetectionService.getTaxonomy();
+    const features: object[] = [];
+    await this.forEachDetection(sessionId, detection => {
+      if (!detection.location) return;
+      features.push({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: [detection.location.longitude, detection.location.latitude],
+        },
+        properties: {
+          detection_id: detection.id,
+          session_id: detection.sessionId,
+          timestamp: detection.timestamp.toISOString(),
+          vehicle_type: detection.type,
+          body_class: detection.bodyClass,
+          vehicle_class: classIdOf(taxonomy, detection.bodyClass),
+          confidence: detection.confidence,
+          license_plate: detection.licensePlate ?? null,
+          speed_kmh: detection.speedKmh ?? null,
+          location_accuracy: detection.location.accuracy ?? null,
+        },
+      });
+    });
+
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+  }
+}
+
+export default new ExportService();
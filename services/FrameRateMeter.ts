@@ -0,0 +1,28 @@
+// Rolling frames-per-second over a short window, so the readout follows load changes quickly
+export class FrameRateMeter {
+  private timestamps: number[] = [];
+
+  constructor(private windowMs = 2000) {}
+
+  record(timestamp: number): void {
+    this.timestamps.push(timestamp);
+    this.prune(timestamp);
+  }
+
+  getFps(now: number): number {
+    this.prune(now);
+    if (this.timestamps.length < 2) return 0;
+    const span = this.timestamps[this.timestamps.length - 1] - this.timestamps[0];
+    return span > 0 ? ((this.timestamps.length - 1) * 1000) / span : 0;
+  }
+
+  reset(): void {
+    this.timestamps = [];
+  }
+
+  private prune(now: number): void {
+    while (this.timestamps.length > 0 && this.timestamps[0] < now - this.windowMs) {
+      this.timestamps.shift();
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import * as tf from '@tensorflow/tfjs';
+import { BoundingBox } from '@/services/geometry';
+import ModelCache, { ModelDescriptor, parsePinnedHashes } from '@/services/ModelCache';
+
+export interface PlateRead {
+  text: string;
+  confidence: number; // mean of the character confidences
+  charConfidences: number[];
+  region: BoundingBox; // normalized (0-1) frame coordinates
+}
+
+// Character classifier from the plate OCR training pipeline:
+// [n, 32, 32, 1] grayscale in [0, 1] -> [n, 36] class probabilities over PLATE_CHARACTERS.
+// It has no public host, so the model.json URL and its files' MD5s are supplied at build time.
+const PLATE_OCR_MODEL: ModelDescriptor = {
+  id: 'plate-ocr',
+  name: 'Plate OCR',
+  version: '1',
+  url: process.env.EXPO_PUBLIC_PLATE_OCR_MODEL_URL ?? '',
+  md5: parsePinnedHashes(process.env.EXPO_PUBLIC_PLATE_OCR_MODEL_MD5),
+};
+const PLATE_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const VEHICLE_CROP_SIZE = 160;
+const PLATE_WINDOW: [number, number] = [12, 48]; // height, width in crop pixels
+const PLATE_SEARCH_TOP = 0.4; // plates sit below the windscreen
+const MIN_EDGE_DENSITY = 0.08;
+
+const PLATE_IMAGE_HEIGHT = 32;
+const PLATE_IMAGE_WIDTH = 128;
+const CHARACTER_INPUT_SIZE = 32;
+const MIN_CHARACTER_WIDTH = 3;
+const MAX_CHARACTER_WIDTH = 28;
+const MIN_INK_PIXELS = 3;
+const MIN_PLATE_CHARACTERS = 4;
+const MAX_PLATE_CHARACTERS = 10;
+const MIN_LEGIBLE_CONFIDENCE = 0.4;
+
+export const LOW_CONFIDENCE_PLATE_THRESHOLD = 0.7;
+
+// A read is low confidence when any single character is doubtful
+export function isLowConfidencePlate(charConfidences?: number[]): boolean {
+  if (!charConfidences || charConfidences.length === 0) return true;
+  return Math.min(...charConfidences) < LOW_CONFIDENCE_PLATE_THRESHOLD;
+}
+
+class LicensePlateRecognizer {
+  private model: tf.GraphModel | null = null;
+
+  async initialize(): Promise<void> {
+    if (!PLATE_OCR_MODEL.url) {
+      console.log('No plate OCR model configured; license plate reading disabled');
+      return;
+    }
+
+    try {
+      console.log('Loading plate OCR model...');
+      const { model, info } = await ModelCache.load(PLATE_OCR_MODEL);
+      this.model = model;
+      console.log(`Plate OCR model v${info.version} loaded from ${info.source}`);
+    } catch (error) {
+      console.error('Failed to load plate OCR model:', error);
+      console.log('License plate reading disabled');
+      this.model = null;
+    }
+  }
+
+  isReady(): boolean {
+    return this.model !== null;
+  }
+
+  // vehicleBox is in normalized (0-1) coordinates of image
+  async recognize(image: tf.Tensor3D, vehicleBox: BoundingBox): Promise<PlateRead | null> {
+    if (!this.model) return null;
+
+    const model = this.model;
+    // Disposed however recognition ends
+    const tensors: tf.Tensor[] = [];
+    try {
+      const region = await this.locatePlate(image, vehicleBox);
+      if (!region) return null;
+
+      const characters = await this.segmentCharacters(image, region);
+      if (!characters) return null;
+      tensors.push(characters);
+
+      const probabilities = tf.tidy(() => model.predict(characters) as tf.Tensor2D);
+      tensors.push(probabilities);
+      const best = tf.tidy(() => probabilities.argMax(1));
+      tensors.push(best);
+      const bestScores = tf.tidy(() => probabilities.max(1));
+      tensors.push(bestScores);
+      const indices = await best.data();
+      const scores = await bestScores.data();
+
+      const charConfidences = Array.from(scores);
+      const text = Array.from(indices).map(index => PLATE_CHARACTERS.charAt(index)).join('');
+      const confidence = charConfidences.reduce((sum, score) => sum + score, 0) / charConfidences.length;
+
+      if (confidence < MIN_LEGIBLE_CONFIDENCE) return null;
+
+      return { text, confidence, charConfidences, region };
+    } catch (error) {
+      console.error('Plate recognition failed:', error);
+      return null;
+    } finally {
+      tensors.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  private async locatePlate(image: tf.Tensor3D, vehicleBox: BoundingBox): Promise<BoundingBox | null> {
+    // Plates are the densest patch of vertical edges on the lower half of a vehicle
+    const density = tf.tidy(() => {
+      const crop = tf.image.cropAndResize(
+        image.expandDims(0).toFloat() as tf.Tensor4D,
+        [[vehicleBox.y, vehicleBox.x, vehicleBox.y + vehicleBox.height, vehicleBox.x + vehicleBox.width]],
+        [0],
+        [VEHICLE_CROP_SIZE, VEHICLE_CROP_SIZE]
+      );
+      const gray = crop.mean(3, true).div(255) as tf.Tensor4D;
+      const size = VEHICLE_CROP_SIZE;
+      const horizontalGradient = gray
+        .slice([0, 0, 1, 0], [1, size, size - 1, 1])
+        .sub(gray.slice([0, 0, 0, 0], [1, size, size - 1, 1]))
+        .abs() as tf.Tensor4D;
+      return tf.avgPool(horizontalGradient, PLATE_WINDOW, [2, 2], 'valid');
+    });
+
+    const [, rows, cols] = density.shape;
+    let values: Float32Array | Int32Array | Uint8Array;
+    try {
+      values = await density.data();
+    } finally {
+      density.dispose();
+    }
+
+    let bestDensity = 0;
+    let bestRow = -1;
+    let bestCol = -1;
+    for (let row = Math.floor(rows * PLATE_SEARCH_TOP); row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const value = values[row * cols + col];
+        if (value > bestDensity) {
+          bestDensity = value;
+          bestRow = row;
+          bestCol = col;
+        }
+      }
+    }
+
+    if (bestDensity < MIN_EDGE_DENSITY) return null;
+
+    const scale = 1 / VEHICLE_CROP_SIZE;
+    return {
+      x: vehicleBox.x + bestCol * 2 * scale * vehicleBox.width,
+      y: vehicleBox.y + bestRow * 2 * scale * vehicleBox.height,
+      width: PLATE_WINDOW[1] * scale * vehicleBox.width,
+      height: PLATE_WINDOW[0] * scale * vehicleBox.height,
+    };
+  }
+
+  private async segmentCharacters(image: tf.Tensor3D, region: BoundingBox): Promise<tf.Tensor4D | null> {
+    const plate = tf.tidy(() => {
+      const crop = tf.image.cropAndResize(
+        image.expandDims(0).toFloat() as tf.Tensor4D,
+        [[region.y, region.x, region.y + region.height, region.x + region.width]],
+        [0],
+        [PLATE_IMAGE_HEIGHT, PLATE_IMAGE_WIDTH]
+      );
+      return crop.mean(3, true).div(255) as tf.Tensor4D;
+    });
+    let pixels: Float32Array;
+    try {
+      pixels = await plate.data() as Float32Array;
+    } catch (error) {
+      plate.dispose();
+      throw error;
+    }
+
+    // Binarize around the mean; characters are whichever polarity is the minority
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    const darkCount = pixels.reduce((count, value) => count + (value < mean ? 1 : 0), 0);
+    const darkInk = darkCount < pixels.length / 2;
+
+    // Column projection: runs of columns containing ink are character candidates
+    const segments: [number, number][] = [];
+    let segmentStart = -1;
+    for (let col = 0; col <= PLATE_IMAGE_WIDTH; col++) {
+      let ink = 0;
+      if (col < PLATE_IMAGE_WIDTH) {
+        for (let row = 0; row < PLATE_IMAGE_HEIGHT; row++) {
+          const value = pixels[row * PLATE_IMAGE_WIDTH + col];
+          if (darkInk ? value < mean : value > mean) ink++;
+        }
+      }
+
+      if (ink >= MIN_INK_PIXELS && segmentStart < 0) {
+        segmentStart = col;
+      } else if (ink < MIN_INK_PIXELS && segmentStart >= 0) {
+        const width = col - segmentStart;
+        if (width >= MIN_CHARACTER_WIDTH && width <= MAX_CHARACTER_WIDTH) {
+          segments.push([segmentStart, col]);
+        }
+        segmentStart = -1;
+      }
+    }
+
+    if (segments.length < MIN_PLATE_CHARACTERS || segments.length > MAX_PLATE_CHARACTERS) {
+      plate.dispose();
+      return null;
+    }
+
+    const characters = tf.tidy(() => {
+      const boxes = segments.map(([start, end]) => [0, start / PLATE_IMAGE_WIDTH, 1, end / PLATE_IMAGE_WIDTH]);
+      const crops = tf.image.cropAndResize(
+        plate,
+        boxes,
+        segments.map(() => 0),
+        [CHARACTER_INPUT_SIZE, CHARACTER_INPUT_SIZE]
+      );
+      // The classifier expects dark characters on a light background
+      return darkInk ? crops : tf.sub(1, crops) as tf.Tensor4D;
+    });
+    plate.dispose();
+
+    return characters;
+  }
+}
+
+export default new LicensePlateRecognizer();
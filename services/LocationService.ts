@@ -0,0 +1,48 @@
+import * as Location from 'expo-location';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // metres
+}
+
+class LocationService {
+  private subscription: Location.LocationSubscription | null = null;
+  private lastLocation: GeoLocation | null = null;
+
+  async start(): Promise<void> {
+    if (this.subscription) return;
+
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        console.log('Location permission denied - detections will not be geotagged');
+        return;
+      }
+
+      this.subscription = await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.Balanced, distanceInterval: 10 },
+        position => {
+          this.lastLocation = {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy ?? undefined,
+          };
+        }
+      );
+    } catch (error) {
+      console.error('Failed to start location updates:', error);
+    }
+  }
+
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  getLastKnownLocation(): GeoLocation | null {
+    return this.lastLocation ? { ...this.lastLocation } : null;
+  }
+}
+
+export default new LocationService();
@@ -0,0 +1,191 @@
+import * as tf from '@tensorflow/tfjs';
+import * as FileSystem from 'expo-file-system';
+
+export interface ModelDescriptor {
+  id: string; // directory name, stable across versions
+  name: string;
+  version: string;
+  url: string; // model.json, weight shards are resolved next to it
+  // Pinned MD5 of model.json and every weight shard; a file without one, or that does not match, fails the load
+  md5?: { [fileName: string]: string };
+}
+
+export type ModelSource = 'cache' | 'download';
+
+export interface ModelInfo {
+  name: string;
+  version: string;
+  source: ModelSource;
+}
+
+// Written after every file has been downloaded and hashed; its presence marks a complete cache
+interface CacheManifest {
+  version: string;
+  url: string;
+  files: { [fileName: string]: string };
+  downloadedAt: string;
+}
+
+const MODEL_ROOT = `${FileSystem.documentDirectory}models/`;
+const MODEL_FILE = 'model.json';
+const MANIFEST_FILE = 'cache-manifest.json';
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// Reads "model.json=<md5>,group1-shard1of1.bin=<md5>", as supplied for models hosted at build time
+export function parsePinnedHashes(text: string | undefined): ModelDescriptor['md5'] {
+  if (!text?.trim()) return undefined;
+
+  const hashes: { [fileName: string]: string } = {};
+  text.split(',').forEach(entry => {
+    const [fileName, md5] = entry.split('=').map(part => part.trim());
+    if (fileName && md5) {
+      hashes[fileName] = md5.toLowerCase();
+    }
+  });
+  return hashes;
+}
+
+class ModelCache {
+  // Loads from the on-device cache, downloading once if there is no valid copy yet
+  async load(descriptor: ModelDescriptor): Promise<{ model: tf.GraphModel; info: ModelInfo }> {
+    const directory = this.directoryFor(descriptor);
+    let source: ModelSource = 'cache';
+
+    if (!(await this.verify(directory, descriptor))) {
+      await this.download(descriptor, directory);
+      source = 'download';
+    }
+
+    const model = await this.loadFromDirectory(directory);
+    return { model, info: { name: descriptor.name, version: descriptor.version, source } };
+  }
+
+  async clear(descriptor: ModelDescriptor): Promise<void> {
+    await FileSystem.deleteAsync(`${MODEL_ROOT}${descriptor.id}/`, { idempotent: true });
+  }
+
+  private directoryFor(descriptor: ModelDescriptor): string {
+    return `${MODEL_ROOT}${descriptor.id}/${descriptor.version}/`;
+  }
+
+  private async verify(directory: string, descriptor: ModelDescriptor): Promise<boolean> {
+    const manifestUri = directory + MANIFEST_FILE;
+    if (!(await FileSystem.getInfoAsync(manifestUri)).exists) {
+      return false;
+    }
+
+    try {
+      const manifest: CacheManifest = JSON.parse(await FileSystem.readAsStringAsync(manifestUri));
+      if (manifest.version !== descriptor.version || manifest.url !== descriptor.url) {
+        console.log(`Cached ${descriptor.name} does not match v${descriptor.version}`);
+        return false;
+      }
+
+      // Checked against the pins rather than the manifest, so changed pins force a fresh download
+      for (const fileName of Object.keys(manifest.files)) {
+        const expectedMd5 = descriptor.md5?.[fileName];
+        const info = await FileSystem.getInfoAsync(directory + fileName, { md5: true });
+        if (!expectedMd5 || !info.exists || info.md5 !== expectedMd5) {
+          console.error(`Cached model file ${fileName} failed its integrity check`);
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to read model cache manifest:', error);
+      return false;
+    }
+  }
+
+  private async download(descriptor: ModelDescriptor, directory: string): Promise<void> {
+    if (!descriptor.md5?.[MODEL_FILE]) {
+      throw new Error(`${descriptor.name} has no pinned hash for ${MODEL_FILE}`);
+    }
+    console.log(`Downloading ${descriptor.name} v${descriptor.version}...`);
+
+    // Start from an empty directory so a half-finished download never looks valid
+    await FileSystem.deleteAsync(directory, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const [baseUrl, query = ''] = descriptor.url.split('?');
+    const urlPrefix = baseUrl.substring(0, baseUrl.lastIndexOf('/') + 1);
+    const urlSuffix = query ? `?${query}` : '';
+
+    const files: CacheManifest['files'] = {};
+    const fetchFile = async (fileName: string, url: string) => {
+      const result = await FileSystem.downloadAsync(url, directory + fileName, { md5: true });
+      if (result.status !== 200 || !result.md5) {
+        throw new Error(`Download of ${fileName} failed with status ${result.status}`);
+      }
+
+      const pinnedMd5 = descriptor.md5?.[fileName];
+      if (!pinnedMd5) {
+        throw new Error(`${descriptor.name} has no pinned hash for ${fileName}`);
+      }
+      if (pinnedMd5 !== result.md5) {
+        throw new Error(`Downloaded ${fileName} does not match its pinned hash`);
+      }
+      files[fileName] = result.md5;
+    };
+
+    await fetchFile(MODEL_FILE, descriptor.url);
+    const modelJson: tf.io.ModelJSON = JSON.parse(await FileSystem.readAsStringAsync(directory + MODEL_FILE));
+    for (const group of modelJson.weightsManifest) {
+      for (const path of group.paths) {
+        await fetchFile(path, urlPrefix + path + urlSuffix);
+      }
+    }
+
+    const manifest: CacheManifest = {
+      version: descriptor.version,
+      url: descriptor.url,
+      files,
+      downloadedAt: new Date().toISOString(),
+    };
+    await FileSystem.writeAsStringAsync(directory + MANIFEST_FILE, JSON.stringify(manifest));
+    await this.removeOtherVersions(descriptor);
+
+    console.log(`${descriptor.name} v${descriptor.version} cached for offline use`);
+  }
+
+  private async removeOtherVersions(descriptor: ModelDescriptor): Promise<void> {
+    const modelDirectory = `${MODEL_ROOT}${descriptor.id}/`;
+    const versions = await FileSystem.readDirectoryAsync(modelDirectory);
+    for (const version of versions) {
+      if (version !== descriptor.version) {
+        await FileSystem.deleteAsync(modelDirectory + version, { idempotent: true });
+      }
+    }
+  }
+
+  private async loadFromDirectory(directory: string): Promise<tf.GraphModel> {
+    const modelJson: tf.io.ModelJSON = JSON.parse(await FileSystem.readAsStringAsync(directory + MODEL_FILE));
+
+    const artifacts = await tf.io.getModelArtifactsForJSON(modelJson, async weightsManifest => {
+      const weightSpecs: tf.io.WeightsManifestEntry[] = [];
+      const buffers: ArrayBuffer[] = [];
+      for (const group of weightsManifest) {
+        weightSpecs.push(...group.weights);
+        for (const path of group.paths) {
+          const base64 = await FileSystem.readAsStringAsync(directory + path, {
+            encoding: FileSystem.EncodingType.Base64,
+          });
+          buffers.push(base64ToArrayBuffer(base64));
+        }
+      }
+      return [weightSpecs, tf.io.concatenateArrayBuffers(buffers)];
+    });
+
+    return tf.loadGraphModel(tf.io.fromMemory(artifacts));
+  }
+}
+
+export default new ModelCache();
@@ -0,0 +1,163 @@
+// Publish-only MQTT 3.1.1 client over WebSocket, QoS 0; enough to push events to a broker
+// without a native module or Node polyfills
+
+export interface MqttOptions {
+  url: string;
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAliveSeconds?: number;
+}
+
+const PACKET_CONNECT = 0x10;
+const PACKET_CONNACK = 0x20;
+const PACKET_PUBLISH = 0x30;
+const PACKET_PINGREQ = 0xc0;
+const PACKET_DISCONNECT = 0xe0;
+const CONNECT_TIMEOUT_MS = 10000;
+
+const CONNACK_ERRORS: { [code: number]: string } = {
+  1: 'unacceptable protocol version',
+  2: 'client ID rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized',
+};
+
+const encoder = new TextEncoder();
+
+function encodeString(text: string): number[] {
+  const bytes = encoder.encode(text);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+// Remaining length uses 7 bits per byte, high bit set while more bytes follow
+function encodeLength(length: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+}
+
+function packet(type: number, body: number[] | Uint8Array): Uint8Array {
+  const header = [type, ...encodeLength(body.length)];
+  const bytes = new Uint8Array(header.length + body.length);
+  bytes.set(header);
+  bytes.set(body, header.length);
+  return bytes;
+}
+
+export class MqttClient {
+  private socket: WebSocket | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  onClose?: (reason: string) => void;
+
+  constructor(private options: MqttOptions) {}
+
+  // Resolves once the broker accepts the connection
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url, ['mqtt']);
+      socket.binaryType = 'arraybuffer';
+      this.socket = socket;
+
+      let settled = false;
+      // Only the first failure is reported: a refused or timed-out connect closes the socket, and an
+      // error is followed by a close, neither of which may reach onClose again
+      const fail = (reason: string) => {
+        this.stopPing();
+        socket.onclose = null;
+        socket.onerror = null;
+        socket.close();
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          reject(new Error(reason));
+        } else {
+          this.onClose?.(reason);
+        }
+      };
+      const timeout = setTimeout(() => fail('MQTT connect timed out'), CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => socket.send(this.connectPacket());
+      socket.onmessage = message => {
+        const bytes = new Uint8Array(message.data as ArrayBuffer);
+        if ((bytes[0] & 0xf0) !== PACKET_CONNACK || settled) return;
+
+        const code = bytes[3];
+        if (code !== 0) {
+          fail(`MQTT connection refused: ${CONNACK_ERRORS[code] ?? `code ${code}`}`);
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        this.startPing();
+        resolve();
+      };
+      socket.onerror = () => fail('MQTT socket error');
+      socket.onclose = event => fail(`MQTT connection closed${event.reason ? `: ${event.reason}` : ''}`);
+    });
+  }
+
+  publish(topic: string, payload: string): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error('MQTT client is not connected');
+    }
+    this.socket.send(packet(PACKET_PUBLISH, [...encodeString(topic), ...encoder.encode(payload)]));
+  }
+
+  close(): void {
+    this.stopPing();
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) return;
+
+    socket.onclose = null;
+    socket.onerror = null;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(packet(PACKET_DISCONNECT, []));
+    }
+    socket.close();
+  }
+
+  private connectPacket(): Uint8Array {
+    const { clientId, username, password } = this.options;
+    const keepAlive = this.options.keepAliveSeconds ?? 60;
+    // Clean session, plus the user name and password flags when given
+    let flags = 0x02;
+    const payload = encodeString(clientId);
+    if (username) {
+      flags |= 0x80;
+      payload.push(...encodeString(username));
+      if (password) {
+        flags |= 0x40;
+        payload.push(...encodeString(password));
+      }
+    }
+    return packet(PACKET_CONNECT, [...encodeString('MQTT'), 4, flags, keepAlive >> 8, keepAlive & 0xff, ...payload]);
+  }
+
+  private startPing(): void {
+    const intervalMs = (this.options.keepAliveSeconds ?? 60) * 1000 * 0.75;
+    this.pingTimer = setInterval(() => {
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(packet(PACKET_PINGREQ, []));
+      }
+    }, intervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as MediaLibrary from 'expo-media-library';
+import { GeoLocation } from '@/services/LocationService';
+import { SessionDetails } from '@/services/Sessions';
+import VehicleDetectionService from '@/services/VehicleDetectionService';
+
+export type PhotoImportStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+// Where the detection timestamp came from, best first
+export type CaptureTimeSource = 'exif' | 'library' | 'import';
+
+export interface PhotoImportItem {
+  id: string;
+  uri: string;
+  name: string;
+  capturedAt: Date;
+  timeSource: CaptureTimeSource;
+  location?: GeoLocation; // from EXIF GPS; the device's current position says nothing about an old photo
+  status: PhotoImportStatus;
+  vehiclesDetected: number;
+  vehiclesCounted: number; // new vehicles added to the session, after tracking
+  error?: string;
+}
+
+export interface PhotoImportSummary {
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;
+  vehiclesDetected: number;
+  vehiclesCounted: number;
+}
+
+type Exif = Record<string, unknown>;
+
+// iOS nests some tags in dictionaries such as {Exif} and {GPS}
+function nestedTags(exif: Exif, key: string): Exif {
+  const value = exif[key];
+  return typeof value === 'object' && value !== null ? (value as Exif) : {};
+}
+
+// EXIF dates look like "2024:05:17 08:30:12"; OffsetTimeOriginal ("+02:00") is only present on newer cameras
+export function parseExifDateTime(exif: Exif): Date | null {
+  const tags: Exif = { ...exif, ...nestedTags(exif, '{Exif}') };
+  const value: unknown = tags.DateTimeOriginal ?? tags.DateTimeDigitized ?? tags.DateTime;
+  if (typeof value !== 'string') return null;
+
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+
+  const offset = /^([+-])(\d{2}):(\d{2})$/.exec(String(tags.OffsetTimeOriginal ?? ''));
+  const date = offset
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second) -
+        (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) * 60000)
+    : new Date(year, month - 1, day, hour, minute, second); // no offset recorded: assume device local time
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Android reports GPS tags flat, iOS nests them under {GPS}
+export function parseExifLocation(exif: Exif): GeoLocation | undefined {
+  const gps = nestedTags(exif, '{GPS}');
+  const latitude = Number(exif.GPSLatitude ?? gps.Latitude);
+  const longitude = Number(exif.GPSLongitude ?? gps.Longitude);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+  if (latitude === 0 && longitude === 0) return undefined;
+
+  const latitudeRef = exif.GPSLatitudeRef ?? gps.LatitudeRef;
+  const longitudeRef = exif.GPSLongitudeRef ?? gps.LongitudeRef;
+  return {
+    latitude: latitudeRef === 'S' ? -Math.abs(latitude) : latitude,
+    longitude: longitudeRef === 'W' ? -Math.abs(longitude) : longitude,
+  };
+}
+
+export async function createImportItems(assets: ImagePicker.ImagePickerAsset[]): Promise<PhotoImportItem[]> {
+  const importedAt = new Date();
+  const items = await Promise.all(assets.map(async (asset, i): Promise<PhotoImportItem> => {
+    let capturedAt = asset.exif ? parseExifDateTime(asset.exif) : null;
+    let timeSource: CaptureTimeSource = 'exif';
+
+    if (!capturedAt && asset.assetId) {
+      try {
+        capturedAt = new Date((await MediaLibrary.getAssetInfoAsync(asset.assetId)).creationTime);
+        timeSource = 'library';
+      } catch (error) {
+        console.log('Photo creation time unavailable:', error);
+      }
+    }
+    if (!capturedAt) {
+      capturedAt = importedAt;
+      timeSource = 'import';
+    }
+
+    return {
+      id: `photo_${importedAt.getTime()}_${i}`,
+      uri: asset.uri,
+      name: asset.fileName ?? `Photo ${i + 1}`,
+      capturedAt,
+      timeSource,
+      location: asset.exif ? parseExifLocation(asset.exif) : undefined,
+      status: 'pending',
+      vehiclesDetected: 0,
+      vehiclesCounted: 0,
+    };
+  }));
+
+  // The tracker expects time to move forward
+  return items.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+}
+
+// Runs imported photos one at a time through the normal detection path into their own session, as
+// video analysis does, so past capture times never reach the live session's tracker or intervals
+export class PhotoImportQueue {
+  private items: PhotoImportItem[];
+  private isRunning = false;
+  private isCancelled = false;
+  // Retries continue the session the first run started
+  private sessionId: string | null = null;
+  private lastCapturedAt: Date | null = null;
+
+  constructor(
+    items: PhotoImportItem[],
+    private session: SessionDetails,
+    private onChange: (items: PhotoImportItem[]) => void
+  ) {
+    this.items = items.map(item => ({ ...item }));
+  }
+
+  async run(): Promise<PhotoImportSummary> {
+    const first = this.nextPending();
+    if (this.isRunning || !first) return this.getSummary();
+    this.isRunning = true;
+    this.isCancelled = false;
+
+    try {
+      const session = await VehicleDetectionService.beginOfflineAnalysis(this.session, first.capturedAt, this.sessionId ?? undefined);
+      this.sessionId = session.id;
+    } catch (error) {
+      console.error('Failed to start photo import:', error);
+      this.items
+        .filter(item => item.status === 'pending')
+        .forEach(item => this.setItem(item.id, { status: 'failed', error: 'Unable to start a session for these photos' }));
+      this.isRunning = false;
+      return this.getSummary();
+    }
+
+    try {
+      for (let next = this.nextPending(); next && !this.isCancelled; next = this.nextPending()) {
+        await this.process(next);
+      }
+    } finally {
+      // The session ends at the latest photo analyzed
+      await VehicleDetectionService.endOfflineAnalysis(this.lastCapturedAt ?? first.capturedAt);
+      this.isRunning = false;
+    }
+    return this.getSummary();
+  }
+
+  // Failed photos go back in the queue; pass ids to retry only some of them
+  async retry(ids?: string[]): Promise<PhotoImportSummary> {
+    this.items.forEach(item => {
+      if (item.status === 'failed' && (!ids || ids.includes(item.id))) {
+        this.setItem(item.id, { status: 'pending', error: undefined });
+      }
+    });
+    return this.run();
+  }
+
+  // Stops after the photo in progress; the rest stay pending
+  cancel(): void {
+    this.isCancelled = true;
+  }
+
+  getItems(): PhotoImportItem[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  getSummary(): PhotoImportSummary {
+    return {
+      total: this.items.length,
+      done: this.items.filter(item => item.status === 'done').length,
+      failed: this.items.filter(item => item.status === 'failed').length,
+      pending: this.items.filter(item => item.status === 'pending' || item.status === 'processing').length,
+      vehiclesDetected: this.items.reduce((sum, item) => sum + item.vehiclesDetected, 0),
+      vehiclesCounted: this.items.reduce((sum, item) => sum + item.vehiclesCounted, 0),
+    };
+  }
+
+  private nextPending(): PhotoImportItem | undefined {
+    return this.items.find(item => item.status === 'pending');
+  }
+
+  private async process(item: PhotoImportItem): Promise<void> {
+    this.setItem(item.id, { status: 'processing' });
+    try {
+      const before = VehicleDetectionService.getVehicleCount().total;
+      const vehicles = await VehicleDetectionService.analyzeOfflineFrame(item.uri, {
+        capturedAt: item.capturedAt,
+        location: item.location,
+      });
+      if (!this.lastCapturedAt || item.capturedAt > this.lastCapturedAt) {
+        this.lastCapturedAt = item.capturedAt;
+      }
+      this.setItem(item.id, {
+        status: 'done',
+        vehiclesDetected: vehicles.length,
+        vehiclesCounted: VehicleDetectionService.getVehicleCount().total - before,
+      });
+    } catch (error) {
+      console.error(`Failed to analyze ${item.name}:`, error);
+      this.setItem(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private setItem(id: string, changes: Partial<PhotoImportItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    this.onChange(this.getItems());
+  }
+}
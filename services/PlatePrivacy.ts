@@ -0,0 +1,156 @@
+import { Buffer } from 'buffer';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as jpeg from 'jpeg-js';
+import { BoundingBox } from '@/services/geometry';
+import { normalizePlate } from '@/services/PlateWatchlist';
+
+// What DetectedVehicle.licensePlate may hold once a read leaves the detection pipeline
+export enum PlatePrivacyMode {
+  RAW = 'raw', // plate text as read
+  HASHED = 'hashed', // keyed hash of the normalized plate; the same plate always gives the same value
+  NONE = 'none', // no plate text at all
+}
+
+// jpeg-js writes its output with the Node Buffer, which React Native does not provide
+globalThis.Buffer ??= Buffer;
+
+export const PLATE_HASH_PREFIX = 'hmac:';
+
+const KEY_FILE = `${FileSystem.documentDirectory}plate-hash-key`;
+const KEY_BYTES = 32;
+const SHA256_BLOCK_BYTES = 64;
+// 128 bits is plenty to tell plates apart and keeps exports readable
+const HASH_HEX_LENGTH = 32;
+// Enough mosaic cells across a plate that the characters cannot be recovered
+const CELLS_ACROSS_PLATE = 6;
+const REDACTED_JPEG_QUALITY = 90;
+
+export function isHashedPlate(text: string): boolean {
+  return text.startsWith(PLATE_HASH_PREFIX);
+}
+
+// Hashes are shortened for display; they are only for telling vehicles apart
+export function displayPlate(text: string): string {
+  return isHashedPlate(text) ? `#${text.slice(PLATE_HASH_PREFIX.length, PLATE_HASH_PREFIX.length + 8)}` : text;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes));
+}
+
+// RFC 2104 HMAC-SHA256; the key is shorter than a block so it is only padded
+async function hmacSha256(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const inner = new Uint8Array(SHA256_BLOCK_BYTES);
+  const outer = new Uint8Array(SHA256_BLOCK_BYTES);
+  for (let i = 0; i < SHA256_BLOCK_BYTES; i++) {
+    inner[i] = (key[i] ?? 0) ^ 0x36;
+    outer[i] = (key[i] ?? 0) ^ 0x5c;
+  }
+  return sha256(concatBytes(outer, await sha256(concatBytes(inner, message))));
+}
+
+// Replaces every pixel of each region with the average of its mosaic cell
+function pixelate(image: { width: number; height: number; data: Uint8Array }, regions: BoundingBox[]): void {
+  const { width, height, data } = image;
+  regions.forEach(region => {
+    const left = Math.max(0, Math.floor(region.x * width));
+    const top = Math.max(0, Math.floor(region.y * height));
+    const right = Math.min(width, Math.ceil((region.x + region.width) * width));
+    const bottom = Math.min(height, Math.ceil((region.y + region.height) * height));
+    const cell = Math.max(4, Math.ceil((right - left) / CELLS_ACROSS_PLATE));
+
+    for (let cellTop = top; cellTop < bottom; cellTop += cell) {
+      for (let cellLeft = left; cellLeft < right; cellLeft += cell) {
+        const cellBottom = Math.min(bottom, cellTop + cell);
+        const cellRight = Math.min(right, cellLeft + cell);
+        const sums = [0, 0, 0];
+        for (let y = cellTop; y < cellBottom; y++) {
+          for (let x = cellLeft; x < cellRight; x++) {
+            const offset = (y * width + x) * 4;
+            sums[0] += data[offset];
+            sums[1] += data[offset + 1];
+            sums[2] += data[offset + 2];
+          }
+        }
+        const pixels = (cellBottom - cellTop) * (cellRight - cellLeft);
+        for (let y = cellTop; y < cellBottom; y++) {
+          for (let x = cellLeft; x < cellRight; x++) {
+            const offset = (y * width + x) * 4;
+            data[offset] = sums[0] / pixels;
+            data[offset + 1] = sums[1] / pixels;
+            data[offset + 2] = sums[2] / pixels;
+          }
+        }
+      }
+    }
+  });
+}
+
+class PlatePrivacy {
+  private key: Promise<Uint8Array> | null = null;
+
+  // Applies the mode to one plate read; values that are already hashed are kept as they are
+  async protectPlate(text: string | undefined, mode: PlatePrivacyMode): Promise<string | undefined> {
+    if (!text || mode === PlatePrivacyMode.RAW) return text;
+    if (mode === PlatePrivacyMode.NONE) return undefined;
+    if (isHashedPlate(text)) return text;
+
+    const hash = await hmacSha256(await this.getKey(), new TextEncoder().encode(normalizePlate(text)));
+    return PLATE_HASH_PREFIX + toHex(hash).slice(0, HASH_HEX_LENGTH);
+  }
+
+  async protectVehicles<T extends { licensePlate?: string }>(vehicles: T[], mode: PlatePrivacyMode): Promise<void> {
+    if (mode === PlatePrivacyMode.RAW) return;
+    for (const vehicle of vehicles) {
+      vehicle.licensePlate = await this.protectPlate(vehicle.licensePlate, mode);
+    }
+  }
+
+  // Writes a copy of the JPEG with the regions (normalized 0-1) pixelated and returns its URI
+  async redactPhoto(imageUri: string, regions: BoundingBox[]): Promise<string> {
+    const base64 = await FileSystem.readAsStringAsync(imageUri, { encoding: FileSystem.EncodingType.Base64 });
+    const image = jpeg.decode(Buffer.from(base64, 'base64'), { useTArray: true, formatAsRGBA: true });
+    pixelate(image, regions);
+    const encoded = jpeg.encode(image, REDACTED_JPEG_QUALITY);
+
+    const redactedUri = `${FileSystem.cacheDirectory}redacted_${Date.now()}.jpg`;
+    await FileSystem.writeAsStringAsync(redactedUri, Buffer.from(encoded.data).toString('base64'), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return redactedUri;
+  }
+
+  // One random key per device, created on first use; hashes are only comparable on the same device
+  private getKey(): Promise<Uint8Array> {
+    this.key ??= this.readOrCreateKey().catch(error => {
+      this.key = null;
+      throw error;
+    });
+    return this.key;
+  }
+
+  private async readOrCreateKey(): Promise<Uint8Array> {
+    if ((await FileSystem.getInfoAsync(KEY_FILE)).exists) {
+      const hex = await FileSystem.readAsStringAsync(KEY_FILE);
+      return new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+    }
+
+    const key = Crypto.getRandomBytes(KEY_BYTES);
+    await FileSystem.writeAsStringAsync(KEY_FILE, toHex(key));
+    return key;
+  }
+}
+
+export default new PlatePrivacy();
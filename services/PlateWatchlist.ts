@@ -0,0 +1,223 @@
+import { GeoLocation } from '@/services/LocationService';
+import { VehicleType } from '@/services/VehicleTypes';
+
+export enum WatchlistPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+export interface WatchlistEntry {
+  plate: string; // as imported; compared after normalizePlate
+  label: string;
+  priority: WatchlistPriority;
+}
+
+export interface WatchlistMatch {
+  entry: WatchlistEntry;
+  exact: boolean; // false when the read only matched through OCR confusions or an edit
+  edits: number; // characters misread, missed or added beyond the known confusions
+}
+
+// A plate read that matched the watchlist, kept in the hit log
+export interface WatchlistHit {
+  id: string;
+  sessionId?: string;
+  detectionId: string; // track ID of the vehicle
+  vehicleType: VehicleType;
+  plateRead: string;
+  plateConfidence?: number;
+  entry: WatchlistEntry;
+  exact: boolean;
+  timestamp: Date;
+  location?: GeoLocation;
+  snapshotUri?: string; // copy of the frame kept with the hit log
+}
+
+export interface WatchlistParseResult {
+  entries: WatchlistEntry[];
+  errors: string[]; // one per skipped row
+}
+
+export const PRIORITY_ORDER: Record<WatchlistPriority, number> = {
+  [WatchlistPriority.LOW]: 0,
+  [WatchlistPriority.MEDIUM]: 1,
+  [WatchlistPriority.HIGH]: 2,
+};
+
+// Characters plate OCR mixes up; each group compares as its first member
+const CONFUSION_GROUPS = ['0ODQ', '1IL', '8B', '5S', '2Z', '6G'];
+// One misread, missed or extra character is only forgiven on plates at least this long
+const MIN_FUZZY_LENGTH = 5;
+const MAX_EDITS = 1;
+
+const CANONICAL_CHARS: { [char: string]: string } = {};
+CONFUSION_GROUPS.forEach(group => {
+  group.split('').forEach(char => {
+    CANONICAL_CHARS[char] = group[0];
+  });
+});
+
+// Upper case with spaces, dashes and other separators removed
+export function normalizePlate(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function canonicalPlate(normalized: string): string {
+  return normalized.split('').map(char => CANONICAL_CHARS[char] ?? char).join('');
+}
+
+// Levenshtein distance, giving up once it exceeds limit
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Best entry for a plate read: fewest edits first, then highest priority; null when nothing matches
+export function matchPlate(read: string, entries: WatchlistEntry[]): WatchlistMatch | null {
+  const normalized = normalizePlate(read);
+  if (!normalized) return null;
+  const canonical = canonicalPlate(normalized);
+
+  let best: WatchlistMatch | null = null;
+  entries.forEach(entry => {
+    const plate = normalizePlate(entry.plate);
+    const limit = Math.min(plate.length, normalized.length) >= MIN_FUZZY_LENGTH ? MAX_EDITS : 0;
+    const edits = editDistance(canonical, canonicalPlate(plate), limit);
+    if (edits > limit) return;
+
+    const match = { entry, exact: plate === normalized, edits };
+    if (!best ||
+        match.edits < best.edits ||
+        (match.edits === best.edits && PRIORITY_ORDER[entry.priority] > PRIORITY_ORDER[best.entry.priority])) {
+      best = match;
+    }
+  });
+  return best;
+}
+
+function parsePriority(value: unknown): WatchlistPriority | null {
+  if (value === undefined || value === null || String(value).trim() === '') return WatchlistPriority.MEDIUM;
+  const priority = String(value).trim().toLowerCase();
+  return Object.values(WatchlistPriority).find(entry => entry === priority) ?? null;
+}
+
+function toEntry(row: { plate?: unknown; label?: unknown; priority?: unknown }, where: string, errors: string[]): WatchlistEntry | null {
+  const plate = typeof row.plate === 'string' || typeof row.plate === 'number' ? String(row.plate).trim() : '';
+  if (!normalizePlate(plate)) {
+    errors.push(`${where}: no plate`);
+    return null;
+  }
+  const priority = parsePriority(row.priority);
+  if (!priority) {
+    errors.push(`${where}: unknown priority "${row.priority}"`);
+    return null;
+  }
+  const label = typeof row.label === 'string' ? row.label.trim() : '';
+  return { plate, label, priority };
+}
+
+// Handles quoted fields with embedded commas and doubled quotes
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
+
+// Columns are plate, label, priority; a header row may name them in any order
+export function parseWatchlistCsv(text: string): WatchlistParseResult {
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/);
+
+  let columns = { plate: 0, label: 1, priority: 2 };
+  let first = 0;
+  const header = parseCsvLine(lines[0] ?? '').map(cell => cell.toLowerCase());
+  if (header.includes('plate')) {
+    columns = { plate: header.indexOf('plate'), label: header.indexOf('label'), priority: header.indexOf('priority') };
+    first = 1;
+  }
+
+  for (let i = first; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = parseCsvLine(lines[i]);
+    const entry = toEntry(
+      { plate: cells[columns.plate], label: cells[columns.label], priority: cells[columns.priority] },
+      `Line ${i + 1}`,
+      errors
+    );
+    if (entry) entries.push(entry);
+  }
+  return { entries, errors };
+}
+
+// An array of plate strings or { plate, label, priority } objects, optionally under "entries"
+export function parseWatchlistJson(text: string): WatchlistParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Watchlist is not valid JSON');
+  }
+
+  const rows = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(rows)) {
+    throw new Error('Watchlist JSON must be an array of entries');
+  }
+
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, i) => {
+    const entry = toEntry(typeof row === 'object' && row !== null ? row : { plate: row }, `Entry ${i + 1}`, errors);
+    if (entry) entries.push(entry);
+  });
+  return { entries, errors };
+}
+
+export function parseWatchlist(text: string, fileName: string): WatchlistParseResult {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  return isJson ? parseWatchlistJson(text) : parseWatchlistCsv(text);
+}
+
+// Later entries for the same plate replace earlier ones
+export function mergeEntries(entries: WatchlistEntry[]): WatchlistEntry[] {
+  const byPlate = new Map<string, WatchlistEntry>();
+  entries.forEach(entry => byPlate.set(normalizePlate(entry.plate), { ...entry }));
+  return [...byPlate.values()];
+}
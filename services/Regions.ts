@@ -0,0 +1,24 @@
+import { Point, pointInPolygon } from '@/services/geometry';
+
+export enum RegionMode {
+  INCLUDE = 'include',
+  EXCLUDE = 'exclude',
+}
+
+// Vertices are normalized (0-1) frame coordinates
+export interface Region {
+  id: string;
+  name: string;
+  mode: RegionMode;
+  points: Point[];
+}
+
+// Inside at least one include polygon (if there are any) and outside every exclude polygon
+export function isInActiveRegion(regions: Region[], point: Point): boolean {
+  const includes = regions.filter(region => region.mode === RegionMode.INCLUDE);
+  if (includes.length > 0 && !includes.some(region => pointInPolygon(point, region.points))) {
+    return false;
+  }
+
+  return !regions.some(region => region.mode === RegionMode.EXCLUDE && pointInPolygon(point, region.points));
+}
@@ -0,0 +1,119 @@
+// How long each kind of data is kept, in days; null keeps it until it is deleted by hand
+export interface RetentionPolicy {
+  detectionDays: number | null; // detections, line crossings and the sessions left empty by a purge
+  plateDays: number | null; // plate text on detections and watchlist hits
+  snapshotDays: number | null; // watchlist hit snapshots
+}
+
+export enum PurgeTrigger {
+  STARTUP = 'startup',
+  TIMER = 'timer',
+  SETTINGS = 'settings', // the policy was changed
+  MANUAL = 'manual',
+}
+
+export interface PurgeCutoffs {
+  detections?: Date;
+  plates?: Date;
+  snapshots?: Date;
+}
+
+export interface PurgeCounts {
+  detections: number;
+  lineCrossings: number;
+  sessions: number;
+  plates: number;
+  watchlistHits: number;
+  snapshots: number;
+  uploadBatches: number; // queued uploads removed, or stripped of plates
+}
+
+export interface PurgeReport {
+  purgedAt: Date;
+  trigger: PurgeTrigger;
+  cutoffs: PurgeCutoffs;
+  removed: PurgeCounts;
+  // Files from the export manifest made before the purge that may still hold what it removed
+  earlierExports: string[];
+}
+
+// One file written by an export, kept so purges can say which copies are outside the app's reach
+export interface ExportRecord {
+  fileName: string;
+  fileUri: string;
+  format: string;
+  sessionId: string;
+  exportedAt: Date;
+  dataFrom: Date; // session start
+  dataTo: Date; // session end, or the export time for a running session
+  detections: number;
+  platePrivacy: string;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  detectionDays: null,
+  plateDays: null,
+  snapshotDays: null,
+};
+
+export const RETENTION_DAYS_RANGE = { min: 1, max: 3650 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_LABELS: Record<keyof RetentionPolicy, string> = {
+  detectionDays: 'Detection',
+  plateDays: 'Plate',
+  snapshotDays: 'Snapshot',
+};
+
+// Returns a list of problems; empty when the policy can be applied
+export function validateRetention(policy: RetentionPolicy): string[] {
+  const errors: string[] = [];
+  (Object.keys(POLICY_LABELS) as (keyof RetentionPolicy)[]).forEach(key => {
+    const days = policy[key];
+    if (days !== null &&
+        (!Number.isInteger(days) || days < RETENTION_DAYS_RANGE.min || days > RETENTION_DAYS_RANGE.max)) {
+      errors.push(`${POLICY_LABELS[key]} retention must be a whole number of days between ${RETENTION_DAYS_RANGE.min} and ${RETENTION_DAYS_RANGE.max}, or blank to keep`);
+    }
+  });
+  return errors;
+}
+
+// Plates and snapshots never outlive the detections they belong to
+export function retentionCutoffs(policy: RetentionPolicy, now: Date): PurgeCutoffs {
+  const cutoff = (days: number | null) => days === null ? undefined : new Date(now.getTime() - days * DAY_MS);
+  const latest = (...dates: (Date | undefined)[]) => dates.reduce<Date | undefined>(
+    (best, date) => date && (!best || date > best) ? date : best,
+    undefined
+  );
+
+  const detections = cutoff(policy.detectionDays);
+  const plates = latest(detections, cutoff(policy.plateDays));
+  return {
+    detections,
+    plates,
+    snapshots: latest(plates, cutoff(policy.snapshotDays)),
+  };
+}
+
+// Reports logged before a count was added leave it out
+export function totalRemoved(counts: PurgeCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+// e.g. "120 detections, 4 plates, 1 snapshot"; "nothing" when the purge removed nothing
+export function describeRemoved(counts: PurgeCounts): string {
+  const parts: [number, string, string][] = [
+    [counts.detections, 'detection', 'detections'],
+    [counts.lineCrossings, 'line crossing', 'line crossings'],
+    [counts.sessions, 'session', 'sessions'],
+    [counts.plates, 'plate', 'plates'],
+    [counts.watchlistHits, 'watchlist hit', 'watchlist hits'],
+    [counts.snapshots, 'snapshot', 'snapshots'],
+    [counts.uploadBatches, 'queued upload', 'queued uploads'],
+  ];
+  const described = parts
+    .filter(([count]) => count > 0)
+    .map(([count, one, many]) => `${count} ${count === 1 ? one : many}`);
+  return described.length > 0 ? described.join(', ') : 'nothing';
+}
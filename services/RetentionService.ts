@@ -0,0 +1,177 @@
+import * as FileSystem from 'expo-file-system';
+import DetectionStore from '@/services/DetectionStore';
+import {
+  ExportRecord,
+  PurgeCounts,
+  PurgeCutoffs,
+  PurgeReport,
+  PurgeTrigger,
+  RetentionPolicy,
+  retentionCutoffs,
+  totalRemoved,
+} from '@/services/Retention';
+import SettingsService from '@/services/SettingsService';
+
+export type PurgeListener = (report: PurgeReport) => void;
+
+const PURGE_LOG_FILE = `${FileSystem.documentDirectory}purge-log.json`;
+const EXPORT_MANIFEST_FILE = `${FileSystem.documentDirectory}export-manifest.json`;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Only purges that removed something are logged
+const MAX_PURGE_LOG = 50;
+
+function parseDates<T>(text: string, keys: string[]): T[] {
+  return JSON.parse(text, (key, value) => keys.includes(key) && typeof value === 'string' ? new Date(value) : value);
+}
+
+class RetentionService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<PurgeListener>();
+  private running: Promise<PurgeReport> | null = null;
+  private queued: Promise<PurgeReport> | null = null;
+  private lastPurge: PurgeReport | null = null;
+  private policy: RetentionPolicy | null = null;
+
+  // Purges once now, then hourly and whenever the retention settings change
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.policy = SettingsService.getSettings().retention;
+    this.timer = setInterval(() => this.purgeSafely(PurgeTrigger.TIMER), PURGE_INTERVAL_MS);
+    SettingsService.subscribe(settings => {
+      if (JSON.stringify(settings.retention) !== JSON.stringify(this.policy)) {
+        this.policy = settings.retention;
+        this.purgeSafely(PurgeTrigger.SETTINGS);
+      }
+    });
+    await this.purgeSafely(PurgeTrigger.STARTUP);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: PurgeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getLastPurge(): PurgeReport | null {
+    return this.lastPurge;
+  }
+
+  // Purges that removed something, newest first
+  async getPurgeLog(): Promise<PurgeReport[]> {
+    try {
+      if (!(await FileSystem.getInfoAsync(PURGE_LOG_FILE)).exists) return [];
+      return parseDates<PurgeReport>(await FileSystem.readAsStringAsync(PURGE_LOG_FILE), ['purgedAt', 'detections', 'plates', 'snapshots']);
+    } catch (error) {
+      console.error('Failed to read purge log:', error);
+      return [];
+    }
+  }
+
+  // Runs one purge. Requests made while one is in progress share a single rerun after it, since the
+  // running purge may have read an older, looser policy
+  purge(trigger: PurgeTrigger): Promise<PurgeReport> {
+    if (!this.running) {
+      this.running = this.runPurge(trigger).finally(() => {
+        this.running = null;
+      });
+      return this.running;
+    }
+
+    this.queued ??= this.running.catch(() => undefined).then(() => {
+      this.queued = null;
+      return this.purge(trigger);
+    });
+    return this.queued;
+  }
+
+  async recordExport(record: ExportRecord): Promise<void> {
+    const manifest = await this.getExportManifest();
+    await FileSystem.writeAsStringAsync(EXPORT_MANIFEST_FILE, JSON.stringify([record, ...manifest], null, 2));
+  }
+
+  // Newest first
+  async getExportManifest(): Promise<ExportRecord[]> {
+    try {
+      if (!(await FileSystem.getInfoAsync(EXPORT_MANIFEST_FILE)).exists) return [];
+      return parseDates<ExportRecord>(await FileSystem.readAsStringAsync(EXPORT_MANIFEST_FILE), ['exportedAt', 'dataFrom', 'dataTo']);
+    } catch (error) {
+      console.error('Failed to read export manifest:', error);
+      return [];
+    }
+  }
+
+  private async purgeSafely(trigger: PurgeTrigger): Promise<void> {
+    try {
+      await this.purge(trigger);
+    } catch (error) {
+      console.error('Retention purge failed:', error);
+    }
+  }
+
+  private async runPurge(trigger: PurgeTrigger): Promise<PurgeReport> {
+    const purgedAt = new Date();
+    const cutoffs = retentionCutoffs(SettingsService.getSettings().retention, purgedAt);
+    const removed: PurgeCounts = {
+      detections: 0, lineCrossings: 0, sessions: 0, plates: 0, watchlistHits: 0, snapshots: 0, uploadBatches: 0,
+    };
+
+    if (cutoffs.detections) {
+      removed.detections = await DetectionStore.deleteDetectionsBefore(cutoffs.detections);
+      removed.lineCrossings = await DetectionStore.deleteLineCrossingsBefore(cutoffs.detections);
+      removed.sessions = await DetectionStore.deleteEmptySessionsBefore(cutoffs.detections);
+      removed.uploadBatches = await DetectionStore.deleteSyncBatchesBefore(cutoffs.detections);
+    }
+    // Snapshots go before plates: the snapshot cutoff is never earlier, and deleting a hit would lose its file
+    if (cutoffs.snapshots) {
+      const snapshots = await DetectionStore.getWatchlistSnapshotsBefore(cutoffs.snapshots);
+      for (const { snapshotUri } of snapshots) {
+        await FileSystem.deleteAsync(snapshotUri, { idempotent: true });
+      }
+      removed.snapshots = await DetectionStore.clearWatchlistSnapshotsBefore(cutoffs.snapshots);
+    }
+    if (cutoffs.plates) {
+      removed.plates = await DetectionStore.clearPlatesBefore(cutoffs.plates);
+      removed.watchlistHits = await DetectionStore.deleteWatchlistHitsBefore(cutoffs.plates);
+      removed.uploadBatches += await DetectionStore.clearQueuedPlatesBefore(cutoffs.plates);
+    }
+
+    const report: PurgeReport = {
+      purgedAt,
+      trigger,
+      cutoffs,
+      removed,
+      earlierExports: await this.findEarlierExports(purgedAt, cutoffs, removed),
+    };
+
+    this.lastPurge = report;
+    if (totalRemoved(removed) > 0) {
+      console.log(`Retention purge (${trigger}) removed ${JSON.stringify(removed)}`);
+      const log = await this.getPurgeLog();
+      await FileSystem.writeAsStringAsync(PURGE_LOG_FILE, JSON.stringify([report, ...log].slice(0, MAX_PURGE_LOG), null, 2));
+    }
+    this.listeners.forEach(listener => listener(report));
+    return report;
+  }
+
+  // Exports whose data reaches back past a cutoff that removed something
+  private async findEarlierExports(purgedAt: Date, cutoffs: PurgeCutoffs, removed: PurgeCounts): Promise<string[]> {
+    const reached: Date[] = [];
+    if (cutoffs.detections && removed.detections + removed.lineCrossings + removed.sessions > 0) {
+      reached.push(cutoffs.detections);
+    }
+    if (cutoffs.plates && removed.plates + removed.watchlistHits > 0) {
+      reached.push(cutoffs.plates);
+    }
+    if (reached.length === 0) return [];
+
+    const manifest = await this.getExportManifest();
+    return manifest
+      .filter(record => record.exportedAt < purgedAt && reached.some(cutoff => record.dataFrom < cutoff))
+      .map(record => record.fileName);
+  }
+}
+
+export default new RetentionService();
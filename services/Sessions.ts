@@ -0,0 +1,31 @@
+import { CountLine } from '@/services/CountLines';
+import { Region } from '@/services/Regions';
+import { SpeedCalibration } from '@/services/SpeedEstimation';
+import { DetectionThresholds, DetectorMode } from '@/services/VehicleDetectionService';
+
+export interface SessionDetails {
+  name: string;
+  site: string;
+  operator: string;
+  notes: string;
+}
+
+export interface CountingSession extends SessionDetails {
+  id: string;
+  startedAt: Date;
+  endedAt?: Date;
+  detectorMode: DetectorMode;
+  thresholds: DetectionThresholds;
+  countLines: CountLine[];
+  regions: Region[];
+  speedCalibration: SpeedCalibration | null;
+  speedLimitKmh: number | null;
+}
+
+export interface SessionSummary extends CountingSession {
+  vehicleTotal: number;
+}
+
+export function defaultSessionName(date: Date = new Date()): string {
+  return `Session ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
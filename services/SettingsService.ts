@@ -0,0 +1,309 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { DEFAULT_DETECTION_FILTER, DetectionFilterConfig, validateDetectionFilter } from '@/services/DetectionFilter';
+import { ClassMap, DEFAULT_CLASS_MAP } from '@/services/Detector';
+import { DEFAULT_STREAM, StreamConfig, validateStreamConfig } from '@/services/EventStream';
+import type { ExportResult } from '@/services/ExportService';
+import { PlatePrivacyMode } from '@/services/PlatePrivacy';
+import { DEFAULT_RETENTION, RetentionPolicy, validateRetention } from '@/services/Retention';
+import { SpeedUnit } from '@/services/SpeedEstimation';
+import { DEFAULT_SYNC, SyncConfig, validateSyncConfig } from '@/services/Sync';
+import {
+  CustomTaxonomyConfig,
+  DEFAULT_CUSTOM_TAXONOMY,
+  TaxonomyId,
+  validateCustomTaxonomy,
+} from '@/services/VehicleClasses';
+import { VehicleType } from '@/services/VehicleTypes';
+
+export enum CaptureMode {
+  STREAM = 'stream', // preview frames go straight to the detector
+  PHOTO = 'photo', // a photo is taken every detectionIntervalMs
+}
+
+export interface AppSettings {
+  captureMode: CaptureMode;
+  streamTargetFps: number;
+  detectionIntervalMs: number;
+  photoQuality: number; // JPEG quality of the frames sent to the detector
+  modelInputSize: number;
+  detectionFilter: DetectionFilterConfig;
+  classMap: ClassMap;
+  taxonomy: TaxonomyId; // how counted vehicles are grouped in the counts screen and exports
+  customTaxonomy: CustomTaxonomyConfig;
+  speedUnit: SpeedUnit; // display only; speeds are stored and exported in km/h
+  platePrivacy: PlatePrivacyMode; // applies to stored reads, exports, the hit log and saved photos
+  retention: RetentionPolicy;
+  sync: SyncConfig;
+  stream: StreamConfig;
+}
+
+// What a shared site preset file contains
+export interface SettingsProfile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  settings: AppSettings;
+}
+
+export type SettingsListener = (settings: AppSettings) => void;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  // Frame processors need the native camera, so the web build keeps taking photos
+  captureMode: Platform.OS === 'web' ? CaptureMode.PHOTO : CaptureMode.STREAM,
+  streamTargetFps: 5,
+  detectionIntervalMs: 2000,
+  photoQuality: 0.7,
+  modelInputSize: 320,
+  detectionFilter: DEFAULT_DETECTION_FILTER,
+  classMap: DEFAULT_CLASS_MAP,
+  taxonomy: TaxonomyId.VEHICLE_TYPES,
+  customTaxonomy: DEFAULT_CUSTOM_TAXONOMY,
+  speedUnit: SpeedUnit.KMH,
+  platePrivacy: PlatePrivacyMode.RAW,
+  retention: DEFAULT_RETENTION,
+  sync: DEFAULT_SYNC,
+  stream: DEFAULT_STREAM,
+};
+
+export const STREAM_TARGET_FPS_RANGE = { min: 1, max: 30 };
+export const DETECTION_INTERVAL_RANGE = { min: 250, max: 60000 };
+export const MODEL_INPUT_SIZE_RANGE = { min: 128, max: 640, step: 32 };
+
+// Model labels offered for mapping in the settings screen; profiles may map any label
+export const MAPPABLE_CLASSES = ['bicycle', 'car', 'motorcycle', 'bus', 'truck', 'train'];
+
+const PROFILE_FORMAT = 'vehicle-detector-settings';
+const PROFILE_VERSION = 1;
+const SETTINGS_FILE = `${FileSystem.documentDirectory}settings.json`;
+
+function cloneSettings(settings: AppSettings): AppSettings {
+  return {
+    ...settings,
+    detectionFilter: {
+      ...settings.detectionFilter,
+      classThresholds: { ...settings.detectionFilter.classThresholds },
+    },
+    classMap: { ...settings.classMap },
+    customTaxonomy: { ...settings.customTaxonomy, groups: { ...settings.customTaxonomy.groups } },
+    retention: { ...settings.retention },
+    sync: { ...settings.sync },
+    stream: { ...settings.stream },
+  };
+}
+
+// Files written by older versions may lack newer fields; those take their defaults
+function withDefaults(stored: Partial<AppSettings>): AppSettings {
+  return cloneSettings({
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    detectionFilter: { ...DEFAULT_DETECTION_FILTER, ...stored.detectionFilter },
+    classMap: stored.classMap ?? DEFAULT_CLASS_MAP,
+    customTaxonomy: stored.customTaxonomy ?? DEFAULT_CUSTOM_TAXONOMY,
+    retention: { ...DEFAULT_RETENTION, ...stored.retention },
+    sync: { ...DEFAULT_SYNC, ...stored.sync },
+    stream: { ...DEFAULT_STREAM, ...stored.stream },
+  });
+}
+
+// Returns a list of problems; empty when the settings can be applied
+export function validateSettings(settings: AppSettings): string[] {
+  const errors: string[] = [];
+  const { captureMode, streamTargetFps, detectionIntervalMs, photoQuality, modelInputSize, classMap } = settings;
+
+  if (!Object.values(CaptureMode).includes(captureMode)) {
+    errors.push(`Unknown capture mode "${captureMode}"`);
+  }
+  if (!Number.isInteger(streamTargetFps) ||
+      streamTargetFps < STREAM_TARGET_FPS_RANGE.min ||
+      streamTargetFps > STREAM_TARGET_FPS_RANGE.max) {
+    errors.push(`Stream frame rate must be between ${STREAM_TARGET_FPS_RANGE.min} and ${STREAM_TARGET_FPS_RANGE.max} fps`);
+  }
+  if (!Number.isInteger(detectionIntervalMs) ||
+      detectionIntervalMs < DETECTION_INTERVAL_RANGE.min ||
+      detectionIntervalMs > DETECTION_INTERVAL_RANGE.max) {
+    errors.push(`Detection interval must be between ${DETECTION_INTERVAL_RANGE.min} and ${DETECTION_INTERVAL_RANGE.max} ms`);
+  }
+  if (!Number.isFinite(photoQuality) || photoQuality <= 0 || photoQuality > 1) {
+    errors.push('Photo quality must be above 0 and at most 1');
+  }
+  if (!Number.isInteger(modelInputSize) ||
+      modelInputSize < MODEL_INPUT_SIZE_RANGE.min ||
+      modelInputSize > MODEL_INPUT_SIZE_RANGE.max ||
+      modelInputSize % MODEL_INPUT_SIZE_RANGE.step !== 0) {
+    errors.push(`Model input size must be a multiple of ${MODEL_INPUT_SIZE_RANGE.step} between ${MODEL_INPUT_SIZE_RANGE.min} and ${MODEL_INPUT_SIZE_RANGE.max}`);
+  }
+  errors.push(...validateDetectionFilter(settings.detectionFilter));
+  if (!Object.values(TaxonomyId).includes(settings.taxonomy)) {
+    errors.push(`Unknown vehicle class scheme "${settings.taxonomy}"`);
+  }
+  errors.push(...validateCustomTaxonomy(settings.customTaxonomy));
+  if (!Object.values(SpeedUnit).includes(settings.speedUnit)) {
+    errors.push(`Unknown speed unit "${settings.speedUnit}"`);
+  }
+  if (!Object.values(PlatePrivacyMode).includes(settings.platePrivacy)) {
+    errors.push(`Unknown plate privacy mode "${settings.platePrivacy}"`);
+  }
+  errors.push(...validateRetention(settings.retention));
+  errors.push(...validateSyncConfig(settings.sync));
+  errors.push(...validateStreamConfig(settings.stream));
+
+  const mappings = Object.entries(classMap ?? {});
+  if (mappings.length === 0) {
+    errors.push('At least one model class must map to a vehicle type');
+  }
+  mappings.forEach(([className, type]) => {
+    if (!className.trim()) {
+      errors.push('Class names cannot be empty');
+    } else if (!Object.values(VehicleType).includes(type)) {
+      errors.push(`Class "${className}" maps to unknown vehicle type "${type}"`);
+    }
+  });
+  return errors;
+}
+
+class SettingsService {
+  private settings: AppSettings = cloneSettings(DEFAULT_SETTINGS);
+  private listeners = new Set<SettingsListener>();
+  private loading: Promise<AppSettings> | null = null;
+
+  // Reads the stored settings once; later calls return the same result
+  load(): Promise<AppSettings> {
+    this.loading ??= this.readSettings().then(settings => {
+      this.settings = settings;
+      this.notify();
+      return this.getSettings();
+    });
+    return this.loading;
+  }
+
+  getSettings(): AppSettings {
+    return cloneSettings(this.settings);
+  }
+
+  // Validates, stores and applies; nothing changes when the new values are invalid
+  async update(changes: Partial<AppSettings>): Promise<AppSettings> {
+    const settings = cloneSettings({ ...this.settings, ...changes });
+    const errors = validateSettings(settings);
+    if (errors.length > 0) {
+      throw new Error(`Invalid settings: ${errors.join('; ')}`);
+    }
+
+    await FileSystem.writeAsStringAsync(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+    this.settings = settings;
+    this.notify();
+    return this.getSettings();
+  }
+
+  async reset(): Promise<AppSettings> {
+    return this.update(DEFAULT_SETTINGS);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async exportProfile(name: string): Promise<ExportResult> {
+    const settings = this.getSettings();
+    const profile: SettingsProfile = {
+      format: PROFILE_FORMAT,
+      version: PROFILE_VERSION,
+      name,
+      exportedAt: new Date().toISOString(),
+      // Profiles are shared between crews; upload and stream credentials stay on this device
+      settings: {
+        ...settings,
+        sync: { ...settings.sync, authValue: '' },
+        stream: { ...settings.stream, password: '' },
+      },
+    };
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'profile';
+    const fileName = `settings_${slug}.json`;
+    const fileUri = FileSystem.documentDirectory + fileName;
+
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(profile, null, 2));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Share Settings Profile',
+      });
+      return { fileName, fileUri, shared: true };
+    }
+    return { fileName, fileUri, shared: false };
+  }
+
+  // Lets the user pick a profile file and applies it; null when the picker is cancelled
+  async importProfile(): Promise<SettingsProfile | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+
+    const profile = this.parseProfile(await FileSystem.readAsStringAsync(result.assets[0].uri));
+    const { sync, stream } = profile.settings;
+    await this.update({
+      ...profile.settings,
+      sync: { ...sync, authValue: sync.authValue || this.settings.sync.authValue },
+      stream: { ...stream, password: stream.password || this.settings.stream.password },
+    });
+    return { ...profile, settings: this.getSettings() };
+  }
+
+  private parseProfile(text: string): SettingsProfile {
+    let profile: Partial<SettingsProfile>;
+    try {
+      profile = JSON.parse(text);
+    } catch {
+      throw new Error('Profile is not valid JSON');
+    }
+
+    if (profile.format !== PROFILE_FORMAT || !profile.settings) {
+      throw new Error('File is not a settings profile');
+    }
+    if (typeof profile.version !== 'number' || profile.version > PROFILE_VERSION) {
+      throw new Error(`Profile version ${profile.version} is not supported`);
+    }
+    return {
+      format: PROFILE_FORMAT,
+      version: profile.version,
+      name: profile.name ?? 'Unnamed profile',
+      exportedAt: profile.exportedAt ?? '',
+      settings: withDefaults(profile.settings),
+    };
+  }
+
+  private async readSettings(): Promise<AppSettings> {
+    try {
+      if (!(await FileSystem.getInfoAsync(SETTINGS_FILE)).exists) {
+        return cloneSettings(DEFAULT_SETTINGS);
+      }
+
+      const settings = withDefaults(JSON.parse(await FileSystem.readAsStringAsync(SETTINGS_FILE)));
+      const errors = validateSettings(settings);
+      if (errors.length > 0) {
+        console.log(`Stored settings are invalid (${errors.join('; ')}), using defaults`);
+        return cloneSettings(DEFAULT_SETTINGS);
+      }
+      return settings;
+    } catch (error) {
+      console.error('Failed to read settings:', error);
+      return cloneSettings(DEFAULT_SETTINGS);
+    }
+  }
+
+  private notify(): void {
+    const settings = this.getSettings();
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+export default new SettingsService();
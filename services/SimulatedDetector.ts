@@ -0,0 +1,58 @@
+import * as tf from '@tensorflow/tfjs';
+import { DetectOptions, Detection, Detector, DetectorId } from '@/services/Detector';
+import { DEFAULT_SIMULATION_SEED, SCENARIOS, ScenarioPlayer } from '@/services/TrafficScenario';
+
+export interface SimulationSettings {
+  scenarioId: string;
+  seed: number;
+}
+
+// Plays back a seeded traffic scenario, for demos and for devices where no model can be loaded
+export class SimulatedDetector implements Detector {
+  readonly id = DetectorId.SIMULATION;
+  readonly name = 'Simulation';
+  readonly requiresImage = false;
+  private player = new ScenarioPlayer(SCENARIOS[0], DEFAULT_SIMULATION_SEED);
+  private startedAt = Date.now();
+
+  async load(): Promise<null> {
+    return null;
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async detect(_image: tf.Tensor3D | null, options: DetectOptions): Promise<Detection[]> {
+    return this.detectAt(Date.now() - this.startedAt, options);
+  }
+
+  // Same scenario, seed and elapsed time always give the same detections
+  detectAt(elapsedMs: number, options: DetectOptions): Detection[] {
+    return this.player.observe(elapsedMs)
+      .filter(observation => observation.confidence > options.scoreThreshold)
+      .map(({ vehicle, bbox, confidence, plateCharConfidences }) => ({
+        type: vehicle.type,
+        className: vehicle.type,
+        confidence,
+        bbox,
+        plate: plateCharConfidences ? { text: vehicle.plate, charConfidences: plateCharConfidences } : undefined,
+      }));
+  }
+
+  // Replays from the start of the scenario
+  configure(settings: SimulationSettings): void {
+    const scenario = SCENARIOS.find(candidate => candidate.id === settings.scenarioId);
+    if (!scenario) {
+      throw new Error(`Unknown simulation scenario: ${settings.scenarioId}`);
+    }
+    this.player = new ScenarioPlayer(scenario, settings.seed);
+    this.startedAt = Date.now();
+  }
+
+  getSettings(): SimulationSettings {
+    return { scenarioId: this.player.scenario.id, seed: this.player.seed };
+  }
+
+  dispose(): void {}
+}
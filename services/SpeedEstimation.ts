@@ -0,0 +1,164 @@
+import { Homography, Point, applyHomography, computeHomography, distance, segmentsIntersect } from '@/services/geometry';
+
+export enum CalibrationMethod {
+  TWO_LINES = 'two_lines', // speed trap: time between crossing two lines a known distance apart
+  RECTANGLE = 'rectangle', // ground plane from four corners of a rectangle of known size
+}
+
+export enum SpeedUnit {
+  KMH = 'kmh',
+  MPH = 'mph',
+}
+
+// All points are normalized (0-1) frame coordinates
+export interface TwoLineCalibration {
+  method: CalibrationMethod.TWO_LINES;
+  lines: [{ start: Point; end: Point }, { start: Point; end: Point }];
+  distanceMeters: number;
+}
+
+// Corners go around the rectangle; widthMeters is the first edge, lengthMeters the second
+export interface RectangleCalibration {
+  method: CalibrationMethod.RECTANGLE;
+  corners: [Point, Point, Point, Point];
+  widthMeters: number;
+  lengthMeters: number;
+}
+
+export type SpeedCalibration = TwoLineCalibration | RectangleCalibration;
+
+export interface TimedPoint extends Point {
+  timestamp: number;
+}
+
+export interface SpeedSummary {
+  measured: number;
+  meanKmh: number;
+  p85Kmh: number; // speed 85% of vehicles do not exceed, the usual basis for setting limits
+  maxKmh: number;
+  overLimit: number;
+  overLimitShare: number; // 0-1 of measured vehicles; 0 when no limit is set
+}
+
+const KMH_PER_MPH = 1.609344;
+// A rectangle track needs this much movement in time before its speed is trusted
+const MIN_SPEED_SPAN_MS = 1000;
+// Faster than this is a tracking error, not a vehicle
+const MAX_PLAUSIBLE_SPEED_KMH = 250;
+
+export function toKmh(value: number, unit: SpeedUnit): number {
+  return unit === SpeedUnit.MPH ? value * KMH_PER_MPH : value;
+}
+
+export function fromKmh(kmh: number, unit: SpeedUnit): number {
+  return unit === SpeedUnit.MPH ? kmh / KMH_PER_MPH : kmh;
+}
+
+export function formatSpeed(kmh: number, unit: SpeedUnit): string {
+  return `${Math.round(fromKmh(kmh, unit))} ${unit === SpeedUnit.MPH ? 'mph' : 'km/h'}`;
+}
+
+function rectangleHomography(calibration: RectangleCalibration): Homography | null {
+  const { corners, widthMeters, lengthMeters } = calibration;
+  return computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: widthMeters, y: 0 },
+    { x: widthMeters, y: lengthMeters },
+    { x: 0, y: lengthMeters },
+  ]);
+}
+
+// Returns a list of problems; empty when the calibration can be used
+export function validateCalibration(calibration: SpeedCalibration): string[] {
+  const errors: string[] = [];
+  if (calibration.method === CalibrationMethod.TWO_LINES) {
+    if (!(calibration.distanceMeters > 0)) {
+      errors.push('Distance between the lines must be greater than 0');
+    }
+    if (calibration.lines.some(line => distance(line.start, line.end) === 0)) {
+      errors.push('Each reference line needs two different points');
+    }
+  } else {
+    if (!(calibration.widthMeters > 0) || !(calibration.lengthMeters > 0)) {
+      errors.push('Rectangle width and length must be greater than 0');
+    }
+    if (!rectangleHomography(calibration)) {
+      errors.push('Rectangle corners must not lie on one line');
+    }
+  }
+  return errors;
+}
+
+// Where along p1→p2 the segment crosses q1→q2, as a fraction; null when it does not
+function crossingFraction(p1: Point, p2: Point, q1: Point, q2: Point): number | null {
+  if (!segmentsIntersect(p1, p2, q1, q2)) return null;
+  const denominator = (p2.x - p1.x) * (q2.y - q1.y) - (p2.y - p1.y) * (q2.x - q1.x);
+  return ((q1.x - p1.x) * (q2.y - q1.y) - (q1.y - p1.y) * (q2.x - q1.x)) / denominator;
+}
+
+// Time the trajectory first crosses the line, interpolated between frames
+function crossingTime(trajectory: TimedPoint[], line: { start: Point; end: Point }): number | null {
+  for (let i = 1; i < trajectory.length; i++) {
+    const from = trajectory[i - 1];
+    const to = trajectory[i];
+    const fraction = crossingFraction(from, to, line.start, line.end);
+    if (fraction !== null) {
+      return from.timestamp + fraction * (to.timestamp - from.timestamp);
+    }
+  }
+  return null;
+}
+
+// Speed in km/h from a trajectory of road contact points in normalized frame coordinates;
+// null until the trajectory says enough, or when the result is implausible
+export function estimateSpeed(calibration: SpeedCalibration, trajectory: TimedPoint[]): number | null {
+  if (trajectory.length < 2) return null;
+
+  let meters: number;
+  let elapsedMs: number;
+  if (calibration.method === CalibrationMethod.TWO_LINES) {
+    const first = crossingTime(trajectory, calibration.lines[0]);
+    const second = crossingTime(trajectory, calibration.lines[1]);
+    if (first === null || second === null) return null;
+    meters = calibration.distanceMeters;
+    elapsedMs = Math.abs(second - first);
+  } else {
+    const homography = rectangleHomography(calibration);
+    const start = trajectory[0];
+    const end = trajectory[trajectory.length - 1];
+    elapsedMs = end.timestamp - start.timestamp;
+    if (!homography || elapsedMs < MIN_SPEED_SPAN_MS) return null;
+
+    const from = applyHomography(homography, start);
+    const to = applyHomography(homography, end);
+    if (!from || !to) return null;
+    meters = distance(from, to);
+  }
+
+  if (elapsedMs <= 0) return null;
+  const kmh = (meters / (elapsedMs / 1000)) * 3.6;
+  return kmh <= MAX_PLAUSIBLE_SPEED_KMH ? kmh : null;
+}
+
+// Linear interpolation between closest ranks
+function percentile(sorted: number[], fraction: number): number {
+  const rank = fraction * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarizeSpeeds(speedsKmh: number[], limitKmh: number | null): SpeedSummary | null {
+  if (speedsKmh.length === 0) return null;
+
+  const sorted = [...speedsKmh].sort((a, b) => a - b);
+  const overLimit = limitKmh !== null ? sorted.filter(speed => speed > limitKmh).length : 0;
+  return {
+    measured: sorted.length,
+    meanKmh: sorted.reduce((sum, speed) => sum + speed, 0) / sorted.length,
+    p85Kmh: percentile(sorted, 0.85),
+    maxKmh: sorted[sorted.length - 1],
+    overLimit,
+    overLimitShare: overLimit / sorted.length,
+  };
+}
@@ -0,0 +1,108 @@
+import * as tf from '@tensorflow/tfjs';
+import { DetectOptions, Detection, Detector, DetectorId, toVehicleType } from '@/services/Detector';
+import ModelCache, { ModelDescriptor, ModelInfo, parsePinnedHashes } from '@/services/ModelCache';
+
+const SSD_MODEL_URL = 'https://tfhub.dev/tensorflow/tfjs-model/ssd_mobilenet_v2/1/default/1/model.json?tfjs-format=file';
+
+// MD5 of every file at SSD_MODEL_URL, as printed by `npm run pin-model-hashes -- <model.json URL>`.
+// Must be filled in from a machine that can reach tfhub.dev; until then the model is not loaded
+const SSD_MODEL_MD5: { [fileName: string]: string } = {};
+
+// COCO SSD MobileNet v2; downloaded once and then loaded from the device cache, with every file checked
+// against its pinned MD5 on each load. EXPO_PUBLIC_SSD_MODEL_MD5 overrides the pins, e.g. for a mirror
+const SSD_MODEL: ModelDescriptor = {
+  id: 'ssd_mobilenet_v2',
+  name: 'SSD MobileNet v2',
+  version: '1',
+  url: SSD_MODEL_URL,
+  md5: parsePinnedHashes(process.env.EXPO_PUBLIC_SSD_MODEL_MD5) ?? SSD_MODEL_MD5,
+};
+
+// TF Object Detection API label map: 90 ids with gaps, hence the empty entries
+const COCO_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+  'traffic light', 'fire hydrant', '', 'stop sign', 'parking meter', 'bench', 'bird',
+  'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe',
+  '', 'backpack', 'umbrella', '', '', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove',
+  'skateboard', 'surfboard', 'tennis racket', 'bottle', '', 'wine glass', 'cup',
+  'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
+  'potted plant', 'bed', '', 'dining table', '', '', 'toilet', '', 'tv',
+  'laptop', 'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven',
+  'toaster', 'sink', 'refrigerator', '', 'book', 'clock', 'vase', 'scissors',
+  'teddy bear', 'hair drier', 'toothbrush'
+];
+
+export class SsdMobileNetDetector implements Detector {
+  readonly id = DetectorId.SSD_MOBILENET;
+  readonly name = 'SSD MobileNet v2';
+  readonly requiresImage = true;
+  private model: tf.GraphModel | null = null;
+
+  async load(): Promise<ModelInfo> {
+    const { model, info } = await ModelCache.load(SSD_MODEL);
+    this.model = model;
+    return info;
+  }
+
+  isReady(): boolean {
+    return this.model !== null;
+  }
+
+  async detect(image: tf.Tensor3D | null, options: DetectOptions): Promise<Detection[]> {
+    if (!this.model || !image) return [];
+
+    const preprocessed = this.preprocessImage(image, options.inputSize);
+    const predictions = await this.model.predict(preprocessed) as tf.Tensor[];
+    try {
+      return await this.decode(predictions, options);
+    } finally {
+      preprocessed.dispose();
+      predictions.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
+  }
+
+  private preprocessImage(img: tf.Tensor3D, inputSize: number): tf.Tensor4D {
+    return tf.tidy(() => {
+      // Resize to model input size and normalize to [0, 1]; the model accepts any square size
+      const resized = tf.image.resizeBilinear(img, [inputSize, inputSize]);
+      return resized.div(255.0).expandDims(0) as tf.Tensor4D;
+    });
+  }
+
+  private async decode(predictions: tf.Tensor[], options: DetectOptions): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    // Boxes are normalized [ymin, xmin, ymax, xmax]
+    const boxes = await predictions[0].data(); // [N, 4]
+    const classes = await predictions[1].data(); // [N]
+    const scores = await predictions[2].data(); // [N]
+    const numDetections = await predictions[3].data(); // [1]
+
+    for (let i = 0; i < numDetections[0]; i++) {
+      const className = COCO_CLASSES[classes[i]] || 'unknown';
+      const type = toVehicleType(className, options.classMap);
+      if (!type || scores[i] <= options.scoreThreshold) continue;
+
+      detections.push({
+        type,
+        className,
+        confidence: scores[i],
+        bbox: {
+          x: boxes[i * 4 + 1],
+          y: boxes[i * 4],
+          width: boxes[i * 4 + 3] - boxes[i * 4 + 1],
+          height: boxes[i * 4 + 2] - boxes[i * 4],
+        },
+      });
+    }
+
+    return detections;
+  }
+}
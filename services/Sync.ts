@@ -0,0 +1,120 @@
+import { CountingSession } from '@/services/Sessions';
+import type { DetectedVehicle } from '@/services/VehicleDetectionService';
+import { VehicleCount } from '@/services/VehicleTypes';
+
+export interface SyncConfig {
+  enabled: boolean;
+  endpoint: string; // batches are POSTed here
+  authHeader: string; // header name, e.g. Authorization or X-Api-Key; blank sends no auth
+  authValue: string; // never included in shared settings profiles
+}
+
+export enum SyncBatchKind {
+  DETECTIONS = 'detections',
+  INTERVALS = 'intervals',
+  SPEEDS = 'speeds', // speeds measured after their detection was queued
+}
+
+// Server-side view of a session, without the detector tuning kept on the device
+export interface SyncSessionInfo {
+  id: string;
+  name: string;
+  site: string;
+  operator: string;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface SyncInterval {
+  start: string;
+  end: string;
+  counts: VehicleCount; // per vehicle type
+  classCounts: { [classId: string]: number }; // per class of the taxonomy
+  total: number;
+}
+
+// Request body of one POST; batchId is also sent as the Idempotency-Key header
+export type SyncPayload = {
+  batchId: string;
+  deviceId: string;
+  createdAt: string;
+  session: SyncSessionInfo;
+} & (
+  | { kind: SyncBatchKind.DETECTIONS; detections: DetectedVehicle[] }
+  | { kind: SyncBatchKind.INTERVALS; taxonomy: string; intervalMinutes: number; intervals: SyncInterval[] }
+  | { kind: SyncBatchKind.SPEEDS; speeds: { id: string; speedKmh: number }[] }
+);
+
+// One queued POST; the id doubles as the idempotency key so retries are never counted twice
+export interface SyncBatch {
+  id: string;
+  kind: SyncBatchKind;
+  sessionId: string;
+  payload: string;
+  itemCount: number;
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+}
+
+export enum SyncState {
+  DISABLED = 'disabled',
+  IDLE = 'idle', // nothing waiting
+  SYNCING = 'syncing',
+  WAITING = 'waiting', // the last attempt failed; retrying after a backoff
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  queuedBatches: number;
+  queuedItems: number;
+  rejectedBatches: number; // refused by the server (400, 413, 415 or 422) and not retried
+  lastSyncedAt?: Date;
+  lastError?: string;
+  nextAttemptAt?: Date;
+}
+
+export const DEFAULT_SYNC: SyncConfig = {
+  enabled: false,
+  endpoint: '',
+  authHeader: 'Authorization',
+  authValue: '',
+};
+
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// Share of the delay that is randomized so phones sharing an outage do not retry in step
+const BACKOFF_JITTER = 0.2;
+
+// Returns a list of problems; empty when the config can be applied
+export function validateSyncConfig(config: SyncConfig): string[] {
+  const errors: string[] = [];
+  if (config.enabled && !/^https?:\/\/[^\s/]+/i.test(config.endpoint.trim())) {
+    errors.push('Sync endpoint must be an http:// or https:// URL');
+  }
+  if (config.authHeader.trim() && !/^[A-Za-z0-9-]+$/.test(config.authHeader.trim())) {
+    errors.push('Auth header name may only contain letters, digits and dashes');
+  }
+  if (config.authValue.trim() && !config.authHeader.trim()) {
+    errors.push('Auth header name is required with an auth value');
+  }
+  return errors;
+}
+
+// Exponential backoff after the given number of failed attempts, capped and jittered
+export function backoffDelay(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (1 - BACKOFF_JITTER + 2 * BACKOFF_JITTER * random()));
+}
+
+export function toSyncSession(session: CountingSession): SyncSessionInfo {
+  return {
+    id: session.id,
+    name: session.name,
+    site: session.site,
+    operator: session.operator,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,328 @@
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import DetectionStore from '@/services/DetectionStore';
+import DeviceIdentity from '@/services/DeviceIdentity';
+import { REPORT_INTERVAL_MINUTES } from '@/services/ExportService';
+import PlatePrivacy from '@/services/PlatePrivacy';
+import { CountingSession } from '@/services/Sessions';
+import SettingsService from '@/services/SettingsService';
+import {
+  SyncBatch,
+  SyncBatchKind,
+  SyncConfig,
+  SyncPayload,
+  SyncState,
+  SyncStatus,
+  backoffDelay,
+  toSyncSession,
+} from '@/services/Sync';
+import TrafficAggregator from '@/services/TrafficAggregator';
+import { getTaxonomy } from '@/services/VehicleClasses';
+import VehicleDetectionService from '@/services/VehicleDetectionService';
+
+export type SyncStatusListener = (status: SyncStatus) => void;
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const DETECTION_BATCH_SIZE = 500;
+// Caps how much one pass reads from the store when a long backlog is first queued
+const MAX_BATCHES_PER_PASS = 10;
+const INTERVAL_MS = REPORT_INTERVAL_MINUTES * 60 * 1000;
+const DETECTIONS_MARK = 'detections_rowid';
+const SPEEDS_MARK = 'speeds_seq';
+// Payload errors that a retry cannot fix; 401, 403, 408 and 429 are left to the backoff
+const REJECTED_STATUSES = [400, 413, 415, 422];
+
+const intervalMark = (sessionId: string) => `intervals:${sessionId}`;
+
+type PayloadBody =
+  | Omit<Extract<SyncPayload, { kind: SyncBatchKind.DETECTIONS }>, 'batchId' | 'deviceId' | 'createdAt' | 'session'>
+  | Omit<Extract<SyncPayload, { kind: SyncBatchKind.INTERVALS }>, 'batchId' | 'deviceId' | 'createdAt' | 'session'>
+  | Omit<Extract<SyncPayload, { kind: SyncBatchKind.SPEEDS }>, 'batchId' | 'deviceId' | 'createdAt' | 'session'>;
+
+class HttpError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP ${status}`);
+  }
+}
+
+class SyncService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<SyncStatusListener>();
+  private running: Promise<void> | null = null;
+  private config: SyncConfig | null = null;
+  private status: SyncStatus = { state: SyncState.DISABLED, queuedBatches: 0, queuedItems: 0, rejectedBatches: 0 };
+
+  // Queues and sends every 30 seconds while the app is open, and right away when it returns to the foreground
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.config = SettingsService.getSettings().sync;
+    this.timer = setInterval(() => this.syncSafely(false), SYNC_INTERVAL_MS);
+    AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.syncSafely(false);
+      }
+    });
+    // A fixed endpoint or token should not wait out the backoff
+    SettingsService.subscribe(settings => {
+      if (JSON.stringify(settings.sync) !== JSON.stringify(this.config)) {
+        this.config = settings.sync;
+        this.syncSafely(true);
+      }
+    });
+    await this.syncSafely(false);
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: SyncStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Sends the queue now, without waiting for a pending retry
+  syncNow(): Promise<void> {
+    return this.run(true);
+  }
+
+  private run(force: boolean): Promise<void> {
+    this.running ??= this.sync(force).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async syncSafely(force: boolean): Promise<void> {
+    try {
+      await this.run(force);
+    } catch (error) {
+      console.error('Sync failed:', error);
+    }
+  }
+
+  private async sync(force: boolean): Promise<void> {
+    const config = SettingsService.getSettings().sync;
+    if (!config.enabled) {
+      await this.updateStatus(SyncState.DISABLED);
+      return;
+    }
+
+    await this.queueDetections();
+    await this.queueSpeeds();
+    await this.queueIntervals();
+    await this.sendQueued(config, force);
+  }
+
+  // Detections are queued in insertion order, one batch per run of the same session
+  private async queueDetections(): Promise<void> {
+    const { platePrivacy } = SettingsService.getSettings();
+
+    for (let pass = 0; pass < MAX_BATCHES_PER_PASS; pass++) {
+      const mark = (await DetectionStore.getSyncMark(DETECTIONS_MARK)) ?? 0;
+      const rows = await DetectionStore.getDetectionsAfterRow(mark, DETECTION_BATCH_SIZE);
+      if (rows.length === 0) return;
+
+      const sessionId = rows[0].detection.sessionId;
+      const end = rows.findIndex(row => row.detection.sessionId !== sessionId);
+      const run = end === -1 ? rows : rows.slice(0, end);
+      const nextMark = { key: DETECTIONS_MARK, value: run[run.length - 1].rowId };
+
+      // Detections outside a session cannot be attributed on the server
+      const session = sessionId ? await DetectionStore.getSession(sessionId) : null;
+      if (!session) {
+        await DetectionStore.enqueueSyncBatch(null, nextMark);
+        continue;
+      }
+
+      const detections = run.map(row => row.detection);
+      await PlatePrivacy.protectVehicles(detections, platePrivacy);
+      const batch = await this.createBatch(session, { kind: SyncBatchKind.DETECTIONS, detections }, detections.length);
+      await DetectionStore.enqueueSyncBatch(batch, nextMark);
+    }
+  }
+
+  // Speeds are usually measured seconds after the vehicle is counted, often after its detection was queued.
+  // Detections not queued yet are skipped, since their batch will carry the speed
+  private async queueSpeeds(): Promise<void> {
+    for (let pass = 0; pass < MAX_BATCHES_PER_PASS; pass++) {
+      const mark = (await DetectionStore.getSyncMark(SPEEDS_MARK)) ?? 0;
+      const rows = await DetectionStore.getSpeedsAfter(mark, DETECTION_BATCH_SIZE);
+      if (rows.length === 0) return;
+
+      const queuedUntil = (await DetectionStore.getSyncMark(DETECTIONS_MARK)) ?? 0;
+      const sessionId = rows[0].sessionId;
+      const end = rows.findIndex(row => row.sessionId !== sessionId);
+      const run = end === -1 ? rows : rows.slice(0, end);
+      const nextMark = { key: SPEEDS_MARK, value: run[run.length - 1].seq };
+
+      const speeds = run
+        .filter(row => row.rowId <= queuedUntil)
+        .map(row => ({ id: row.id, speedKmh: row.speedKmh }));
+      const session = sessionId && speeds.length > 0 ? await DetectionStore.getSession(sessionId) : null;
+      if (!session) {
+        await DetectionStore.enqueueSyncBatch(null, nextMark);
+        continue;
+      }
+
+      const batch = await this.createBatch(session, { kind: SyncBatchKind.SPEEDS, speeds }, speeds.length);
+      await DetectionStore.enqueueSyncBatch(batch, nextMark);
+    }
+  }
+
+  // Each session's closed 15-minute intervals, then the rest once the session has ended.
+  // A session still being filled from a video or photos is left until it ends, since its
+  // intervals lie in the past and would otherwise be sent before their frames are analyzed
+  private async queueIntervals(): Promise<void> {
+    const settings = SettingsService.getSettings();
+    const taxonomy = getTaxonomy(settings.taxonomy, settings.customTaxonomy);
+    const now = Date.now();
+    const analyzingId = VehicleDetectionService.isOfflineAnalysisActive()
+      ? VehicleDetectionService.getActiveSession()?.id
+      : undefined;
+
+    for (const session of await DetectionStore.listSessions()) {
+      if (session.id === analyzingId) continue;
+      const closedUntil = session.endedAt?.getTime() ?? Math.floor(now / INTERVAL_MS) * INTERVAL_MS;
+      const from = (await DetectionStore.getSyncMark(intervalMark(session.id))) ??
+        Math.floor(session.startedAt.getTime() / INTERVAL_MS) * INTERVAL_MS;
+      if (closedUntil <= from) continue;
+
+      const bins = await TrafficAggregator.getVolumeSeries({
+        sessionId: session.id,
+        from: new Date(from),
+        to: new Date(closedUntil),
+        binMinutes: REPORT_INTERVAL_MINUTES,
+        taxonomy,
+      });
+      const batch = await this.createBatch(
+        session,
+        {
+          kind: SyncBatchKind.INTERVALS,
+          taxonomy: taxonomy.id,
+          intervalMinutes: REPORT_INTERVAL_MINUTES,
+          intervals: bins.map(bin => ({
+            start: bin.start.toISOString(),
+            end: bin.end.toISOString(),
+            counts: bin.counts,
+            classCounts: bin.classCounts.byClass,
+            total: bin.classCounts.total,
+          })),
+        },
+        bins.length,
+        // Queuing the same span twice, e.g. after a crash, gives the same key
+        `intervals_${session.id}_${from}_${closedUntil}`
+      );
+      await DetectionStore.enqueueSyncBatch(batch, { key: intervalMark(session.id), value: closedUntil });
+    }
+  }
+
+  private async createBatch(
+    session: CountingSession,
+    body: PayloadBody,
+    itemCount: number,
+    id: string = Crypto.randomUUID()
+  ): Promise<SyncBatch> {
+    const createdAt = new Date();
+    const payload: SyncPayload = {
+      batchId: id,
+      deviceId: await DeviceIdentity.getDeviceId(),
+      createdAt: createdAt.toISOString(),
+      session: toSyncSession(session),
+      ...body,
+    };
+    return {
+      id,
+      kind: body.kind,
+      sessionId: session.id,
+      payload: JSON.stringify(payload),
+      itemCount,
+      createdAt,
+      attempts: 0,
+      nextAttemptAt: createdAt,
+    };
+  }
+
+  // Oldest first; a failure stops the pass so batches arrive in order, except that a batch the server
+  // rejects outright is set aside so it cannot hold up the rest
+  private async sendQueued(config: SyncConfig, force: boolean): Promise<void> {
+    for (;;) {
+      const [batch] = await DetectionStore.getSyncBatches(1);
+      if (!batch || (!force && batch.nextAttemptAt.getTime() > Date.now())) break;
+      force = false;
+
+      await this.updateStatus(SyncState.SYNCING);
+      try {
+        await this.post(config, batch);
+        await DetectionStore.deleteSyncBatch(batch.id);
+        this.status.lastSyncedAt = new Date();
+        this.status.lastError = undefined;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof HttpError && REJECTED_STATUSES.includes(error.status)) {
+          await DetectionStore.rejectSyncBatch(batch.id, message);
+          console.log(`Sync of batch ${batch.id} was rejected (${message}); it will not be retried`);
+          continue;
+        }
+        const attempts = batch.attempts + 1;
+        await DetectionStore.recordSyncFailure(batch.id, attempts, new Date(Date.now() + backoffDelay(attempts)), message);
+        this.status.lastError = message;
+        console.log(`Sync of batch ${batch.id} failed (attempt ${attempts}): ${message}`);
+        break;
+      }
+    }
+    await this.updateStatus(SyncState.IDLE);
+  }
+
+  private async post(config: SyncConfig, batch: SyncBatch): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': batch.id,
+    };
+    if (config.authHeader.trim() && config.authValue) {
+      headers[config.authHeader.trim()] = config.authValue;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(config.endpoint.trim(), {
+        method: 'POST',
+        headers,
+        body: batch.payload,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new HttpError(response.status);
+      }
+    } catch (error) {
+      throw controller.signal.aborted ? new Error('Request timed out') : error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // IDLE becomes WAITING while a failed batch is still queued
+  private async updateStatus(state: SyncState): Promise<void> {
+    const { batches, items, rejected } = await DetectionStore.getSyncQueueSize();
+    const [next] = batches > 0 ? await DetectionStore.getSyncBatches(1) : [];
+    this.status = {
+      ...this.status,
+      state: state === SyncState.IDLE && next?.lastError ? SyncState.WAITING : state,
+      queuedBatches: batches,
+      queuedItems: items,
+      rejectedBatches: rejected,
+      nextAttemptAt: next?.lastError ? next.nextAttemptAt : undefined,
+      lastError: next?.lastError ?? (state === SyncState.DISABLED ? undefined : this.status.lastError),
+    };
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export default new SyncService();
@@ -0,0 +1,178 @@
+import DetectionStore, { BinnedCount } from '@/services/DetectionStore';
+import { SpeedSummary, summarizeSpeeds } from '@/services/SpeedEstimation';
+import { TaxonomyCount, VehicleTaxonomy, classIdOf, createEmptyTaxonomyCount } from '@/services/VehicleClasses';
+import { VehicleCount, VehicleType, createEmptyVehicleCount } from '@/services/VehicleTypes';
+
+export const STANDARD_BIN_MINUTES = [5, 15, 60];
+
+const MINUTE_MS = 60 * 1000;
+const PEAK_INTERVAL_MINUTES = 15;
+const PEAK_INTERVALS_PER_HOUR = 4;
+
+export interface VolumeQuery {
+  sessionId?: string;
+  from: Date;
+  to: Date;
+  binMinutes: number;
+  types?: VehicleType[];
+  taxonomy: VehicleTaxonomy; // grouping for classCounts
+}
+
+export interface VolumeBin {
+  start: Date;
+  end: Date;
+  counts: VehicleCount;
+  classCounts: TaxonomyCount;
+}
+
+// One hour of the week, over every session on the device
+export interface WeeklyProfileCell {
+  day: number; // 0 = Monday … 6 = Sunday, in local time
+  hour: number; // 0-23, local time
+  count: number;
+  observedHours: number; // time sessions were running in this hour of the week
+}
+
+export interface PeakHour {
+  start: Date;
+  end: Date;
+  volume: number;
+  peak15MinuteVolume: number;
+  // Hourly volume / (4 × busiest 15-minute volume within that hour); 1.0 means perfectly even flow
+  peakHourFactor: number;
+}
+
+// Dense series from the bin containing `from` up to `to`; empty bins are included
+export function buildVolumeSeries(
+  binned: BinnedCount[],
+  from: Date,
+  to: Date,
+  binMinutes: number,
+  taxonomy: VehicleTaxonomy
+): VolumeBin[] {
+  const binMs = binMinutes * MINUTE_MS;
+  const countsByBin = new Map<number, VehicleCount>();
+  const classCountsByBin = new Map<number, TaxonomyCount>();
+  binned.forEach(({ binStart, type, bodyClass, count }) => {
+    const counts = countsByBin.get(binStart) ?? createEmptyVehicleCount();
+    counts[type] += count;
+    counts.total += count;
+    countsByBin.set(binStart, counts);
+
+    const classCounts = classCountsByBin.get(binStart) ?? createEmptyTaxonomyCount(taxonomy);
+    classCounts.byClass[classIdOf(taxonomy, bodyClass)] += count;
+    classCounts.total += count;
+    classCountsByBin.set(binStart, classCounts);
+  });
+
+  const bins: VolumeBin[] = [];
+  const firstBin = Math.floor(from.getTime() / binMs) * binMs;
+  for (let binStart = firstBin; binStart < to.getTime(); binStart += binMs) {
+    bins.push({
+      start: new Date(binStart),
+      end: new Date(binStart + binMs),
+      counts: countsByBin.get(binStart) ?? createEmptyVehicleCount(),
+      classCounts: classCountsByBin.get(binStart) ?? createEmptyTaxonomyCount(taxonomy),
+    });
+  }
+  return bins;
+}
+
+// Busiest four consecutive 15-minute intervals
+export function findPeakHour(quarterHourBins: VolumeBin[]): PeakHour | null {
+  if (quarterHourBins.length < PEAK_INTERVALS_PER_HOUR) return null;
+
+  let best: PeakHour | null = null;
+  for (let i = 0; i + PEAK_INTERVALS_PER_HOUR <= quarterHourBins.length; i++) {
+    const window = quarterHourBins.slice(i, i + PEAK_INTERVALS_PER_HOUR);
+    const volume = window.reduce((sum, bin) => sum + bin.counts.total, 0);
+    if (best && volume <= best.volume) continue;
+
+    const peak15MinuteVolume = Math.max(...window.map(bin => bin.counts.total));
+    best = {
+      start: window[0].start,
+      end: window[window.length - 1].end,
+      volume,
+      peak15MinuteVolume,
+      peakHourFactor: peak15MinuteVolume > 0 ? volume / (PEAK_INTERVALS_PER_HOUR * peak15MinuteVolume) : 0,
+    };
+  }
+
+  return best && best.volume > 0 ? best : null;
+}
+
+// Monday-first local day and hour of a timestamp
+function weekSlot(time: number): { day: number; hour: number } {
+  const date = new Date(time);
+  return { day: (date.getDay() + 6) % 7, hour: date.getHours() };
+}
+
+// Rows are days, columns hours. Bins and spans are walked in 15-minute steps, which stay
+// aligned to local hours in every time zone
+export function buildWeeklyProfile(
+  binned: { binStart: number; count: number }[],
+  spans: { start: Date; end: Date }[]
+): WeeklyProfileCell[][] {
+  const profile = Array.from({ length: 7 }, (_, day) =>
+    Array.from({ length: 24 }, (_, hour) => ({ day, hour, count: 0, observedHours: 0 }))
+  );
+
+  binned.forEach(({ binStart, count }) => {
+    const { day, hour } = weekSlot(binStart);
+    profile[day][hour].count += count;
+  });
+
+  const stepMs = PEAK_INTERVAL_MINUTES * MINUTE_MS;
+  spans.forEach(({ start, end }) => {
+    const from = start.getTime();
+    const to = end.getTime();
+    for (let stepStart = Math.floor(from / stepMs) * stepMs; stepStart < to; stepStart += stepMs) {
+      const covered = Math.min(to, stepStart + stepMs) - Math.max(from, stepStart);
+      const { day, hour } = weekSlot(stepStart);
+      profile[day][hour].observedHours += covered / (60 * MINUTE_MS);
+    }
+  });
+
+  return profile;
+}
+
+class TrafficAggregator {
+  async getVolumeSeries(query: VolumeQuery): Promise<VolumeBin[]> {
+    if (!(query.binMinutes > 0)) {
+      throw new Error(`Invalid bin size: ${query.binMinutes} minutes`);
+    }
+    if (query.to.getTime() <= query.from.getTime()) {
+      return [];
+    }
+
+    const binned = await DetectionStore.getBinnedCounts(
+      { sessionId: query.sessionId, from: query.from, to: query.to, types: query.types },
+      query.binMinutes * MINUTE_MS
+    );
+    return buildVolumeSeries(binned, query.from, query.to, query.binMinutes, query.taxonomy);
+  }
+
+  async getPeakHour(query: Omit<VolumeQuery, 'binMinutes'>): Promise<PeakHour | null> {
+    const bins = await this.getVolumeSeries({ ...query, binMinutes: PEAK_INTERVAL_MINUTES });
+    return findPeakHour(bins);
+  }
+
+  // Running sessions count as observed up to now
+  async getWeeklyProfile(): Promise<WeeklyProfileCell[][]> {
+    const now = new Date();
+    const [binned, sessions] = await Promise.all([
+      DetectionStore.getBinnedCounts({}, PEAK_INTERVAL_MINUTES * MINUTE_MS),
+      DetectionStore.listSessions(),
+    ]);
+    return buildWeeklyProfile(
+      binned,
+      sessions.map(session => ({ start: session.startedAt, end: session.endedAt ?? now }))
+    );
+  }
+
+  async getSpeedSummary(sessionId: string, limitKmh: number | null): Promise<SpeedSummary | null> {
+    return summarizeSpeeds(await DetectionStore.getSpeeds(sessionId), limitKmh);
+  }
+}
+
+export default new TrafficAggregator();
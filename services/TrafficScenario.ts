@@ -0,0 +1,322 @@
+import { BoundingBox, Point, intersectionArea } from '@/services/geometry';
+import { VehicleType } from '@/services/VehicleTypes';
+
+// All positions are normalized (0-1) frame coordinates; lanes may start and end off-screen
+export interface Lane {
+  id: string;
+  start: Point;
+  end: Point;
+  speed: number; // frame widths per second
+}
+
+export interface ScriptedVehicle {
+  type: VehicleType;
+  laneId: string;
+  enterAtMs: number;
+}
+
+export interface TrafficScenario {
+  id: string;
+  name: string;
+  lanes: Lane[];
+  // Mean Poisson arrivals per minute for each class, spread across all lanes
+  arrivalsPerMinute: Partial<Record<VehicleType, number>>;
+  scriptedVehicles?: ScriptedVehicle[];
+  // Static objects in front of the road (signs, trees) that hide vehicles passing behind them
+  occluders?: BoundingBox[];
+  // Per-frame chance of the detector missing a clearly visible vehicle
+  missRate?: number;
+}
+
+export interface SimulatedVehicle {
+  key: number; // derived from the arrival stream and arrival number, never from scheduling order
+  type: VehicleType;
+  lane: Lane;
+  enterAtMs: number;
+  speed: number;
+  plate: string;
+}
+
+export interface SimulatedObservation {
+  vehicle: SimulatedVehicle;
+  bbox: BoundingBox;
+  confidence: number;
+  plateCharConfidences: number[] | null; // null when the plate is not legible in this frame
+}
+
+interface ArrivalStream {
+  id: number;
+  type: VehicleType;
+  rate: number;
+  random: () => number;
+  arrivals: number;
+  nextAtMs: number;
+}
+
+// Vehicle size at the bottom edge of the frame; boxes shrink towards the horizon
+const VEHICLE_SIZES: Record<VehicleType, { width: number; height: number }> = {
+  [VehicleType.CAR]: { width: 0.16, height: 0.11 },
+  [VehicleType.VAN]: { width: 0.18, height: 0.15 },
+  [VehicleType.BUS]: { width: 0.3, height: 0.22 },
+  [VehicleType.TRUCK]: { width: 0.28, height: 0.2 },
+  [VehicleType.MOTORCYCLE]: { width: 0.06, height: 0.09 },
+  [VehicleType.BICYCLE]: { width: 0.05, height: 0.09 },
+  [VehicleType.UNKNOWN]: { width: 0.12, height: 0.1 },
+};
+
+const HIDDEN_FRACTION = 0.6; // a vehicle more than this much covered is not detected
+const SPEED_VARIATION = 0.2;
+const FRAME_BUCKET_MS = 250; // per-frame randomness is stable within one bucket
+const PLATE_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const ILLEGIBLE_PLATE_RATE = 0.2;
+const REWIND_WINDOW_MS = 60 * 1000;
+
+// Fixed per class rather than by position, so reordering arrivalsPerMinute keeps the output
+const STREAM_IDS: Record<VehicleType, number> = {
+  [VehicleType.CAR]: 1,
+  [VehicleType.BUS]: 2,
+  [VehicleType.TRUCK]: 3,
+  [VehicleType.MOTORCYCLE]: 4,
+  [VehicleType.BICYCLE]: 5,
+  [VehicleType.VAN]: 6,
+  [VehicleType.UNKNOWN]: 7,
+};
+const SCRIPTED_STREAM_ID = 100;
+
+export const DEFAULT_SIMULATION_SEED = 42;
+
+export const SCENARIOS: TrafficScenario[] = [
+  {
+    id: 'two-way-road',
+    name: 'Two-way road',
+    lanes: [
+      { id: 'eastbound', start: { x: -0.3, y: 0.72 }, end: { x: 1.3, y: 0.78 }, speed: 0.12 },
+      { id: 'westbound', start: { x: 1.3, y: 0.58 }, end: { x: -0.3, y: 0.54 }, speed: 0.1 },
+    ],
+    arrivalsPerMinute: {
+      [VehicleType.CAR]: 8,
+      [VehicleType.VAN]: 2,
+      [VehicleType.TRUCK]: 1,
+      [VehicleType.BUS]: 0.5,
+      [VehicleType.MOTORCYCLE]: 1,
+      [VehicleType.BICYCLE]: 1,
+    },
+    missRate: 0.05,
+  },
+  {
+    id: 'rush-hour',
+    name: 'Rush hour with sign occlusion',
+    lanes: [
+      { id: 'inbound-1', start: { x: -0.3, y: 0.8 }, end: { x: 1.3, y: 0.85 }, speed: 0.08 },
+      { id: 'inbound-2', start: { x: -0.3, y: 0.68 }, end: { x: 1.3, y: 0.72 }, speed: 0.09 },
+      { id: 'outbound', start: { x: 1.3, y: 0.55 }, end: { x: -0.3, y: 0.52 }, speed: 0.11 },
+    ],
+    arrivalsPerMinute: {
+      [VehicleType.CAR]: 20,
+      [VehicleType.VAN]: 5,
+      [VehicleType.TRUCK]: 2,
+      [VehicleType.BUS]: 2,
+      [VehicleType.MOTORCYCLE]: 3,
+      [VehicleType.BICYCLE]: 2,
+    },
+    occluders: [{ x: 0.45, y: 0.35, width: 0.08, height: 0.4 }],
+    missRate: 0.08,
+  },
+  {
+    id: 'scripted-convoy',
+    name: 'Scripted convoy',
+    lanes: [
+      { id: 'main', start: { x: -0.3, y: 0.7 }, end: { x: 1.3, y: 0.7 }, speed: 0.12 },
+    ],
+    arrivalsPerMinute: {},
+    scriptedVehicles: [
+      { type: VehicleType.CAR, laneId: 'main', enterAtMs: 0 },
+      { type: VehicleType.TRUCK, laneId: 'main', enterAtMs: 4000 },
+      { type: VehicleType.CAR, laneId: 'main', enterAtMs: 9000 },
+      { type: VehicleType.BUS, laneId: 'main', enterAtMs: 15000 },
+      { type: VehicleType.MOTORCYCLE, laneId: 'main', enterAtMs: 17000 },
+    ],
+  },
+];
+
+// mulberry32: small, fast and identical on every JS engine
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Combines values into one well-spread 32-bit seed (murmur3 finalizer after each value)
+function mixSeed(...values: number[]): number {
+  return values.reduce((hash, value) => {
+    let h = (hash ^ (value >>> 0)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+    h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+    return (h ^ (h >>> 16)) >>> 0;
+  }, 0x811C9DC5);
+}
+
+function laneLength(lane: Lane): number {
+  return Math.hypot(lane.end.x - lane.start.x, lane.end.y - lane.start.y);
+}
+
+// Plays a scenario back as a pure function of elapsed time: the same seed and
+// time always give the same observations, whatever order frames are requested in.
+export class ScenarioPlayer {
+  private vehicles: SimulatedVehicle[] = [];
+  private scheduledUntilMs = 0;
+  // Vehicles that left the road before this are dropped; an earlier time replays the scenario from the start
+  private observableFromMs = 0;
+  private arrivalStreams: ArrivalStream[] = [];
+  private readonly maxLifetimeMs: number;
+
+  constructor(readonly scenario: TrafficScenario, readonly seed: number = DEFAULT_SIMULATION_SEED) {
+    const slowest = Math.min(...scenario.lanes.map(lane => lane.speed * (1 - SPEED_VARIATION)));
+    const longest = Math.max(...scenario.lanes.map(laneLength));
+    this.maxLifetimeMs = (longest / slowest) * 1000;
+    this.restart();
+  }
+
+  observe(elapsedMs: number): SimulatedObservation[] {
+    if (elapsedMs < this.observableFromMs) {
+      this.restart();
+    }
+    this.scheduleUntil(elapsedMs);
+    this.prune(elapsedMs);
+    const bucket = Math.floor(elapsedMs / FRAME_BUCKET_MS);
+
+    const visible = this.vehicles
+      .filter(vehicle => vehicle.enterAtMs <= elapsedMs && vehicle.enterAtMs >= elapsedMs - this.maxLifetimeMs)
+      .map(vehicle => ({ vehicle, bbox: this.boxAt(vehicle, elapsedMs) }))
+      .filter((entry): entry is { vehicle: SimulatedVehicle; bbox: BoundingBox } => entry.bbox !== null);
+
+    const observations: SimulatedObservation[] = [];
+    visible.forEach(({ vehicle, bbox }) => {
+      const frameRandom = createRandom(mixSeed(this.seed, 3, vehicle.key, bucket));
+      if (frameRandom() < (this.scenario.missRate ?? 0)) return;
+
+      // Nearer vehicles (lower in the frame) and static occluders hide what is behind them
+      const blockers = [
+        ...(this.scenario.occluders ?? []),
+        ...visible
+          .filter(other => other.vehicle !== vehicle && other.bbox.y + other.bbox.height > bbox.y + bbox.height)
+          .map(other => other.bbox),
+      ];
+      const area = bbox.width * bbox.height;
+      const covered = Math.min(1, blockers.reduce((sum, blocker) => sum + intersectionArea(bbox, blocker), 0) / area);
+      if (covered > HIDDEN_FRACTION) return;
+
+      observations.push({
+        vehicle,
+        bbox,
+        confidence: (0.6 + frameRandom() * 0.38) * (1 - covered * 0.5),
+        plateCharConfidences: frameRandom() < ILLEGIBLE_PLATE_RATE
+          ? null
+          : vehicle.plate.split('').map(() => 0.5 + frameRandom() * 0.5),
+      });
+    });
+
+    return observations;
+  }
+
+  private restart(): void {
+    this.vehicles = [];
+    this.scheduledUntilMs = 0;
+    this.observableFromMs = 0;
+
+    // One independent stream per class so changing one rate leaves the others untouched
+    this.arrivalStreams = [];
+    Object.entries(this.scenario.arrivalsPerMinute).forEach(([type, rate]) => {
+      if (rate === undefined || rate <= 0) return;
+      const id = STREAM_IDS[type as VehicleType];
+      const random = createRandom(mixSeed(this.seed, 2, id));
+      this.arrivalStreams.push({ id, type: type as VehicleType, rate, random, arrivals: 0, nextAtMs: this.exponentialMs(random, rate) });
+    });
+
+    (this.scenario.scriptedVehicles ?? []).forEach((scripted, index) => {
+      const lane = this.scenario.lanes.find(candidate => candidate.id === scripted.laneId);
+      if (lane) this.addVehicle(mixSeed(SCRIPTED_STREAM_ID, index), scripted.type, lane, scripted.enterAtMs);
+    });
+    this.vehicles.sort((a, b) => a.enterAtMs - b.enterAtMs || a.key - b.key);
+  }
+
+  // Keeps a short rewind window so frames requested slightly out of order do not force a replay
+  private prune(elapsedMs: number): void {
+    const observableFromMs = elapsedMs - REWIND_WINDOW_MS;
+    if (observableFromMs <= this.observableFromMs) return;
+
+    // Sorted by entry time, so everything gone for good is at the front
+    const kept = this.vehicles.findIndex(vehicle => vehicle.enterAtMs + this.maxLifetimeMs >= observableFromMs);
+    this.vehicles.splice(0, kept === -1 ? this.vehicles.length : kept);
+    this.observableFromMs = observableFromMs;
+  }
+
+  private scheduleUntil(elapsedMs: number): void {
+    if (elapsedMs <= this.scheduledUntilMs) return;
+
+    this.arrivalStreams.forEach(stream => {
+      while (stream.nextAtMs <= elapsedMs) {
+        const lane = this.scenario.lanes[Math.floor(stream.random() * this.scenario.lanes.length)];
+        this.addVehicle(mixSeed(stream.id, stream.arrivals++), stream.type, lane, stream.nextAtMs);
+        stream.nextAtMs += this.exponentialMs(stream.random, stream.rate);
+      }
+    });
+    this.vehicles.sort((a, b) => a.enterAtMs - b.enterAtMs || a.key - b.key);
+    this.scheduledUntilMs = elapsedMs;
+  }
+
+  private addVehicle(key: number, type: VehicleType, lane: Lane, enterAtMs: number): void {
+    const random = createRandom(mixSeed(this.seed, 4, key));
+    let plate = '';
+    for (let i = 0; i < 3; i++) {
+      plate += PLATE_LETTERS.charAt(Math.floor(random() * PLATE_LETTERS.length));
+    }
+    for (let i = 0; i < 4; i++) {
+      plate += Math.floor(random() * 10);
+    }
+
+    this.vehicles.push({
+      key,
+      type,
+      lane,
+      enterAtMs,
+      speed: lane.speed * (1 + (random() * 2 - 1) * SPEED_VARIATION),
+      plate,
+    });
+  }
+
+  // Box anchored at the vehicle's road position, or null once it has left the lane or the frame
+  private boxAt(vehicle: SimulatedVehicle, elapsedMs: number): BoundingBox | null {
+    const { lane } = vehicle;
+    const travelled = (vehicle.speed * (elapsedMs - vehicle.enterAtMs)) / 1000;
+    const progress = travelled / laneLength(lane);
+    if (progress < 0 || progress > 1) return null;
+
+    const position = {
+      x: lane.start.x + (lane.end.x - lane.start.x) * progress,
+      y: lane.start.y + (lane.end.y - lane.start.y) * progress,
+    };
+    const scale = 0.4 + 0.6 * position.y;
+    const size = VEHICLE_SIZES[vehicle.type];
+    const width = size.width * scale;
+    const height = size.height * scale;
+
+    // Clip to the frame; vehicles mostly outside it are not visible yet
+    const left = Math.max(0, position.x - width / 2);
+    const right = Math.min(1, position.x + width / 2);
+    const top = Math.max(0, position.y - height);
+    const bottom = Math.min(1, position.y);
+    if ((right - left) < width * 0.5 || bottom <= top) return null;
+
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private exponentialMs(random: () => number, perMinute: number): number {
+    return (-Math.log(1 - random()) / perMinute) * 60 * 1000;
+  }
+}
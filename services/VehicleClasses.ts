@@ -0,0 +1,235 @@
+import { VehicleType } from '@/services/VehicleTypes';
+
+// Body type of a single vehicle, finer than what the detector reports. The values for
+// unsplit detector classes match VehicleType so older detections map onto them directly.
+export enum BodyClass {
+  CAR = 'car',
+  VAN = 'van',
+  PICKUP = 'pickup',
+  TRUCK = 'truck', // truck the classifier did not split
+  LIGHT_TRUCK = 'light_truck',
+  HEAVY_TRUCK = 'heavy_truck', // heavy single unit
+  ARTICULATED_TRUCK = 'articulated_truck', // tractor with one or more trailers
+  BUS = 'bus',
+  MOTORCYCLE = 'motorcycle',
+  BICYCLE = 'bicycle',
+  UNKNOWN = 'unknown'
+}
+
+export enum TaxonomyId {
+  VEHICLE_TYPES = 'vehicle_types',
+  BODY_TYPES = 'body_types',
+  FHWA_13 = 'fhwa_13',
+  CUSTOM = 'custom',
+}
+
+export interface VehicleClass {
+  id: string; // column name in exports
+  label: string;
+}
+
+export interface VehicleTaxonomy {
+  id: TaxonomyId;
+  name: string;
+  classes: VehicleClass[];
+  classOf: Record<BodyClass, string>; // body class to class id
+}
+
+// A user-defined grouping: each body class is given the label of the group it counts in
+export interface CustomTaxonomyConfig {
+  name: string;
+  groups: Record<BodyClass, string>;
+}
+
+export interface TaxonomyCount {
+  byClass: { [classId: string]: number };
+  total: number;
+}
+
+export const BODY_CLASS_LABELS: Record<BodyClass, string> = {
+  [BodyClass.CAR]: 'Car',
+  [BodyClass.VAN]: 'Van',
+  [BodyClass.PICKUP]: 'Pickup',
+  [BodyClass.TRUCK]: 'Truck (unsplit)',
+  [BodyClass.LIGHT_TRUCK]: 'Light truck',
+  [BodyClass.HEAVY_TRUCK]: 'Heavy truck',
+  [BodyClass.ARTICULATED_TRUCK]: 'Articulated truck',
+  [BodyClass.BUS]: 'Bus',
+  [BodyClass.MOTORCYCLE]: 'Motorcycle',
+  [BodyClass.BICYCLE]: 'Bicycle',
+  [BodyClass.UNKNOWN]: 'Unknown',
+};
+
+// Detector type a body class is reported under; follows COCO, which labels pickups as trucks
+export const BODY_VEHICLE_TYPES: Record<BodyClass, VehicleType> = {
+  [BodyClass.CAR]: VehicleType.CAR,
+  [BodyClass.VAN]: VehicleType.VAN,
+  [BodyClass.PICKUP]: VehicleType.TRUCK,
+  [BodyClass.TRUCK]: VehicleType.TRUCK,
+  [BodyClass.LIGHT_TRUCK]: VehicleType.TRUCK,
+  [BodyClass.HEAVY_TRUCK]: VehicleType.TRUCK,
+  [BodyClass.ARTICULATED_TRUCK]: VehicleType.TRUCK,
+  [BodyClass.BUS]: VehicleType.BUS,
+  [BodyClass.MOTORCYCLE]: VehicleType.MOTORCYCLE,
+  [BodyClass.BICYCLE]: VehicleType.BICYCLE,
+  [BodyClass.UNKNOWN]: VehicleType.UNKNOWN,
+};
+
+export const TAXONOMY_OPTIONS = [
+  { id: TaxonomyId.VEHICLE_TYPES, label: 'Vehicle types' },
+  { id: TaxonomyId.BODY_TYPES, label: 'Body types' },
+  { id: TaxonomyId.FHWA_13, label: 'FHWA 13' },
+  { id: TaxonomyId.CUSTOM, label: 'Custom' },
+];
+
+export const DEFAULT_CUSTOM_TAXONOMY: CustomTaxonomyConfig = {
+  name: 'Light / heavy',
+  groups: {
+    [BodyClass.CAR]: 'Light',
+    [BodyClass.VAN]: 'Light',
+    [BodyClass.PICKUP]: 'Light',
+    [BodyClass.TRUCK]: 'Heavy',
+    [BodyClass.LIGHT_TRUCK]: 'Heavy',
+    [BodyClass.HEAVY_TRUCK]: 'Heavy',
+    [BodyClass.ARTICULATED_TRUCK]: 'Heavy',
+    [BodyClass.BUS]: 'Heavy',
+    [BodyClass.MOTORCYCLE]: 'Two-wheeler',
+    [BodyClass.BICYCLE]: 'Two-wheeler',
+    [BodyClass.UNKNOWN]: 'Unknown',
+  },
+};
+
+// Same classes, ids and order as VehicleType, so counts and exports look as they did before body classes
+const VEHICLE_TYPES_TAXONOMY: VehicleTaxonomy = {
+  id: TaxonomyId.VEHICLE_TYPES,
+  name: 'Vehicle types',
+  classes: Object.values(VehicleType).map(type => ({ id: type, label: type.charAt(0).toUpperCase() + type.slice(1) })),
+  classOf: BODY_VEHICLE_TYPES,
+};
+
+const BODY_TYPES_TAXONOMY: VehicleTaxonomy = {
+  id: TaxonomyId.BODY_TYPES,
+  name: 'Body types',
+  classes: Object.values(BodyClass)
+    .filter(body => body !== BodyClass.ARTICULATED_TRUCK)
+    .map(body => ({ id: body, label: BODY_CLASS_LABELS[body] })),
+  classOf: {
+    ...Object.fromEntries(Object.values(BodyClass).map(body => [body, body])) as Record<BodyClass, string>,
+    [BodyClass.ARTICULATED_TRUCK]: BodyClass.HEAVY_TRUCK,
+  },
+};
+
+// FHWA Traffic Monitoring Guide classes. A camera cannot count axles, so classes 7, 8 and
+// 10-13 are never produced; they stay as columns so reports line up with axle-counter data.
+const FHWA_13_TAXONOMY: VehicleTaxonomy = {
+  id: TaxonomyId.FHWA_13,
+  name: 'FHWA 13',
+  classes: [
+    { id: 'class_1', label: '1 Motorcycles' },
+    { id: 'class_2', label: '2 Passenger cars' },
+    { id: 'class_3', label: '3 Pickups and vans' },
+    { id: 'class_4', label: '4 Buses' },
+    { id: 'class_5', label: '5 Two-axle, six-tire single unit' },
+    { id: 'class_6', label: '6 Three-axle single unit' },
+    { id: 'class_7', label: '7 Four or more axle single unit' },
+    { id: 'class_8', label: '8 Four or fewer axle single trailer' },
+    { id: 'class_9', label: '9 Five-axle single trailer' },
+    { id: 'class_10', label: '10 Six or more axle single trailer' },
+    { id: 'class_11', label: '11 Five or fewer axle multi-trailer' },
+    { id: 'class_12', label: '12 Six-axle multi-trailer' },
+    { id: 'class_13', label: '13 Seven or more axle multi-trailer' },
+    { id: 'unclassified', label: 'Unclassified' },
+  ],
+  classOf: {
+    [BodyClass.MOTORCYCLE]: 'class_1',
+    [BodyClass.CAR]: 'class_2',
+    [BodyClass.VAN]: 'class_3',
+    [BodyClass.PICKUP]: 'class_3',
+    [BodyClass.BUS]: 'class_4',
+    [BodyClass.LIGHT_TRUCK]: 'class_5',
+    [BodyClass.HEAVY_TRUCK]: 'class_6',
+    [BodyClass.ARTICULATED_TRUCK]: 'class_9', // by far the most common combination
+    [BodyClass.TRUCK]: 'unclassified',
+    [BodyClass.BICYCLE]: 'unclassified', // not a motor vehicle class
+    [BodyClass.UNKNOWN]: 'unclassified',
+  },
+};
+
+function toClassId(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// Classes appear in body class order; labels that reduce to the same id share a class
+export function buildCustomTaxonomy(config: CustomTaxonomyConfig): VehicleTaxonomy {
+  const classes: VehicleClass[] = [];
+  const classOf = {} as Record<BodyClass, string>;
+  Object.values(BodyClass).forEach(body => {
+    const label = config.groups[body]?.trim() || BODY_CLASS_LABELS[body];
+    const id = toClassId(label) || body;
+    if (!classes.some(entry => entry.id === id)) {
+      classes.push({ id, label });
+    }
+    classOf[body] = id;
+  });
+  return { id: TaxonomyId.CUSTOM, name: config.name.trim() || 'Custom', classes, classOf };
+}
+
+export function getTaxonomy(id: TaxonomyId, custom: CustomTaxonomyConfig): VehicleTaxonomy {
+  switch (id) {
+    case TaxonomyId.BODY_TYPES: return BODY_TYPES_TAXONOMY;
+    case TaxonomyId.FHWA_13: return FHWA_13_TAXONOMY;
+    case TaxonomyId.CUSTOM: return buildCustomTaxonomy(custom);
+    default: return VEHICLE_TYPES_TAXONOMY;
+  }
+}
+
+export function validateCustomTaxonomy(config: CustomTaxonomyConfig): string[] {
+  const errors: string[] = [];
+  if (!config.name?.trim()) {
+    errors.push('Custom scheme needs a name');
+  }
+  Object.values(BodyClass).forEach(body => {
+    const label = config.groups?.[body];
+    if (typeof label !== 'string' || !toClassId(label)) {
+      errors.push(`Custom scheme has no class for ${BODY_CLASS_LABELS[body].toLowerCase()}`);
+    }
+  });
+  return errors;
+}
+
+// Body class a detection has before (or without) the secondary classifier
+const UNSPLIT_BODY_CLASSES: Record<VehicleType, BodyClass> = {
+  [VehicleType.CAR]: BodyClass.CAR,
+  [VehicleType.BUS]: BodyClass.BUS,
+  [VehicleType.TRUCK]: BodyClass.TRUCK,
+  [VehicleType.MOTORCYCLE]: BodyClass.MOTORCYCLE,
+  [VehicleType.BICYCLE]: BodyClass.BICYCLE,
+  [VehicleType.VAN]: BodyClass.VAN,
+  [VehicleType.UNKNOWN]: BodyClass.UNKNOWN,
+};
+
+export function bodyClassFor(type: VehicleType): BodyClass {
+  return UNSPLIT_BODY_CLASSES[type] ?? BodyClass.UNKNOWN;
+}
+
+export function createEmptyTaxonomyCount(taxonomy: VehicleTaxonomy): TaxonomyCount {
+  const byClass: { [classId: string]: number } = {};
+  taxonomy.classes.forEach(({ id }) => {
+    byClass[id] = 0;
+  });
+  return { byClass, total: 0 };
+}
+
+// Body classes stored by a newer version fall back to the unknown class
+export function classIdOf(taxonomy: VehicleTaxonomy, bodyClass: BodyClass): string {
+  return taxonomy.classOf[bodyClass] ?? taxonomy.classOf[BodyClass.UNKNOWN];
+}
+
+export function countByClass(bodyCounts: Partial<Record<BodyClass, number>>, taxonomy: VehicleTaxonomy): TaxonomyCount {
+  const count = createEmptyTaxonomyCount(taxonomy);
+  Object.entries(bodyCounts).forEach(([body, value]) => {
+    count.byClass[classIdOf(taxonomy, body as BodyClass)] += value ?? 0;
+    count.total += value ?? 0;
+  });
+  return count;
+}
@@ -0,0 +1,113 @@
+import * as tf from '@tensorflow/tfjs';
+import { BoundingBox } from '@/services/geometry';
+import ModelCache, { ModelDescriptor, ModelInfo, parsePinnedHashes } from '@/services/ModelCache';
+import { BodyClass } from '@/services/VehicleClasses';
+import { VehicleType } from '@/services/VehicleTypes';
+
+export interface BodyClassification {
+  bodyClass: BodyClass;
+  confidence: number;
+}
+
+// Crop classifier fine-tuned on vehicle body types:
+// [n, 224, 224, 3] RGB in [0, 1] -> [n, 6] probabilities over CLASSIFIER_LABELS.
+// Like the YOLO model it has no public host, so the model.json URL is supplied at build time.
+const CLASSIFIER_MODEL: ModelDescriptor = {
+  id: 'vehicle-body-classifier',
+  name: 'Vehicle body classifier',
+  version: '1',
+  url: process.env.EXPO_PUBLIC_VEHICLE_CLASSIFIER_URL ?? '',
+  md5: parsePinnedHashes(process.env.EXPO_PUBLIC_VEHICLE_CLASSIFIER_MD5),
+};
+
+const CLASSIFIER_LABELS = [
+  BodyClass.CAR,
+  BodyClass.VAN,
+  BodyClass.PICKUP,
+  BodyClass.LIGHT_TRUCK,
+  BodyClass.HEAVY_TRUCK,
+  BodyClass.ARTICULATED_TRUCK,
+];
+const CLASSIFIER_INPUT_SIZE = 224;
+// Below this the detector's own class is kept
+const MIN_BODY_CONFIDENCE = 0.5;
+
+// Only these detector classes have body types worth splitting
+const CLASSIFIED_TYPES = [VehicleType.CAR, VehicleType.VAN, VehicleType.TRUCK];
+
+class VehicleClassifier {
+  private model: tf.GraphModel | null = null;
+  private info: ModelInfo | null = null;
+
+  async initialize(): Promise<void> {
+    if (!CLASSIFIER_MODEL.url) {
+      console.log('No vehicle classifier configured; trucks and cars are counted unsplit');
+      return;
+    }
+
+    try {
+      console.log('Loading vehicle classifier...');
+      const { model, info } = await ModelCache.load(CLASSIFIER_MODEL);
+      this.model = model;
+      this.info = info;
+      console.log(`Vehicle classifier v${info.version} loaded from ${info.source}`);
+    } catch (error) {
+      console.error('Failed to load vehicle classifier:', error);
+      console.log('Body type classification disabled');
+      this.model = null;
+      this.info = null;
+    }
+  }
+
+  isReady(): boolean {
+    return this.model !== null;
+  }
+
+  getModelInfo(): ModelInfo | null {
+    return this.info ? { ...this.info } : null;
+  }
+
+  appliesTo(type: VehicleType): boolean {
+    return CLASSIFIED_TYPES.includes(type);
+  }
+
+  // vehicleBoxes are in normalized (0-1) coordinates of image; null where the classifier is unsure
+  async classify(image: tf.Tensor3D, vehicleBoxes: BoundingBox[]): Promise<(BodyClassification | null)[]> {
+    if (!this.model || vehicleBoxes.length === 0) return vehicleBoxes.map(() => null);
+
+    const model = this.model;
+    // Disposed however classification ends
+    const tensors: tf.Tensor[] = [];
+    try {
+      const probabilities = tf.tidy(() => {
+        const crops = tf.image.cropAndResize(
+          image.expandDims(0).toFloat() as tf.Tensor4D,
+          vehicleBoxes.map(box => [box.y, box.x, box.y + box.height, box.x + box.width]),
+          vehicleBoxes.map(() => 0),
+          [CLASSIFIER_INPUT_SIZE, CLASSIFIER_INPUT_SIZE]
+        );
+        return model.predict(crops.div(255)) as tf.Tensor2D;
+      });
+      tensors.push(probabilities);
+      const best = tf.tidy(() => probabilities.argMax(1));
+      tensors.push(best);
+      const bestScores = tf.tidy(() => probabilities.max(1));
+      tensors.push(bestScores);
+      const indices = await best.data();
+      const scores = await bestScores.data();
+
+      return Array.from(indices).map((index, i) => (
+        scores[i] >= MIN_BODY_CONFIDENCE && CLASSIFIER_LABELS[index]
+          ? { bodyClass: CLASSIFIER_LABELS[index], confidence: scores[i] }
+          : null
+      ));
+    } catch (error) {
+      console.error('Vehicle classification failed:', error);
+      return vehicleBoxes.map(() => null);
+    } finally {
+      tensors.forEach(tensor => tensor.dispose());
+    }
+  }
+}
+
+export default new VehicleClassifier();
@@ -1,51 +1,158 @@
 import * as tf from '@tensorflow/tfjs';
 import '@tensorflow/tfjs-backend-webgl';
+import { CountLine, CrossingDirection, LineCount, LineCrossing, findCrossing } from '@/services/CountLines';
+import DetectionStore, { DetectionQuery } from '@/services/DetectionStore';
+import { DEFAULT_DETECTION_FILTER, DetectionFilterConfig, filterDetections, minimumThreshold, validateDetectionFilter } from '@/services/DetectionFilter';
+import { ClassMap, DetectOptions, Detection, Detector, DetectorId } from '@/services/Detector';
+import EventStreamService from '@/services/EventStreamService';
+import { REPORT_INTERVAL_MINUTES } from '@/services/ExportService';
+import { FrameRateMeter } from '@/services/FrameRateMeter';
+import { BoundingBox, anchorPoint } from '@/services/geometry';
+import LicensePlateRecognizer from '@/services/LicensePlateRecognizer';
+import LocationService, { GeoLocation } from '@/services/LocationService';
+import { ModelInfo } from '@/services/ModelCache';
+import PlatePrivacy, { PlatePrivacyMode } from '@/services/PlatePrivacy';
+import { Region, isInActiveRegion } from '@/services/Regions';
+import { PurgeReport } from '@/services/Retention';
+import RetentionService from '@/services/RetentionService';
+import { CountingSession, SessionDetails, SessionSummary, defaultSessionName } from '@/services/Sessions';
+import SettingsService, { AppSettings, DEFAULT_SETTINGS } from '@/services/SettingsService';
+import { SimulatedDetector, SimulationSettings } from '@/services/SimulatedDetector';
+import { SpeedCalibration, estimateSpeed, summarizeSpeeds, validateCalibration } from '@/services/SpeedEstimation';
+import { SsdMobileNetDetector } from '@/services/SsdMobileNetDetector';
+import SyncService from '@/services/SyncService';
+import TrafficAggregator, { VolumeBin } from '@/services/TrafficAggregator';
+import {
+  BODY_VEHICLE_TYPES,
+  BodyClass,
+  TaxonomyCount,
+  VehicleTaxonomy,
+  bodyClassFor,
+  countByClass,
+  getTaxonomy,
+} from '@/services/VehicleClasses';
+import VehicleClassifier from '@/services/VehicleClassifier';
+import { TrackedDetection, TrackerConfig, VehicleTracker } from '@/services/VehicleTracker';
+import { VehicleCount, VehicleType, createEmptyVehicleCount } from '@/services/VehicleTypes';
+import WatchlistService from '@/services/WatchlistService';
+import { YoloDetector } from '@/services/YoloDetector';
+
+export { VehicleType, createEmptyVehicleCount };
+export type { VehicleCount };
+
+// bbox values are in this square space regardless of the size the detector actually runs at
+export const MODEL_INPUT_SIZE = 320;
+
+// Older detections stay in the store and are reached through queryDetections
+const MAX_IN_MEMORY_DETECTIONS = 200;
+
+// Share of a vehicle box, from the bottom, blurred when no plate region was found
+const PLATE_FALLBACK_HEIGHT = 0.4;
+// Redaction looks for vehicles well below the counting thresholds; a missed plate costs more than extra blur
+const REDACTION_SCORE_THRESHOLD = 0.1;
+const REDACTION_MAX_DETECTIONS = 100;
 
 export interface DetectedVehicle {
   id: string;
   type: VehicleType;
+  bodyClass: BodyClass;
+  bodyClassConfidence?: number; // set when the secondary classifier decided the body class
   confidence: number;
-  bbox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  bbox: BoundingBox;
   licensePlate?: string;
+  licensePlateConfidence?: number;
+  licensePlateCharConfidences?: number[];
+  plateRegion?: BoundingBox; // normalized (0-1) frame coordinates
   timestamp: Date;
+  sessionId?: string;
+  location?: GeoLocation;
+  speedKmh?: number; // set once the track has moved far enough through the speed calibration
 }
 
-interface ModelDetection {
-  bbox: [number, number, number, number];
-  class: string;
-  score: number;
+export type DetectorMode = 'model' | 'simulation';
+
+export interface DetectionThresholds extends DetectionFilterConfig {
+  tracker: TrackerConfig;
 }
 
-export enum VehicleType {
-  CAR = 'car',
-  BUS = 'bus',
-  TRUCK = 'truck',
-  MOTORCYCLE = 'motorcycle',
-  BICYCLE = 'bicycle',
-  VAN = 'van',
-  UNKNOWN = 'unknown'
+export interface DetectorOption {
+  id: DetectorId;
+  name: string;
 }
 
-export interface VehicleCount {
-  [VehicleType.CAR]: number;
-  [VehicleType.BUS]: number;
-  [VehicleType.TRUCK]: number;
-  [VehicleType.MOTORCYCLE]: number;
-  [VehicleType.BICYCLE]: number;
-  [VehicleType.VAN]: number;
-  [VehicleType.UNKNOWN]: number;
-  total: number;
+// A preview frame from the camera stream, already converted to upright RGB
+export interface VideoFrame {
+  data: ArrayBuffer; // 3 bytes per pixel, row by row
+  width: number;
+  height: number;
+  droppedFrames: number; // frames skipped since the previous one because the detector was busy
 }
 
+// When and where a frame was taken; live frames are now and here, recorded video is neither
+export interface FrameContext {
+  capturedAt: Date;
+  location?: GeoLocation;
+  imageUri?: string; // the frame as a file, when there is one; kept as the snapshot of watchlist hits
+}
+
+export interface StreamStats {
+  fps: number; // frames actually processed per second
+  processedFrames: number;
+  droppedFrames: number;
+  lastFrameMs: number; // detection, tracking and storage time of the latest frame
+}
+
+export enum DetectionEventType {
+  DETECTION = 'detection', // a vehicle was counted
+  LINE_CROSSING = 'line_crossing',
+  INTERVAL = 'interval', // a 15-minute interval of the active session closed
+}
+
+// What the service reports to observers outside the camera view, e.g. the live event stream
+export type DetectionEvent =
+  | { type: DetectionEventType.DETECTION; detection: DetectedVehicle }
+  | { type: DetectionEventType.LINE_CROSSING; crossing: LineCrossing; lineName: string }
+  | { type: DetectionEventType.INTERVAL; sessionId: string; interval: VolumeBin; taxonomy: VehicleTaxonomy };
+
+export type DetectionEventListener = (event: DetectionEvent) => void;
+
+const INTERVAL_MS = REPORT_INTERVAL_MINUTES * 60 * 1000;
+
 class VehicleDetectionService {
-  private model: tf.GraphModel | null = null;
+  private simulator = new SimulatedDetector();
+  private detectors: { [id in DetectorId]: Detector } = {
+    [DetectorId.SSD_MOBILENET]: new SsdMobileNetDetector(),
+    [DetectorId.YOLO]: new YoloDetector(),
+    [DetectorId.SIMULATION]: this.simulator,
+  };
+  private detector: Detector = this.detectors[DetectorId.SIMULATION];
   private detectedVehicles: DetectedVehicle[] = [];
-  private isModelLoaded = false;
+  private modelInfo: ModelInfo | null = null;
+  private tracker = new VehicleTracker();
+  private countLines: CountLine[] = [];
+  private lineCounts: { [lineId: string]: LineCount } = {};
+  private crossedLinesByTrack = new Map<string, Set<string>>();
+  private regions: Region[] = [];
+  private speedCalibration: SpeedCalibration | null = null;
+  private speedLimitKmh: number | null = null;
+  private speedsByTrack = new Map<string, number>();
+  private activeSession: CountingSession | null = null;
+  private detectionFilter: DetectionFilterConfig = { ...DEFAULT_DETECTION_FILTER };
+  // Last filter from settings; other settings changes must not replace a reopened session's thresholds
+  private settingsFilter: DetectionFilterConfig | null = null;
+  private classMap: ClassMap = { ...DEFAULT_SETTINGS.classMap };
+  private modelInputSize = DEFAULT_SETTINGS.modelInputSize;
+  private platePrivacy: PlatePrivacyMode = DEFAULT_SETTINGS.platePrivacy;
+  private taxonomy: VehicleTaxonomy = getTaxonomy(DEFAULT_SETTINGS.taxonomy, DEFAULT_SETTINGS.customTaxonomy);
+  // Counts are kept per body class so a different taxonomy can regroup them at any time
+  private bodyCounts: Partial<Record<BodyClass, number>> = {};
+  private frameRate = new FrameRateMeter();
+  private streamStats: StreamStats = { fps: 0, processedFrames: 0, droppedFrames: 0, lastFrameMs: 0 };
+  // Session that was live before an offline analysis took over, reopened when it finishes
+  private offlineAnalysis: { previousSessionId: string | null } | null = null;
+  private listeners = new Set<DetectionEventListener>();
+  // Start of the interval the latest frame fell in; null until the session's first frame
+  private intervalStart: number | null = null;
   private vehicleCount: VehicleCount = {
     [VehicleType.CAR]: 0,
     [VehicleType.BUS]: 0,
@@ -57,102 +164,487 @@ class VehicleDetectionService {
     total: 0
   };
 
-  private readonly COCO_CLASSES = [
-    'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
-    'traffic light', 'fire hydrant', '', 'stop sign', 'parking meter', 'bench', 'bird',
-    'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe',
-    '', 'backpack', 'umbrella', '', '', 'handbag', 'tie', 'suitcase', 'frisbee',
-    'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove',
-    'skateboard', 'surfboard', 'tennis racket', 'bottle', '', 'wine glass', 'cup',
-    'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
-    'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
-    'potted plant', 'bed', '', 'dining table', '', '', 'toilet', '', 'tv',
-    'laptop', 'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven',
-    'toaster', 'sink', 'refrigerator', '', 'book', 'clock', 'vase', 'scissors',
-    'teddy bear', 'hair drier', 'toothbrush'
-  ];
-
-  private readonly VEHICLE_CLASS_MAP: { [key: string]: VehicleType } = {
-    'bicycle': VehicleType.BICYCLE,
-    'car': VehicleType.CAR,
-    'motorcycle': VehicleType.MOTORCYCLE,
-    'bus': VehicleType.BUS,
-    'truck': VehicleType.TRUCK,
-  };
+  constructor() {
+    // Edits from the settings screen apply to the next frame
+    SettingsService.subscribe(settings => this.applySettings(settings));
+    RetentionService.subscribe(report => this.applyPurge(report));
+  }
 
   async initialize(): Promise<void> {
+    await SettingsService.load();
+    await WatchlistService.load();
+
+    try {
+      await DetectionStore.initialize();
+      // Finishes a rewrite cut short when the app last stopped
+      await this.protectStoredPlates(this.platePrivacy);
+
+      // Pick up a session that was still running when the app last stopped
+      const openSession = await DetectionStore.getOpenSession();
+      if (openSession) {
+        await this.loadSession(openSession);
+      }
+      await RetentionService.start();
+      // Not awaited: a slow or unreachable endpoint must not hold up model loading
+      SyncService.start();
+      EventStreamService.start();
+    } catch (error) {
+      console.error('Failed to open detection store:', error);
+    }
+
+    // Geotag detections when the user allows it; does not block model loading
+    LocationService.start();
+
     try {
       await tf.ready();
       console.log('TensorFlow.js ready');
-      
-      // Load COCO-SSD model for object detection
-      console.log('Loading vehicle detection model...');
-      this.model = await tf.loadGraphModel('https://tfhub.dev/tensorflow/tfjs-model/ssd_mobilenet_v2/1/default/1', {
-        fromTFHub: true
-      });
-      
-      this.isModelLoaded = true;
-      console.log('Vehicle detection model loaded successfully');
+
+      await this.setDetector(DetectorId.SSD_MOBILENET);
+      await LicensePlateRecognizer.initialize();
+      await VehicleClassifier.initialize();
     } catch (error) {
       console.error('Failed to initialize TensorFlow:', error);
       console.log('Falling back to simulation mode');
-      this.isModelLoaded = false;
+      this.detector = this.detectors[DetectorId.SIMULATION];
+      this.modelInfo = null;
     }
+
+    await this.ensureActiveSession();
   }
 
-  async detectVehicles(imageUri: string): Promise<DetectedVehicle[]> {
+  private async restoreFromStore(sessionId: string): Promise<void> {
+    // Rebuild counts from what was recorded before the last restart
+    this.vehicleCount = await DetectionStore.getVehicleCount(sessionId);
+    this.bodyCounts = await DetectionStore.getBodyClassCounts(sessionId);
+    this.detectedVehicles = await DetectionStore.getRecentDetections(sessionId, MAX_IN_MEMORY_DETECTIONS);
+
+    const totals = await DetectionStore.getLineCrossingTotals(sessionId);
+    totals.forEach(({ lineId, direction, type, count }) => {
+      const lineCount = this.lineCounts[lineId] ??= {
+        lineId,
+        name: this.countLines.find(line => line.id === lineId)?.name ?? lineId,
+        [CrossingDirection.A_TO_B]: createEmptyVehicleCount(),
+        [CrossingDirection.B_TO_A]: createEmptyVehicleCount(),
+      };
+      lineCount[direction][type] += count;
+      lineCount[direction].total += count;
+    });
+
+    console.log(`Restored ${this.vehicleCount.total} counted vehicles from the detection store`);
+  }
+
+  // Live frames by default; imported photos pass their own capture time and place
+  async detectVehicles(imageUri: string, context: FrameContext = this.liveFrameContext()): Promise<DetectedVehicle[]> {
+    if (this.offlineAnalysis) {
+      console.log('Ignoring live frame during offline analysis');
+      return [];
+    }
+
     try {
-      if (this.isModelLoaded && this.model) {
-        // Real AI detection
-        const detections = await this.runRealDetection(imageUri);
-        
-        // Update vehicle counts
-        this.updateVehicleCounts(detections);
-        
-        // Store detections
-        this.detectedVehicles.push(...detections);
-        
-        return detections;
-      } else {
-        // Fallback to simulation
-        console.log('Using simulation mode - model not loaded');
-        const simulatedDetections = this.simulateDetection();
-        
-        // Update vehicle counts
-        this.updateVehicleCounts(simulatedDetections);
-        
-        // Store detections
-        this.detectedVehicles.push(...simulatedDetections);
-        
-        return simulatedDetections;
-      }
+      const detections = await this.runDetection(imageUri, context);
+      return this.trackDetections(detections, { ...context, imageUri });
     } catch (error) {
       console.error('Vehicle detection failed:', error);
       throw error;
     }
   }
 
-  private async runRealDetection(imageUri: string): Promise<DetectedVehicle[]> {
+  // Switches the detector backend; keeps the current one if the new model cannot be loaded
+  async setDetector(id: DetectorId): Promise<DetectorId> {
+    const next = this.detectors[id];
+    if (next === this.detector && next.isReady()) return id;
+
     try {
-      // Load and preprocess the image
-      const img = await this.loadImage(imageUri);
-      const preprocessed = this.preprocessImage(img);
-      
-      // Run inference
-      const predictions = await this.model!.predict(preprocessed) as tf.Tensor[];
-      
-      // Post-process results
-      const detections = await this.postProcessDetections(predictions);
-      
-      // Clean up tensors
-      img.dispose();
-      preprocessed.dispose();
-      predictions.forEach(tensor => tensor.dispose());
-      
-      return detections;
+      console.log(`Loading ${next.name} detector...`);
+      const info = await next.load();
+      if (this.detector !== next) {
+        this.detector.dispose();
+      }
+      this.detector = next;
+      this.modelInfo = info;
+      if (info) {
+        console.log(`Vehicle detection model ${info.name} v${info.version} loaded from ${info.source}`);
+      }
+    } catch (error) {
+      console.error(`Failed to load ${next.name} detector:`, error);
+      next.dispose();
+      if (this.detector === next) {
+        this.detector = this.detectors[DetectorId.SIMULATION];
+        this.modelInfo = null;
+      }
+      console.log(`Continuing with ${this.detector.name} detector`);
+    }
+
+    if (this.activeSession) {
+      this.activeSession.detectorMode = this.getDetectorMode();
+      this.saveActiveSession();
+    }
+    return this.detector.id;
+  }
+
+  private liveFrameContext(): FrameContext {
+    return { capturedAt: new Date(), location: LocationService.getLastKnownLocation() ?? undefined };
+  }
+
+  private async trackDetections(detections: DetectedVehicle[], context: FrameContext): Promise<DetectedVehicle[]> {
+    const session = await this.ensureActiveSession();
+    detections.forEach(detection => {
+      detection.sessionId = session?.id;
+      detection.location = context.location;
+    });
+
+    if (session) {
+      await this.rollUpIntervals(session.id, context.capturedAt.getTime());
+    }
+
+    // Match against existing tracks so each physical vehicle is only counted once
+    const tracked = this.tracker.update(detections, context.capturedAt.getTime());
+    const vehicles = tracked.map(result => result.vehicle);
+
+    // The watchlist is the only thing that sees raw reads; everything after gets what the privacy mode allows
+    await WatchlistService.check(vehicles, context.imageUri, this.getPlateRegions(vehicles));
+    await PlatePrivacy.protectVehicles(vehicles, this.platePrivacy);
+    const speeds = this.estimateSpeeds(tracked);
+    const { newlyCounted, crossings } = this.countLines.length > 0
+      ? this.countLineCrossings(tracked)
+      : {
+          newlyCounted: tracked
+            .filter(result => result.isNewlyCounted)
+            .map(result => result.vehicle),
+          crossings: [],
+        };
+
+    // Update vehicle counts
+    this.updateVehicleCounts(newlyCounted);
+
+    // Store detections
+    this.detectedVehicles.push(...newlyCounted);
+    if (this.detectedVehicles.length > MAX_IN_MEMORY_DETECTIONS) {
+      this.detectedVehicles.splice(0, this.detectedVehicles.length - MAX_IN_MEMORY_DETECTIONS);
+    }
+
+    try {
+      await DetectionStore.insertDetections(newlyCounted);
+      await DetectionStore.insertLineCrossings(crossings);
+      await DetectionStore.updateSpeeds(speeds);
+    } catch (error) {
+      console.error('Failed to persist detections:', error);
+    }
+
+    newlyCounted.forEach(detection => this.emit({ type: DetectionEventType.DETECTION, detection: { ...detection } }));
+    crossings.forEach(crossing => this.emit({
+      type: DetectionEventType.LINE_CROSSING,
+      crossing,
+      lineName: this.countLines.find(line => line.id === crossing.lineId)?.name ?? '',
+    }));
+
+    return vehicles;
+  }
+
+  // Emits the intervals that closed before the frame at `time`, or up to `time` when the session ends
+  private async rollUpIntervals(sessionId: string, time: number, sessionEnded = false): Promise<void> {
+    const current = Math.floor(time / INTERVAL_MS) * INTERVAL_MS;
+    const closedFrom = this.intervalStart;
+    this.intervalStart = sessionEnded ? null : current;
+    if (closedFrom === null || this.listeners.size === 0) return;
+
+    const to = sessionEnded ? time : current;
+    if (to <= closedFrom) return;
+    try {
+      const bins = await TrafficAggregator.getVolumeSeries({
+        sessionId,
+        from: new Date(closedFrom),
+        to: new Date(to),
+        binMinutes: REPORT_INTERVAL_MINUTES,
+        taxonomy: this.taxonomy,
+      });
+      bins.forEach(interval => this.emit({ type: DetectionEventType.INTERVAL, sessionId, interval, taxonomy: this.taxonomy }));
+    } catch (error) {
+      console.error('Failed to roll up interval counts:', error);
+    }
+  }
+
+  private emit(event: DetectionEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Keeps the recent detections in step with what a retention purge removed from the store
+  private applyPurge({ cutoffs }: PurgeReport): void {
+    if (cutoffs.detections) {
+      const before = cutoffs.detections;
+      this.detectedVehicles = this.detectedVehicles.filter(detection => detection.timestamp >= before);
+    }
+    if (cutoffs.plates) {
+      const before = cutoffs.plates;
+      this.detectedVehicles.forEach(detection => {
+        if (detection.timestamp < before) {
+          detection.licensePlate = undefined;
+          detection.licensePlateConfidence = undefined;
+          detection.licensePlateCharConfidences = undefined;
+        }
+      });
+    }
+  }
+
+  // Each track gets one speed, from the first frame its trajectory allows an estimate
+  private estimateSpeeds(tracked: TrackedDetection[]): { id: string; speedKmh: number }[] {
+    const estimated: { id: string; speedKmh: number }[] = [];
+    tracked.forEach(({ vehicle, track }) => {
+      let speedKmh = this.speedsByTrack.get(track.id);
+      if (speedKmh === undefined && this.speedCalibration) {
+        const trajectory = track.trajectory.map(point => ({
+          x: point.x / MODEL_INPUT_SIZE,
+          y: point.y / MODEL_INPUT_SIZE,
+          timestamp: point.timestamp,
+        }));
+        const estimate = estimateSpeed(this.speedCalibration, trajectory);
+        if (estimate !== null) {
+          speedKmh = estimate;
+          this.speedsByTrack.set(track.id, estimate);
+          estimated.push({ id: track.id, speedKmh: estimate });
+
+          // The vehicle may already have been counted on an earlier frame
+          const counted = this.detectedVehicles.find(detection => detection.id === track.id);
+          if (counted) {
+            counted.speedKmh = estimate;
+          }
+        }
+      }
+      vehicle.speedKmh = speedKmh;
+    });
+    return estimated;
+  }
+
+  // Where plates are in the frame (normalized 0-1), for blurring saved photos. Vehicles
+  // without a plate read are covered from the bottom of their box, where the plate usually is
+  getPlateRegions(vehicles: DetectedVehicle[]): BoundingBox[] {
+    return vehicles
+      .filter(vehicle => vehicle.type !== VehicleType.BICYCLE)
+      .map(vehicle => vehicle.plateRegion ?? {
+        x: vehicle.bbox.x / MODEL_INPUT_SIZE,
+        y: (vehicle.bbox.y + vehicle.bbox.height * (1 - PLATE_FALLBACK_HEIGHT)) / MODEL_INPUT_SIZE,
+        width: vehicle.bbox.width / MODEL_INPUT_SIZE,
+        height: (vehicle.bbox.height * PLATE_FALLBACK_HEIGHT) / MODEL_INPUT_SIZE,
+      });
+  }
+
+  // Plate areas to blur in a photo before it is saved or kept, from its own detection pass without the
+  // thresholds, NMS or regions that decide what is counted. Null when plates cannot be located, e.g. in
+  // simulation, in which case the photo must not be kept unredacted
+  async findPlateRegions(imageUri: string): Promise<BoundingBox[] | null> {
+    if (!this.detector.requiresImage) return null;
+
+    let img: tf.Tensor3D | null = null;
+    try {
+      img = await this.loadImage(imageUri);
+      const found = await this.detector.detect(img, {
+        ...this.getDetectOptions(),
+        scoreThreshold: REDACTION_SCORE_THRESHOLD,
+        maxDetections: REDACTION_MAX_DETECTIONS,
+      });
+      return this.getPlateRegions(this.toDetectedVehicles(found, new Date()));
     } catch (error) {
+      console.error('Failed to locate plates for redaction:', error);
+      return null;
+    } finally {
+      img?.dispose();
+    }
+  }
+
+  private countLineCrossings(tracked: TrackedDetection[]): { newlyCounted: DetectedVehicle[]; crossings: LineCrossing[] } {
+    // With count lines defined, a vehicle only counts once its path crosses one
+    const newlyCounted: DetectedVehicle[] = [];
+    const crossings: LineCrossing[] = [];
+
+    tracked.forEach(({ vehicle, track }) => {
+      if (track.trajectory.length < 2) return;
+      const [from, to] = track.trajectory.slice(-2).map(point => ({
+        x: point.x / MODEL_INPUT_SIZE,
+        y: point.y / MODEL_INPUT_SIZE,
+      }));
+
+      const crossedLines = this.crossedLinesByTrack.get(track.id) ?? new Set<string>();
+      const wasCounted = crossedLines.size > 0;
+
+      this.countLines.forEach(line => {
+        if (crossedLines.has(line.id)) return;
+        const direction = findCrossing(line, from, to);
+        if (!direction) return;
+
+        crossedLines.add(line.id);
+        crossings.push({
+          sessionId: vehicle.sessionId,
+          lineId: line.id,
+          trackId: track.id,
+          type: vehicle.type,
+          direction,
+          timestamp: vehicle.timestamp,
+        });
+        const count = this.lineCounts[line.id][direction];
+        count[vehicle.type]++;
+        count.total++;
+      });
+
+      if (crossedLines.size > 0) {
+        this.crossedLinesByTrack.set(track.id, crossedLines);
+        if (!wasCounted) {
+          newlyCounted.push(vehicle);
+        }
+      }
+    });
+
+    return { newlyCounted, crossings };
+  }
+
+  private async runDetection(imageUri: string, context: FrameContext): Promise<DetectedVehicle[]> {
+    if (!this.detector.requiresImage) {
+      console.log('Using simulation mode - model not loaded');
+      return this.detectInFrame(null, context);
+    }
+
+    let img: tf.Tensor3D | null = null;
+    try {
+      // Load the frame and run the active detector on it
+      img = await this.loadImage(imageUri);
+      return await this.detectInFrame(img, context);
+    } catch (error) {
+      // Callers decide whether a failed frame is worth retrying
       console.error('Real detection failed:', error);
-      return [];
+      throw error;
+    } finally {
+      img?.dispose();
+    }
+  }
+
+  private async detectInFrame(img: tf.Tensor3D | null, context: FrameContext): Promise<DetectedVehicle[]> {
+    const found = await this.detector.detect(img, this.getDetectOptions());
+    const detections = this.filterByRegion(
+      this.toDetectedVehicles(filterDetections(found, this.detectionFilter), context.capturedAt)
+    );
+
+    // Split body types and read plates from each vehicle crop
+    if (img) {
+      await this.classifyBodies(img, detections);
+      await this.readLicensePlates(img, detections);
+    }
+    return detections;
+  }
+
+  private getDetectOptions(): DetectOptions {
+    return {
+      scoreThreshold: minimumThreshold(this.detectionFilter),
+      iouThreshold: this.detectionFilter.nmsIouThreshold,
+      nmsMode: this.detectionFilter.nmsMode,
+      maxDetections: this.detectionFilter.maxDetections,
+      classMap: this.classMap,
+      inputSize: this.modelInputSize,
+    };
+  }
+
+  private applySettings(settings: AppSettings): void {
+    this.classMap = { ...settings.classMap };
+    this.modelInputSize = settings.modelInputSize;
+    this.taxonomy = getTaxonomy(settings.taxonomy, settings.customTaxonomy);
+    if (settings.platePrivacy !== this.platePrivacy) {
+      this.platePrivacy = settings.platePrivacy;
+      // Before the store opens, initialize takes care of it
+      if (DetectionStore.isReady()) {
+        this.protectStoredPlates(settings.platePrivacy);
+      }
+    }
+    if (JSON.stringify(settings.detectionFilter) === JSON.stringify(this.settingsFilter)) return;
+    this.settingsFilter = settings.detectionFilter;
+    try {
+      this.setDetectionFilter(settings.detectionFilter);
+    } catch (error) {
+      console.error('Failed to apply detection settings:', error);
+    }
+  }
+
+  // Rewrites reads stored under a looser mode, so the store never holds more than the current mode allows.
+  // Switching back to raw cannot restore them
+  private async protectStoredPlates(mode: PlatePrivacyMode): Promise<void> {
+    if (mode === PlatePrivacyMode.RAW) return;
+    try {
+      await PlatePrivacy.protectVehicles(this.detectedVehicles, mode);
+      let changed: number;
+      if (mode === PlatePrivacyMode.NONE) {
+        changed = await DetectionStore.clearAllPlates();
+      } else {
+        const plates = await DetectionStore.getUnhashedPlates();
+        for (const plate of plates) {
+          plate.licensePlate = (await PlatePrivacy.protectPlate(plate.licensePlate, mode)) ?? plate.licensePlate;
+        }
+        changed = await DetectionStore.replacePlates(plates);
+      }
+      if (changed > 0) {
+        console.log(`Applied plate privacy mode ${mode} to ${changed} stored reads`);
+      }
+    } catch (error) {
+      console.error('Failed to protect stored plates:', error);
+    }
+  }
+
+  private toDetectedVehicles(detections: Detection[], timestamp: Date): DetectedVehicle[] {
+    // Detectors report normalized boxes; the rest of the app works in model input space
+    return detections.map((detection, i) => {
+      const charConfidences = detection.plate?.charConfidences;
+      return {
+        id: `vehicle_${timestamp.getTime()}_${i}`,
+        type: detection.type,
+        bodyClass: bodyClassFor(detection.type),
+        confidence: detection.confidence,
+        bbox: {
+          x: detection.bbox.x * MODEL_INPUT_SIZE,
+          y: detection.bbox.y * MODEL_INPUT_SIZE,
+          width: detection.bbox.width * MODEL_INPUT_SIZE,
+          height: detection.bbox.height * MODEL_INPUT_SIZE,
+        },
+        licensePlate: detection.plate?.text,
+        licensePlateConfidence: charConfidences
+          ? charConfidences.reduce((sum, score) => sum + score, 0) / charConfidences.length
+          : undefined,
+        licensePlateCharConfidences: charConfidences,
+        timestamp,
+      };
+    });
+  }
+
+  private async classifyBodies(img: tf.Tensor3D, detections: DetectedVehicle[]): Promise<void> {
+    if (!VehicleClassifier.isReady()) return;
+
+    const candidates = detections.filter(detection => VehicleClassifier.appliesTo(detection.type));
+    const results = await VehicleClassifier.classify(img, candidates.map(detection => ({
+      x: detection.bbox.x / MODEL_INPUT_SIZE,
+      y: detection.bbox.y / MODEL_INPUT_SIZE,
+      width: detection.bbox.width / MODEL_INPUT_SIZE,
+      height: detection.bbox.height / MODEL_INPUT_SIZE,
+    })));
+    results.forEach((result, i) => {
+      if (!result) return;
+      // A confident body class also corrects the coarse type, e.g. a "car" that is really a van
+      candidates[i].type = BODY_VEHICLE_TYPES[result.bodyClass];
+      candidates[i].bodyClass = result.bodyClass;
+      candidates[i].bodyClassConfidence = result.confidence;
+    });
+  }
+
+  private async readLicensePlates(img: tf.Tensor3D, detections: DetectedVehicle[]): Promise<void> {
+    if (!LicensePlateRecognizer.isReady()) return;
+
+    for (const detection of detections) {
+      const plate = await LicensePlateRecognizer.recognize(img, {
+        x: detection.bbox.x / MODEL_INPUT_SIZE,
+        y: detection.bbox.y / MODEL_INPUT_SIZE,
+        width: detection.bbox.width / MODEL_INPUT_SIZE,
+        height: detection.bbox.height / MODEL_INPUT_SIZE,
+      });
+      if (plate) {
+        detection.licensePlate = plate.text;
+        detection.licensePlateConfidence = plate.confidence;
+        detection.licensePlateCharConfidences = plate.charConfidences;
+        detection.plateRegion = plate.region;
+      }
     }
   }
 
@@ -181,154 +673,455 @@ class VehicleDetectionService {
     }
   }
 
-  private preprocessImage(img: tf.Tensor3D): tf.Tensor4D {
-    // Resize to model input size (typically 320x320 for SSD MobileNet)
-    const resized = tf.image.resizeBilinear(img, [320, 320]);
-    
-    // Normalize to [0, 1]
-    const normalized = resized.div(255.0);
-    
-    // Add batch dimension
-    const batched = normalized.expandDims(0);
-    
-    resized.dispose();
-    normalized.dispose();
-    
-    return batched;
-  }
+  private filterByRegion(detections: DetectedVehicle[]): DetectedVehicle[] {
+    if (this.regions.length === 0) return detections;
 
-  private async postProcessDetections(predictions: tf.Tensor[]): Promise<DetectedVehicle[]> {
-    const detections: DetectedVehicle[] = [];
-    
-    try {
-      // Get prediction arrays
-      const boxes = await predictions[0].data(); // [N, 4]
-      const classes = await predictions[1].data(); // [N]
-      const scores = await predictions[2].data(); // [N]
-      const numDetections = await predictions[3].data(); // [1]
-      
-      const maxDetections = numDetections[0];
-      const confidenceThreshold = 0.3;
-      
-      for (let i = 0; i < maxDetections; i++) {
-        const score = scores[i];
-        const classIndex = classes[i];
-        const className = this.COCO_CLASSES[classIndex] || 'unknown';
-        
-        // Filter by confidence and vehicle classes
-        if (score > confidenceThreshold && this.VEHICLE_CLASS_MAP[className]) {
-          const detection: DetectedVehicle = {
-            id: `vehicle_${Date.now()}_${i}`,
-            type: this.VEHICLE_CLASS_MAP[className],
-            confidence: score,
-            bbox: {
-              x: boxes[i * 4 + 1] * 320, // Convert normalized to pixel coordinates
-              y: boxes[i * 4] * 320,
-              width: (boxes[i * 4 + 3] - boxes[i * 4 + 1]) * 320,
-              height: (boxes[i * 4 + 2] - boxes[i * 4]) * 320,
-            },
-            licensePlate: this.generateLicensePlate(),
-            timestamp: new Date(),
-          };
-          detections.push(detection);
-        }
-      }
-      
-      return detections;
-    } catch (error) {
-      console.error('Post-processing failed:', error);
-      return [];
-    }
-  }
-
-  private simulateDetection(): DetectedVehicle[] {
-    // Simulate detection results for demonstration
-    const detections: DetectedVehicle[] = [];
-    const vehicleTypes = Object.values(VehicleType).filter(type => type !== VehicleType.UNKNOWN);
-    
-    // Generate random detections (30% chance of detecting nothing)
-    if (Math.random() < 0.3) {
-      return []; // No detections
-    }
-    
-    const numDetections = Math.floor(Math.random() * 3) + 1; // Reduced from 5 to 3
-    
-    for (let i = 0; i < numDetections; i++) {
-      const randomType = vehicleTypes[Math.floor(Math.random() * vehicleTypes.length)];
-      const detection: DetectedVehicle = {
-        id: `vehicle_${Date.now()}_${i}`,
-        type: randomType,
-        confidence: 0.7 + Math.random() * 0.3,
-        bbox: {
-          x: Math.random() * 300,
-          y: Math.random() * 300,
-          width: 50 + Math.random() * 100,
-          height: 30 + Math.random() * 80,
-        },
-        licensePlate: this.generateLicensePlate(),
-        timestamp: new Date(),
-      };
-      detections.push(detection);
-    }
-    
-    return detections;
-  }
-
-  private generateLicensePlate(): string {
-    // Simulate license plate recognition
-    const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    const numbers = '0123456789';
-    
-    let plate = '';
-    for (let i = 0; i < 3; i++) {
-      plate += letters.charAt(Math.floor(Math.random() * letters.length));
-    }
-    for (let i = 0; i < 4; i++) {
-      plate += numbers.charAt(Math.floor(Math.random() * numbers.length));
-    }
-    
-    return plate;
+    // Drop vehicles whose road contact point is outside the active region
+    return detections.filter(detection => {
+      const anchor = anchorPoint(detection.bbox);
+      return isInActiveRegion(this.regions, {
+        x: anchor.x / MODEL_INPUT_SIZE,
+        y: anchor.y / MODEL_INPUT_SIZE,
+      });
+    });
   }
 
   private updateVehicleCounts(detections: DetectedVehicle[]): void {
     detections.forEach(detection => {
       this.vehicleCount[detection.type]++;
       this.vehicleCount.total++;
+      this.bodyCounts[detection.bodyClass] = (this.bodyCounts[detection.bodyClass] ?? 0) + 1;
     });
   }
 
+  // Returns an unsubscribe function
+  subscribe(listener: DetectionEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   getVehicleCount(): VehicleCount {
     return { ...this.vehicleCount };
   }
 
+  // Counts grouped by the class scheme chosen in settings
+  getClassCount(): TaxonomyCount {
+    return countByClass(this.bodyCounts, this.taxonomy);
+  }
+
+  getTaxonomy(): VehicleTaxonomy {
+    return { ...this.taxonomy, classes: this.taxonomy.classes.map(entry => ({ ...entry })), classOf: { ...this.taxonomy.classOf } };
+  }
+
+  isVehicleClassifierReady(): boolean {
+    return VehicleClassifier.isReady();
+  }
+
+  // Plates are only read from real frames, and only with the OCR model loaded
+  isPlateReadingAvailable(): boolean {
+    return this.detector.id === DetectorId.SIMULATION || LicensePlateRecognizer.isReady();
+  }
+
   getDetectedVehicles(): DetectedVehicle[] {
     return [...this.detectedVehicles];
   }
 
-  isRealModelLoaded(): boolean {
-    return this.isModelLoaded;
+  async queryDetections(query: DetectionQuery): Promise<DetectedVehicle[]> {
+    return DetectionStore.queryDetections(query);
   }
 
-  resetCounts(): void {
-    Object.keys(this.vehicleCount).forEach(key => {
-      this.vehicleCount[key as keyof VehicleCount] = 0;
+  async countDetections(query: DetectionQuery): Promise<number> {
+    return DetectionStore.countDetections(query);
+  }
+
+  setCountLines(lines: CountLine[]): void {
+    this.countLines = lines.map(line => ({ ...line }));
+
+    // Keep running totals for lines that survive the edit
+    const lineCounts: { [lineId: string]: LineCount } = {};
+    this.countLines.forEach(line => {
+      lineCounts[line.id] = {
+        ...(this.lineCounts[line.id] ?? {
+          [CrossingDirection.A_TO_B]: createEmptyVehicleCount(),
+          [CrossingDirection.B_TO_A]: createEmptyVehicleCount(),
+        }),
+        lineId: line.id,
+        name: line.name,
+      };
     });
+    this.lineCounts = lineCounts;
+
+    if (this.activeSession) {
+      this.activeSession.countLines = this.getCountLines();
+      this.saveActiveSession();
+    }
+  }
+
+  getCountLines(): CountLine[] {
+    return this.countLines.map(line => ({ ...line }));
+  }
+
+  getLineCounts(): LineCount[] {
+    return this.countLines.map(line => {
+      const lineCount = this.lineCounts[line.id];
+      return {
+        ...lineCount,
+        [CrossingDirection.A_TO_B]: { ...lineCount[CrossingDirection.A_TO_B] },
+        [CrossingDirection.B_TO_A]: { ...lineCount[CrossingDirection.B_TO_A] },
+      };
+    });
+  }
+
+  setRegions(regions: Region[]): void {
+    this.regions = regions.map(region => ({ ...region, points: [...region.points] }));
+
+    if (this.activeSession) {
+      this.activeSession.regions = this.getRegions();
+      this.saveActiveSession();
+    }
+  }
+
+  getRegions(): Region[] {
+    return this.regions.map(region => ({ ...region, points: [...region.points] }));
+  }
+
+  // null removes the calibration; vehicles already measured keep their speed
+  setSpeedCalibration(calibration: SpeedCalibration | null, speedLimitKmh: number | null): void {
+    const errors = calibration ? validateCalibration(calibration) : [];
+    if (speedLimitKmh !== null && !(speedLimitKmh > 0)) {
+      errors.push('Speed limit must be greater than 0');
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid speed calibration: ${errors.join('; ')}`);
+    }
+
+    this.speedCalibration = calibration ? JSON.parse(JSON.stringify(calibration)) : null;
+    this.speedLimitKmh = speedLimitKmh;
+    this.speedsByTrack.clear();
+
+    if (this.activeSession) {
+      this.activeSession.speedCalibration = this.getSpeedCalibration();
+      this.activeSession.speedLimitKmh = speedLimitKmh;
+      this.saveActiveSession();
+    }
+  }
+
+  getSpeedCalibration(): SpeedCalibration | null {
+    return this.speedCalibration ? JSON.parse(JSON.stringify(this.speedCalibration)) : null;
+  }
+
+  getSpeedLimitKmh(): number | null {
+    return this.speedLimitKmh;
+  }
+
+  isRealModelLoaded(): boolean {
+    return this.detector.id !== DetectorId.SIMULATION;
+  }
+
+  getDetectorId(): DetectorId {
+    return this.detector.id;
+  }
+
+  // Restarts the simulated traffic; the same scenario and seed replay identically
+  configureSimulation(settings: SimulationSettings): void {
+    this.simulator.configure(settings);
+    this.tracker.reset();
+    this.crossedLinesByTrack.clear();
+    this.speedsByTrack.clear();
+  }
+
+  getSimulationSettings(): SimulationSettings {
+    return this.simulator.getSettings();
+  }
+
+  getAvailableDetectors(): DetectorOption[] {
+    return Object.values(this.detectors).map(({ id, name }) => ({ id, name }));
+  }
+
+  getModelInfo(): ModelInfo | null {
+    return this.modelInfo ? { ...this.modelInfo } : null;
+  }
+
+  getDetectorMode(): DetectorMode {
+    return this.isRealModelLoaded() ? 'model' : 'simulation';
+  }
+
+  getDetectionThresholds(): DetectionThresholds {
+    return {
+      ...this.getDetectionFilter(),
+      tracker: this.tracker.getConfig(),
+    };
+  }
+
+  getDetectionFilter(): DetectionFilterConfig {
+    return { ...this.detectionFilter, classThresholds: { ...this.detectionFilter.classThresholds } };
+  }
+
+  // Tunes thresholds and NMS for the current site; the active session records the new values
+  setDetectionFilter(changes: Partial<DetectionFilterConfig>): DetectionFilterConfig {
+    const config = { ...this.detectionFilter, ...changes };
+    const errors = validateDetectionFilter(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid detection filter: ${errors.join('; ')}`);
+    }
+
+    this.detectionFilter = { ...config, classThresholds: { ...config.classThresholds } };
+    if (this.activeSession) {
+      this.activeSession.thresholds = this.getDetectionThresholds();
+      this.saveActiveSession();
+    }
+    return this.getDetectionFilter();
+  }
+
+  getActiveSession(): CountingSession | null {
+    return this.activeSession ? { ...this.activeSession } : null;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    return DetectionStore.listSessions();
+  }
+
+  async startSession(details: SessionDetails, startedAt = new Date()): Promise<CountingSession> {
+    await this.endSession();
+
+    // New sessions keep the current lines and regions, since they usually cover the same view
+    const session: CountingSession = {
+      ...details,
+      id: `session_${Date.now()}`,
+      startedAt,
+      detectorMode: this.getDetectorMode(),
+      thresholds: this.getDetectionThresholds(),
+      countLines: this.getCountLines(),
+      regions: this.getRegions(),
+      speedCalibration: this.getSpeedCalibration(),
+      speedLimitKmh: this.speedLimitKmh,
+    };
+    await DetectionStore.saveSession(session);
+    await this.loadSession(session);
+
+    console.log(`Started session ${session.name}`);
+    return { ...session };
+  }
+
+  async endSession(endedAt = new Date()): Promise<void> {
+    if (!this.activeSession) return;
+
+    this.activeSession.endedAt = endedAt;
+    await this.saveActiveSession();
+    await this.rollUpIntervals(this.activeSession.id, endedAt.getTime(), true);
+    console.log(`Ended session ${this.activeSession.name}`);
+
+    this.activeSession = null;
+    this.clearCounts();
+  }
+
+  async reopenSession(sessionId: string): Promise<CountingSession> {
+    const session = await DetectionStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (this.activeSession?.id !== sessionId) {
+      await this.endSession();
+    }
+
+    session.endedAt = undefined;
+    await DetectionStore.saveSession(session);
+    await this.loadSession(session);
+    return { ...session };
+  }
+
+  private async ensureActiveSession(): Promise<CountingSession | null> {
+    if (this.activeSession) return this.activeSession;
+
+    try {
+      const previous = (await DetectionStore.listSessions())[0];
+      await this.startSession({
+        name: defaultSessionName(),
+        site: previous?.site ?? '',
+        operator: previous?.operator ?? '',
+        notes: '',
+      });
+    } catch (error) {
+      console.error('Failed to start session:', error);
+    }
+    return this.activeSession;
+  }
+
+  private async loadSession(session: CountingSession): Promise<void> {
+    this.activeSession = session;
+    this.intervalStart = null;
+    this.clearCounts();
+    this.countLines = session.countLines.map(line => ({ ...line }));
+    this.regions = session.regions.map(region => ({ ...region, points: [...region.points] }));
+    this.speedCalibration = session.speedCalibration;
+    this.speedLimitKmh = session.speedLimitKmh;
+    this.applySessionFilter(session.thresholds);
+    await this.restoreFromStore(session.id);
+    this.setCountLines(this.countLines);
+  }
+
+  // A reopened session keeps counting with the thresholds it recorded, not whatever settings are active
+  private applySessionFilter(thresholds: DetectionThresholds): void {
+    // Sessions recorded before per-class thresholds only carry confidenceThreshold
+    const config: DetectionFilterConfig = {
+      confidenceThreshold: thresholds.confidenceThreshold,
+      classThresholds: { ...thresholds.classThresholds },
+      nmsMode: thresholds.nmsMode ?? DEFAULT_DETECTION_FILTER.nmsMode,
+      nmsIouThreshold: thresholds.nmsIouThreshold ?? DEFAULT_DETECTION_FILTER.nmsIouThreshold,
+      maxDetections: thresholds.maxDetections ?? DEFAULT_DETECTION_FILTER.maxDetections,
+    };
+    if (validateDetectionFilter(config).length === 0) {
+      this.detectionFilter = config;
+    } else {
+      console.log('Session detection filter is invalid, keeping the current one');
+    }
+  }
+
+  private async saveActiveSession(): Promise<void> {
+    if (!this.activeSession) return;
+    try {
+      await DetectionStore.saveSession(this.activeSession);
+    } catch (error) {
+      console.error('Failed to save session:', error);
+    }
+  }
+
+  private clearCounts(): void {
+    this.vehicleCount = createEmptyVehicleCount();
+    this.bodyCounts = {};
     this.detectedVehicles = [];
+    this.tracker.reset();
+    this.crossedLinesByTrack.clear();
+    this.speedsByTrack.clear();
+    this.lineCounts = {};
   }
 
-  async processVideoFrame(frameData: any): Promise<DetectedVehicle[]> {
-    // Process video frame for real-time detection
-    return this.simulateDetection();
+  // Streaming counterpart of detectVehicles: raw pixels in, so no JPEG is written or decoded
+  async processVideoFrame(frame: VideoFrame): Promise<DetectedVehicle[]> {
+    if (this.offlineAnalysis) return [];
+
+    const startedAt = Date.now();
+    let img: tf.Tensor3D | null = null;
+    try {
+      if (this.detector.requiresImage) {
+        img = tf.tensor3d(new Uint8Array(frame.data), [frame.height, frame.width, 3], 'int32');
+      }
+      const context = this.liveFrameContext();
+      const detections = await this.detectInFrame(img, context);
+      return await this.trackDetections(detections, context);
+    } catch (error) {
+      // One bad frame should not stop the stream
+      console.error('Frame detection failed:', error);
+      return [];
+    } finally {
+      img?.dispose();
+      const finishedAt = Date.now();
+      this.frameRate.record(finishedAt);
+      this.streamStats.processedFrames++;
+      this.streamStats.droppedFrames += frame.droppedFrames;
+      this.streamStats.lastFrameMs = finishedAt - startedAt;
+    }
   }
 
-  exportDetectionData(): string {
+  // Recorded footage and imported photos get their own session, timed from the first frame, or
+  // continue one they started earlier; live frames are ignored until endOfflineAnalysis so they cannot mix into it
+  async beginOfflineAnalysis(details: SessionDetails, startedAt: Date, resumeSessionId?: string): Promise<CountingSession> {
+    if (this.offlineAnalysis) {
+      throw new Error('A video or photo import is already being analyzed');
+    }
+
+    this.offlineAnalysis = { previousSessionId: this.activeSession?.id ?? null };
+    try {
+      return resumeSessionId ? await this.reopenSession(resumeSessionId) : await this.startSession(details, startedAt);
+    } catch (error) {
+      this.offlineAnalysis = null;
+      throw error;
+    }
+  }
+
+  // Same detection, tracking and counting path as live frames, stamped with when the frame was recorded
+  async analyzeOfflineFrame(imageUri: string, context: Omit<FrameContext, 'imageUri'>): Promise<DetectedVehicle[]> {
+    if (!this.offlineAnalysis) {
+      throw new Error('No offline analysis in progress');
+    }
+    const detections = await this.runDetection(imageUri, context);
+    return this.trackDetections(detections, { ...context, imageUri });
+  }
+
+  async endOfflineAnalysis(endedAt: Date): Promise<void> {
+    if (!this.offlineAnalysis) return;
+
+    const { previousSessionId } = this.offlineAnalysis;
+    try {
+      await this.endSession(endedAt);
+      if (previousSessionId) {
+        await this.reopenSession(previousSessionId);
+      }
+    } finally {
+      this.offlineAnalysis = null;
+    }
+  }
+
+  isOfflineAnalysisActive(): boolean {
+    return this.offlineAnalysis !== null;
+  }
+
+  getStreamStats(): StreamStats {
+    return { ...this.streamStats, fps: this.frameRate.getFps(Date.now()) };
+  }
+
+  resetStreamStats(): void {
+    this.frameRate.reset();
+    this.streamStats = { fps: 0, processedFrames: 0, droppedFrames: 0, lastFrameMs: 0 };
+  }
+
+  async exportDetectionData(sessionId: string | undefined = this.activeSession?.id): Promise<string> {
+    if (!sessionId) {
+      throw new Error('No session to export');
+    }
+    const session = await DetectionStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    // Stored reads may predate the current privacy mode
+    const detections = await DetectionStore.queryDetections({ sessionId });
+    await PlatePrivacy.protectVehicles(detections, this.platePrivacy);
+
+    const lineCounts = session.countLines.map(line => {
+      const lineCount: LineCount = {
+        lineId: line.id,
+        name: line.name,
+        [CrossingDirection.A_TO_B]: createEmptyVehicleCount(),
+        [CrossingDirection.B_TO_A]: createEmptyVehicleCount(),
+      };
+      return lineCount;
+    });
+    const totals = await DetectionStore.getLineCrossingTotals(sessionId);
+    totals.forEach(({ lineId, direction, type, count }) => {
+      const lineCount = lineCounts.find(entry => entry.lineId === lineId);
+      if (lineCount) {
+        lineCount[direction][type] += count;
+        lineCount[direction].total += count;
+      }
+    });
+
     const data = {
-      counts: this.vehicleCount,
-      detections: this.detectedVehicles,
+      session,
+      counts: await DetectionStore.getVehicleCount(sessionId),
+      taxonomy: this.taxonomy,
+      classCounts: countByClass(await DetectionStore.getBodyClassCounts(sessionId), this.taxonomy),
+      lineCounts,
+      lineCrossings: await DetectionStore.getLineCrossings(sessionId),
+      speedSummary: summarizeSpeeds(await DetectionStore.getSpeeds(sessionId), session.speedLimitKmh),
+      detections,
       timestamp: new Date().toISOString(),
     };
     return JSON.stringify(data, null, 2);
   }
 }
 
-export default new VehicleDetectionService();
\ No newline at end of file
+export default new VehicleDetectionService();
@@ -0,0 +1,180 @@
+import { BoundingBox, Point, anchorPoint, centroid, distance, intersectionOverUnion } from '@/services/geometry';
+import { DetectedVehicle, VehicleType } from '@/services/VehicleDetectionService';
+
+export interface TrackPoint extends Point {
+  timestamp: number;
+}
+
+export interface Track {
+  id: string;
+  type: VehicleType;
+  bbox: BoundingBox;
+  velocity: Point; // model-space pixels per millisecond
+  trajectory: TrackPoint[]; // anchor points, oldest first
+  hits: number;
+  firstSeen: number;
+  lastSeen: number;
+  counted: boolean;
+}
+
+export interface TrackedDetection {
+  vehicle: DetectedVehicle;
+  track: Track;
+  isNewlyCounted: boolean;
+}
+
+export interface TrackerConfig {
+  iouThreshold: number;
+  // Max centroid jump, as a multiple of the track's box diagonal, for low-overlap matches
+  maxCentroidDistance: number;
+  maxAgeMs: number;
+  minHitsToCount: number;
+}
+
+const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  iouThreshold: 0.2,
+  maxCentroidDistance: 1.0,
+  maxAgeMs: 5000,
+  minHitsToCount: 1,
+};
+
+const VELOCITY_SMOOTHING = 0.5;
+const MAX_TRAJECTORY_POINTS = 50;
+const TYPE_MISMATCH_PENALTY = 0.5;
+
+export class VehicleTracker {
+  private tracks: Track[] = [];
+  private nextTrackNumber = 1;
+  private config: TrackerConfig;
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  }
+
+  update(detections: DetectedVehicle[], timestamp: number): TrackedDetection[] {
+    // Drop tracks that have not been seen for too long
+    this.tracks = this.tracks.filter(track => timestamp - track.lastSeen <= this.config.maxAgeMs);
+
+    const candidates: { trackIndex: number; detectionIndex: number; score: number }[] = [];
+    this.tracks.forEach((track, trackIndex) => {
+      const predicted = this.predict(track, timestamp);
+      detections.forEach((detection, detectionIndex) => {
+        const score = this.matchScore(track, predicted, detection);
+        if (score > 0) {
+          candidates.push({ trackIndex, detectionIndex, score });
+        }
+      });
+    });
+
+    // Greedy assignment, best overlap first
+    candidates.sort((a, b) => b.score - a.score);
+    const assignedTracks = new Set<number>();
+    const assignments = new Map<number, Track>();
+    candidates.forEach(({ trackIndex, detectionIndex }) => {
+      if (assignedTracks.has(trackIndex) || assignments.has(detectionIndex)) return;
+      assignedTracks.add(trackIndex);
+      assignments.set(detectionIndex, this.tracks[trackIndex]);
+    });
+
+    return detections.map((detection, detectionIndex) => {
+      const matched = assignments.get(detectionIndex);
+      const track = matched
+        ? this.updateTrack(matched, detection, timestamp)
+        : this.createTrack(detection, timestamp);
+
+      const isNewlyCounted = !track.counted && track.hits >= this.config.minHitsToCount;
+      if (isNewlyCounted) {
+        track.counted = true;
+      }
+
+      return {
+        vehicle: { ...detection, id: track.id },
+        track,
+        isNewlyCounted,
+      };
+    });
+  }
+
+  getConfig(): TrackerConfig {
+    return { ...this.config };
+  }
+
+  getActiveTracks(): Track[] {
+    return this.tracks.map(track => ({ ...track, trajectory: [...track.trajectory] }));
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.nextTrackNumber = 1;
+  }
+
+  private predict(track: Track, timestamp: number): BoundingBox {
+    const elapsed = timestamp - track.lastSeen;
+    return {
+      ...track.bbox,
+      x: track.bbox.x + track.velocity.x * elapsed,
+      y: track.bbox.y + track.velocity.y * elapsed,
+    };
+  }
+
+  private matchScore(track: Track, predicted: BoundingBox, detection: DetectedVehicle): number {
+    const typeFactor = track.type === detection.type ? 1 : TYPE_MISMATCH_PENALTY;
+
+    const overlap = intersectionOverUnion(predicted, detection.bbox);
+    if (overlap >= this.config.iouThreshold) {
+      return overlap * typeFactor;
+    }
+
+    // Fall back to motion-predicted centroid distance, always ranked below overlap matches
+    const diagonal = Math.hypot(predicted.width, predicted.height);
+    if (diagonal === 0) return 0;
+    const jump = distance(centroid(predicted), centroid(detection.bbox)) / diagonal;
+    if (jump > this.config.maxCentroidDistance) return 0;
+
+    return (1 - jump / this.config.maxCentroidDistance) * this.config.iouThreshold * typeFactor * 0.99;
+  }
+
+  private createTrack(detection: DetectedVehicle, timestamp: number): Track {
+    const track: Track = {
+      id: `track_${timestamp}_${this.nextTrackNumber++}`,
+      type: detection.type,
+      bbox: { ...detection.bbox },
+      velocity: { x: 0, y: 0 },
+      trajectory: [{ ...anchorPoint(detection.bbox), timestamp }],
+      hits: 1,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      counted: false,
+    };
+    this.tracks.push(track);
+    return track;
+  }
+
+  private updateTrack(track: Track, detection: DetectedVehicle, timestamp: number): Track {
+    const elapsed = timestamp - track.lastSeen;
+    if (elapsed > 0) {
+      const previous = centroid(track.bbox);
+      const current = centroid(detection.bbox);
+      const observed = {
+        x: (current.x - previous.x) / elapsed,
+        y: (current.y - previous.y) / elapsed,
+      };
+      track.velocity = track.hits === 1
+        ? observed
+        : {
+            x: VELOCITY_SMOOTHING * observed.x + (1 - VELOCITY_SMOOTHING) * track.velocity.x,
+            y: VELOCITY_SMOOTHING * observed.y + (1 - VELOCITY_SMOOTHING) * track.velocity.y,
+          };
+    }
+
+    track.bbox = { ...detection.bbox };
+    track.trajectory.push({ ...anchorPoint(detection.bbox), timestamp });
+    if (track.trajectory.length > MAX_TRAJECTORY_POINTS) {
+      track.trajectory.shift();
+    }
+    track.type = detection.type;
+    track.hits++;
+    track.lastSeen = timestamp;
+    return track;
+  }
+}
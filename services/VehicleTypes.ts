@@ -0,0 +1,36 @@
+// Kept free of imports so detectors and scenarios can use the taxonomy at module load
+// without a cycle through VehicleDetectionService, which re-exports everything here
+
+export enum VehicleType {
+  CAR = 'car',
+  BUS = 'bus',
+  TRUCK = 'truck',
+  MOTORCYCLE = 'motorcycle',
+  BICYCLE = 'bicycle',
+  VAN = 'van',
+  UNKNOWN = 'unknown'
+}
+
+export interface VehicleCount {
+  [VehicleType.CAR]: number;
+  [VehicleType.BUS]: number;
+  [VehicleType.TRUCK]: number;
+  [VehicleType.MOTORCYCLE]: number;
+  [VehicleType.BICYCLE]: number;
+  [VehicleType.VAN]: number;
+  [VehicleType.UNKNOWN]: number;
+  total: number;
+}
+
+export function createEmptyVehicleCount(): VehicleCount {
+  return {
+    [VehicleType.CAR]: 0,
+    [VehicleType.BUS]: 0,
+    [VehicleType.TRUCK]: 0,
+    [VehicleType.MOTORCYCLE]: 0,
+    [VehicleType.BICYCLE]: 0,
+    [VehicleType.VAN]: 0,
+    [VehicleType.UNKNOWN]: 0,
+    total: 0
+  };
+}
@@ -0,0 +1,202 @@
+import * as FileSystem from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { SessionDetails } from '@/services/Sessions';
+import SettingsService from '@/services/SettingsService';
+import VehicleDetectionService from '@/services/VehicleDetectionService';
+
+export const DEFAULT_VIDEO_SAMPLE_FPS = 2;
+export const VIDEO_SAMPLE_FPS_RANGE = { min: 0.2, max: 10 };
+// Reported durations are rounded, so the last sample may land just past the final frame
+const END_OF_VIDEO_TOLERANCE_MS = 1000;
+// Past the end both platforms keep returning the last (key)frame instead of failing, so with
+// no known duration the video is taken to have ended once the frame stops changing for this long
+const STALLED_FRAME_LIMIT_MS = 10 * 1000;
+// Hard stop for videos of unknown length, however the frames look
+const MAX_UNKNOWN_DURATION_MS = 24 * 60 * 60 * 1000;
+
+export interface VideoSource {
+  uri: string;
+  name: string;
+  durationMs?: number; // unknown for files picked outside the media library
+  recordedAt?: Date;
+}
+
+export interface VideoAnalysisOptions {
+  sampleFps: number;
+  recordedAt: Date; // wall-clock time of the first frame; detections are offset from it
+  session: SessionDetails;
+}
+
+export type VideoAnalysisState = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface VideoAnalysisProgress {
+  state: VideoAnalysisState;
+  positionMs: number;
+  durationMs?: number;
+  framesProcessed: number;
+  vehiclesCounted: number;
+  sessionId?: string;
+  error?: string;
+}
+
+// Parses "YYYY-MM-DD HH:MM[:SS]" as local time; null when the text does not match
+export function parseLocalDateTime(text: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second = '0'] = match.slice(1);
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function formatLocalDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// Samples a recorded video frame by frame through the live detection path into its own session
+export class VideoAnalysisJob {
+  private progress: VideoAnalysisProgress;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private source: VideoSource,
+    private options: VideoAnalysisOptions,
+    private onProgress: (progress: VideoAnalysisProgress) => void
+  ) {
+    this.progress = {
+      state: 'running',
+      positionMs: 0,
+      durationMs: source.durationMs,
+      framesProcessed: 0,
+      vehiclesCounted: 0,
+    };
+  }
+
+  async run(): Promise<VideoAnalysisProgress> {
+    const { sampleFps, recordedAt, session } = this.options;
+    const stepMs = 1000 / sampleFps;
+    const durationMs = this.source.durationMs;
+
+    try {
+      const created = await VehicleDetectionService.beginOfflineAnalysis(session, recordedAt);
+      this.update({ sessionId: created.id });
+    } catch (error) {
+      console.error('Failed to start video analysis:', error);
+      this.update({ state: 'failed', error: 'Unable to start a session for this video' });
+      return this.getProgress();
+    }
+
+    const endMs = durationMs ?? MAX_UNKNOWN_DURATION_MS;
+    let positionMs = 0;
+    let lastFrame: { md5: string; positionMs: number } | null = null;
+    try {
+      for (; positionMs <= endMs; positionMs += stepMs) {
+        await this.waitWhilePaused();
+        if (this.progress.state === 'cancelled') break;
+
+        const frameUri = await this.extractFrame(positionMs);
+        if (!frameUri) break;
+
+        try {
+          // Android seeks to the nearest keyframe, so repeats also happen mid-video; a repeated
+          // frame is skipped rather than fed to the tracker again at a later time
+          const info = await FileSystem.getInfoAsync(frameUri, { md5: true });
+          const md5 = info.exists ? info.md5 : undefined;
+          if (md5 && md5 === lastFrame?.md5) {
+            if (durationMs === undefined && positionMs - lastFrame.positionMs >= STALLED_FRAME_LIMIT_MS) {
+              console.log(`Video frame unchanged since ${Math.round(lastFrame.positionMs / 1000)} s, treating as the end`);
+              break;
+            }
+            continue;
+          }
+          if (md5) {
+            lastFrame = { md5, positionMs };
+          }
+
+          const before = VehicleDetectionService.getVehicleCount().total;
+          try {
+            await VehicleDetectionService.analyzeOfflineFrame(frameUri, { capturedAt: new Date(recordedAt.getTime() + positionMs) });
+          } catch (error) {
+            // One unreadable frame should not end the analysis
+            console.log(`Skipping video frame at ${Math.round(positionMs)} ms:`, error);
+          }
+          this.update({
+            positionMs,
+            framesProcessed: this.progress.framesProcessed + 1,
+            vehiclesCounted: this.progress.vehiclesCounted + VehicleDetectionService.getVehicleCount().total - before,
+          });
+        } finally {
+          await FileSystem.deleteAsync(frameUri, { idempotent: true });
+        }
+      }
+      if (this.progress.state !== 'cancelled') {
+        this.update({ state: 'completed', positionMs: durationMs ?? this.progress.positionMs });
+      }
+    } catch (error) {
+      console.error('Video analysis failed:', error);
+      this.update({ state: 'failed', error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      // Partial results stay in the session, which ends at the last analyzed frame
+      await VehicleDetectionService.endOfflineAnalysis(new Date(recordedAt.getTime() + this.progress.positionMs));
+    }
+    return this.getProgress();
+  }
+
+  pause(): void {
+    if (this.progress.state === 'running') {
+      this.update({ state: 'paused' });
+    }
+  }
+
+  resume(): void {
+    if (this.progress.state === 'paused') {
+      this.update({ state: 'running' });
+      this.wake?.();
+    }
+  }
+
+  cancel(): void {
+    if (this.progress.state === 'running' || this.progress.state === 'paused') {
+      this.update({ state: 'cancelled' });
+      this.wake?.();
+    }
+  }
+
+  getProgress(): VideoAnalysisProgress {
+    return { ...this.progress };
+  }
+
+  // Returns null once sampling runs past the end of the video
+  private async extractFrame(positionMs: number): Promise<string | null> {
+    try {
+      const { uri } = await VideoThumbnails.getThumbnailAsync(this.source.uri, {
+        time: Math.round(positionMs),
+        quality: SettingsService.getSettings().photoQuality,
+      });
+      return uri;
+    } catch (error) {
+      const { durationMs } = this.source;
+      const isAtEnd = durationMs === undefined || positionMs >= durationMs - END_OF_VIDEO_TOLERANCE_MS;
+      if (isAtEnd && this.progress.framesProcessed > 0) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.progress.state === 'paused') {
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+      this.wake = null;
+    }
+  }
+
+  private update(changes: Partial<VideoAnalysisProgress>): void {
+    this.progress = { ...this.progress, ...changes };
+    this.onProgress(this.getProgress());
+  }
+}
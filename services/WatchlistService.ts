@@ -0,0 +1,182 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import DetectionStore from '@/services/DetectionStore';
+import { BoundingBox } from '@/services/geometry';
+import PlatePrivacy, { PlatePrivacyMode } from '@/services/PlatePrivacy';
+import {
+  WatchlistEntry,
+  WatchlistHit,
+  WatchlistParseResult,
+  matchPlate,
+  mergeEntries,
+  parseWatchlist,
+} from '@/services/PlateWatchlist';
+import SettingsService from '@/services/SettingsService';
+import VehicleDetectionService, { DetectedVehicle } from '@/services/VehicleDetectionService';
+
+export type WatchlistHitListener = (hit: WatchlistHit) => void;
+
+export interface WatchlistImportResult extends WatchlistParseResult {
+  fileName: string;
+  total: number; // entries on the list after the import
+}
+
+const WATCHLIST_FILE = `${FileSystem.documentDirectory}watchlist.json`;
+const SNAPSHOT_DIRECTORY = `${FileSystem.documentDirectory}watchlist_hits/`;
+// Far more vehicles than stay in view at once; older track IDs are forgotten
+const MAX_HIT_TRACK_IDS = 500;
+
+class WatchlistService {
+  private entries: WatchlistEntry[] = [];
+  private listeners = new Set<WatchlistHitListener>();
+  private loading: Promise<WatchlistEntry[]> | null = null;
+  // A vehicle raises one hit however many frames its plate is read in
+  private hitTrackIds = new Set<string>();
+
+  // Reads the stored list once; later calls return the same result
+  load(): Promise<WatchlistEntry[]> {
+    this.loading ??= this.readEntries().then(entries => {
+      this.entries = entries;
+      return this.getEntries();
+    });
+    return this.loading;
+  }
+
+  getEntries(): WatchlistEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  // Lets the user pick a CSV or JSON hotlist; null when the picker is cancelled
+  async importFile(replace: boolean): Promise<WatchlistImportResult | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+
+    const asset = result.assets[0];
+    const parsed = parseWatchlist(await FileSystem.readAsStringAsync(asset.uri), asset.name);
+    if (parsed.entries.length === 0) {
+      throw new Error(parsed.errors.length > 0 ? parsed.errors.join('\n') : 'The file has no plates');
+    }
+
+    await this.saveEntries(mergeEntries(replace ? parsed.entries : [...this.entries, ...parsed.entries]));
+    return { ...parsed, fileName: asset.name, total: this.entries.length };
+  }
+
+  async clear(): Promise<void> {
+    await this.saveEntries([]);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: WatchlistHitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Matches each new raw plate read against the list; snapshotUri is the frame the vehicles came from, if it
+  // is a file, and plateRegions (normalized 0-1) are the plates read in it, blurred in kept snapshots unless plates
+  // are kept raw
+  async check(vehicles: DetectedVehicle[], snapshotUri?: string, plateRegions: BoundingBox[] = []): Promise<WatchlistHit[]> {
+    if (this.entries.length === 0) return [];
+    const mode = SettingsService.getSettings().platePrivacy;
+
+    const hits: WatchlistHit[] = [];
+    for (const vehicle of vehicles) {
+      if (!vehicle.licensePlate || this.hitTrackIds.has(vehicle.id)) continue;
+      const match = matchPlate(vehicle.licensePlate, this.entries);
+      if (!match) continue;
+
+      this.hitTrackIds.add(vehicle.id);
+      // Sets iterate in insertion order, so the first ID is the oldest
+      const [oldest] = this.hitTrackIds;
+      if (this.hitTrackIds.size > MAX_HIT_TRACK_IDS && oldest !== undefined) {
+        this.hitTrackIds.delete(oldest);
+      }
+      const id = `hit_${vehicle.timestamp.getTime()}_${vehicle.id}`;
+      const hit: WatchlistHit = {
+        id,
+        sessionId: vehicle.sessionId,
+        detectionId: vehicle.id,
+        vehicleType: vehicle.type,
+        plateRead: (await PlatePrivacy.protectPlate(vehicle.licensePlate, mode)) ?? '',
+        plateConfidence: vehicle.licensePlateConfidence,
+        entry: { ...match.entry },
+        exact: match.exact,
+        timestamp: vehicle.timestamp,
+        location: vehicle.location,
+        snapshotUri: snapshotUri ? await this.keepSnapshot(id, snapshotUri, plateRegions) : undefined,
+      };
+
+      try {
+        await DetectionStore.insertWatchlistHit(hit);
+      } catch (error) {
+        console.error('Failed to log watchlist hit:', error);
+      }
+      console.log(`Watchlist hit: ${hit.entry.plate} (${hit.entry.priority})`);
+      hits.push(hit);
+      this.listeners.forEach(listener => listener({ ...hit }));
+    }
+    return hits;
+  }
+
+  // For hits on streamed frames, which have no file until the camera takes a photo. The photo is a later
+  // moment than the frame, so its plates are located afresh
+  async attachSnapshot(hitId: string, uri: string): Promise<string | undefined> {
+    const snapshotUri = await this.keepSnapshot(hitId, uri);
+    if (snapshotUri) {
+      await DetectionStore.setWatchlistHitSnapshot(hitId, snapshotUri);
+    }
+    return snapshotUri;
+  }
+
+  async getHits(limit = 100): Promise<WatchlistHit[]> {
+    return DetectionStore.getWatchlistHits(limit);
+  }
+
+  // Frames usually live in the cache directory, which the OS may clear. Unless plates are kept raw, every
+  // vehicle in the photo is redacted, not only the counted ones; no snapshot is kept when that is not possible
+  private async keepSnapshot(hitId: string, uri: string, plateRegions: BoundingBox[] = []): Promise<string | undefined> {
+    try {
+      const isRaw = SettingsService.getSettings().platePrivacy === PlatePrivacyMode.RAW;
+      const located = isRaw ? [] : await VehicleDetectionService.findPlateRegions(uri);
+      if (!located) {
+        console.log(`No snapshot kept for ${hitId}: plates could not be located for redaction`);
+        return undefined;
+      }
+
+      await FileSystem.makeDirectoryAsync(SNAPSHOT_DIRECTORY, { intermediates: true });
+      const snapshotUri = `${SNAPSHOT_DIRECTORY}${hitId}.jpg`;
+      if (isRaw) {
+        await FileSystem.copyAsync({ from: uri, to: snapshotUri });
+      } else {
+        const redactedUri = await PlatePrivacy.redactPhoto(uri, [...plateRegions, ...located]);
+        await FileSystem.moveAsync({ from: redactedUri, to: snapshotUri });
+      }
+      return snapshotUri;
+    } catch (error) {
+      console.error('Failed to keep watchlist snapshot:', error);
+      return undefined;
+    }
+  }
+
+  private async saveEntries(entries: WatchlistEntry[]): Promise<void> {
+    await FileSystem.writeAsStringAsync(WATCHLIST_FILE, JSON.stringify(entries, null, 2));
+    this.entries = entries;
+    this.hitTrackIds.clear();
+  }
+
+  private async readEntries(): Promise<WatchlistEntry[]> {
+    try {
+      if (!(await FileSystem.getInfoAsync(WATCHLIST_FILE)).exists) return [];
+      return parseWatchlist(await FileSystem.readAsStringAsync(WATCHLIST_FILE), WATCHLIST_FILE).entries;
+    } catch (error) {
+      console.error('Failed to read watchlist:', error);
+      return [];
+    }
+  }
+}
+
+export default new WatchlistService();
@@ -0,0 +1,201 @@
+import * as tf from '@tensorflow/tfjs';
+import { NmsMode } from '@/services/DetectionFilter';
+import { DetectOptions, Detection, Detector, DetectorId, toVehicleType } from '@/services/Detector';
+import ModelCache, { ModelDescriptor, ModelInfo, parsePinnedHashes } from '@/services/ModelCache';
+
+// YOLOv8-style TF.js export (e.g. `yolo export format=tfjs`): one [1, 4 + classes, anchors]
+// output of centre-x, centre-y, width, height in input pixels followed by per-class scores.
+// There is no public host for it, so the model.json URL is supplied at build time.
+const YOLO_MODEL: ModelDescriptor = {
+  id: 'yolov8n',
+  name: 'YOLOv8n',
+  version: '1',
+  url: process.env.EXPO_PUBLIC_YOLO_MODEL_URL ?? '',
+  md5: parsePinnedHashes(process.env.EXPO_PUBLIC_YOLO_MODEL_MD5),
+};
+
+// Fixed when the model is exported, so the input size setting does not apply
+const YOLO_INPUT_SIZE = 640;
+
+// COCO-80 ordering used by Ultralytics exports (no gaps, unlike the TF OD API map)
+const COCO_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+  'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat',
+  'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack',
+  'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball',
+  'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket',
+  'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple',
+  'sandwich', 'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair',
+  'couch', 'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse',
+  'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
+  'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier',
+  'toothbrush'
+];
+
+interface Letterbox {
+  tensor: tf.Tensor4D;
+  // Size of the frame inside the padded input, in input pixels
+  contentWidth: number;
+  contentHeight: number;
+}
+
+interface Candidate {
+  classIndex: number;
+  score: number;
+  box: [number, number, number, number]; // ymin, xmin, ymax, xmax in input pixels
+}
+
+export class YoloDetector implements Detector {
+  readonly id = DetectorId.YOLO;
+  readonly name = 'YOLOv8';
+  readonly requiresImage = true;
+  private model: tf.GraphModel | null = null;
+
+  async load(): Promise<ModelInfo> {
+    if (!YOLO_MODEL.url) {
+      throw new Error('No YOLO model configured; set EXPO_PUBLIC_YOLO_MODEL_URL');
+    }
+    const { model, info } = await ModelCache.load(YOLO_MODEL);
+    this.model = model;
+    return info;
+  }
+
+  isReady(): boolean {
+    return this.model !== null;
+  }
+
+  async detect(image: tf.Tensor3D | null, options: DetectOptions): Promise<Detection[]> {
+    if (!this.model || !image) return [];
+
+    const letterbox = this.letterbox(image);
+    const output = this.model.predict(letterbox.tensor) as tf.Tensor;
+    try {
+      const candidates = await this.decode(output, options);
+      const kept = await this.nonMaxSuppression(candidates, options);
+      return kept
+        .map(candidate => this.toDetection(candidate, letterbox, options))
+        .filter((detection): detection is Detection => detection !== null);
+    } finally {
+      letterbox.tensor.dispose();
+      output.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
+  }
+
+  // Scale to fit the square input without distortion, padding the bottom and right edges
+  private letterbox(image: tf.Tensor3D): Letterbox {
+    const [height, width] = image.shape;
+    const scale = YOLO_INPUT_SIZE / Math.max(height, width);
+    const contentHeight = Math.round(height * scale);
+    const contentWidth = Math.round(width * scale);
+
+    const tensor = tf.tidy(() => {
+      const resized = tf.image.resizeBilinear(image, [contentHeight, contentWidth]);
+      const padded = resized.pad([
+        [0, YOLO_INPUT_SIZE - contentHeight],
+        [0, YOLO_INPUT_SIZE - contentWidth],
+        [0, 0],
+      ], 114);
+      return padded.div(255.0).expandDims(0) as tf.Tensor4D;
+    });
+
+    return { tensor, contentWidth, contentHeight };
+  }
+
+  private async decode(output: tf.Tensor, options: DetectOptions): Promise<Candidate[]> {
+    // Exports differ in whether anchors or channels come first; anchors always outnumber channels
+    const [boxTensor, scoreTensor, classTensor] = tf.tidy(() => {
+      let predictions = output.squeeze([0]) as tf.Tensor2D;
+      if (predictions.shape[0] < predictions.shape[1]) {
+        predictions = predictions.transpose();
+      }
+      const classScores = predictions.slice([0, 4], [-1, -1]);
+      return [
+        predictions.slice([0, 0], [-1, 4]),
+        classScores.max(1),
+        classScores.argMax(1),
+      ];
+    });
+
+    const boxData = await boxTensor.data();
+    const scoreData = await scoreTensor.data();
+    const classData = await classTensor.data();
+    boxTensor.dispose();
+    scoreTensor.dispose();
+    classTensor.dispose();
+
+    const candidates: Candidate[] = [];
+    for (let i = 0; i < scoreData.length; i++) {
+      const score = scoreData[i];
+      if (score <= options.scoreThreshold || !toVehicleType(COCO_CLASSES[classData[i]], options.classMap)) continue;
+
+      const [cx, cy, w, h] = boxData.slice(i * 4, i * 4 + 4);
+      candidates.push({
+        classIndex: classData[i],
+        score,
+        box: [cy - h / 2, cx - w / 2, cy + h / 2, cx + w / 2],
+      });
+    }
+    return candidates;
+  }
+
+  // Per the NMS mode setting: class-aware groups boxes by class, class-agnostic suppresses across classes
+  private async nonMaxSuppression(candidates: Candidate[], options: DetectOptions): Promise<Candidate[]> {
+    if (options.nmsMode === NmsMode.OFF || candidates.length === 0) {
+      return [...candidates].sort((a, b) => b.score - a.score).slice(0, options.maxDetections);
+    }
+
+    const groups = new Map<number, Candidate[]>();
+    candidates.forEach(candidate => {
+      const key = options.nmsMode === NmsMode.CLASS_AGNOSTIC ? 0 : candidate.classIndex;
+      groups.set(key, [...(groups.get(key) ?? []), candidate]);
+    });
+
+    const kept: Candidate[] = [];
+    for (const group of groups.values()) {
+      const boxes = tf.tensor2d(group.map(candidate => candidate.box), [group.length, 4]);
+      const scores = tf.tensor1d(group.map(candidate => candidate.score));
+      const indices = await tf.image.nonMaxSuppressionAsync(
+        boxes,
+        scores,
+        options.maxDetections,
+        options.iouThreshold
+      );
+      const keptIndices = await indices.data();
+      keptIndices.forEach(index => kept.push(group[index]));
+      boxes.dispose();
+      scores.dispose();
+      indices.dispose();
+    }
+
+    return kept.sort((a, b) => b.score - a.score).slice(0, options.maxDetections);
+  }
+
+  // Null when the class is not mapped to a vehicle type
+  private toDetection(candidate: Candidate, letterbox: Letterbox, options: DetectOptions): Detection | null {
+    const className = COCO_CLASSES[candidate.classIndex];
+    const type = toVehicleType(className, options.classMap);
+    if (!type) return null;
+
+    const [ymin, xmin, ymax, xmax] = candidate.box;
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const x = clamp(xmin / letterbox.contentWidth);
+    const y = clamp(ymin / letterbox.contentHeight);
+
+    return {
+      type,
+      className,
+      confidence: candidate.score,
+      bbox: {
+        x,
+        y,
+        width: clamp(xmax / letterbox.contentWidth) - x,
+        height: clamp(ymax / letterbox.contentHeight) - y,
+      },
+    };
+  }
+}
@@ -0,0 +1,158 @@
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// How a frame is fitted into a view: 'cover' fills the view and crops the overflow,
+// 'contain' shows the whole frame with bars
+export type ResizeMode = 'cover' | 'contain';
+
+export function centroid(box: BoundingBox): Point {
+  return {
+    x: box.x + box.width / 2,
+    y: box.y + box.height / 2,
+  };
+}
+
+export function intersectionArea(a: BoundingBox, b: BoundingBox): number {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  return Math.max(0, right - left) * Math.max(0, bottom - top);
+}
+
+export function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+  const intersection = intersectionArea(a, b);
+  const union = a.width * a.height + b.width * b.height - intersection;
+
+  return union > 0 ? intersection / union : 0;
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Bottom-centre of the box, where the vehicle meets the road
+export function anchorPoint(box: BoundingBox): Point {
+  return {
+    x: box.x + box.width / 2,
+    y: box.y + box.height,
+  };
+}
+
+// Signed area of (start, end, point): negative on the left of start→end in screen coordinates
+export function sideOfLine(start: Point, end: Point, point: Point): number {
+  return (end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x);
+}
+
+export function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = sideOfLine(q1, q2, p1);
+  const d2 = sideOfLine(q1, q2, p2);
+  const d3 = sideOfLine(p1, p2, q1);
+  const d4 = sideOfLine(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+// Ray casting; points exactly on an edge may fall either way
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function fitFrame(frame: Size, view: Size, mode: ResizeMode): { scale: number; offsetX: number; offsetY: number } {
+  const scaleX = view.width / frame.width;
+  const scaleY = view.height / frame.height;
+  const scale = mode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  return {
+    scale,
+    offsetX: (view.width - frame.width * scale) / 2,
+    offsetY: (view.height - frame.height * scale) / 2,
+  };
+}
+
+// Normalized (0-1) frame coordinates to view pixels
+export function frameToView(point: Point, frame: Size, view: Size, mode: ResizeMode): Point {
+  const { scale, offsetX, offsetY } = fitFrame(frame, view, mode);
+  return {
+    x: offsetX + point.x * frame.width * scale,
+    y: offsetY + point.y * frame.height * scale,
+  };
+}
+
+// View pixels to normalized (0-1) frame coordinates; may fall outside 0-1 in letterbox bars
+export function viewToFrame(point: Point, frame: Size, view: Size, mode: ResizeMode): Point {
+  const { scale, offsetX, offsetY } = fitFrame(frame, view, mode);
+  return {
+    x: (point.x - offsetX) / (frame.width * scale),
+    y: (point.y - offsetY) / (frame.height * scale),
+  };
+}
+
+// Row-major 3×3 projective transform
+export type Homography = number[];
+
+// Transform taking each of the four source points to the matching destination point;
+// null when three of the points are collinear
+export function computeHomography(source: Point[], destination: Point[]): Homography | null {
+  // Eight equations in h0..h7, solved by Gaussian elimination with partial pivoting
+  const rows: number[][] = [];
+  source.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = destination[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const h = [...rows.map((row, i) => row[8] / row[i]), 1];
+  // Scale so points on the source side of the horizon have positive w
+  const w = h[6] * source[0].x + h[7] * source[0].y + h[8];
+  return w > 0 ? h : h.map(value => -value);
+}
+
+// Null for points on or beyond the horizon of the plane
+export function applyHomography(h: Homography, point: Point): Point | null {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  if (w <= 1e-12) return null;
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+}